@@ -2,12 +2,84 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI } from "@google/genai";
-import { marked } from 'marked';
-import DOMPurify from 'dompurify';
 import hljs from 'highlight.js';
+import { createApiProvider, getApiToken, setApiToken } from './services/apiProvider';
+import type { ApiSession } from './services/modelApi';
+import { createModelProvider, findInlineImage, ModelPart } from './services/modelProvider';
+import * as leadStore from './services/leadStore';
+import * as pipeline from './services/pipeline';
+import * as scoring from './services/leadScoring';
+import * as email from './services/emailService';
+import { getSandboxForLead, provisionSandbox } from './services/sandboxService';
+import { attachAudit, compileSolidity, formatDiagnostics, getLatestBuild, recordBuild } from './services/solidityCompiler';
+import { analyzeContract, auditToMarkdown } from './services/securityAnalyzer';
+import * as chain from './services/chainDeployer';
+import * as workspace from './services/projectWorkspace';
+import * as loop from './services/loopOrchestrator';
+import * as roadmap from './services/roadmap';
+import { describeCondition } from './services/conditions';
+import * as runLog from './services/runLog';
+import * as assets from './services/assetRegistry';
+import * as compliance from './services/compliance';
+import * as market from './services/marketData';
+import * as campaigns from './services/campaigns';
+import * as brandSafety from './services/brandSafety';
+import * as gallery from './services/nanoGallery';
+import * as imageTools from './services/imageTools';
+import * as prompts from './services/promptTemplates';
+import { diffLines } from './services/lineDiff';
+import * as usage from './services/usageMeter';
+import * as copilot from './services/copilot';
+import { escapeHtml, imageSrc, renderMarkdown, safeUrl } from './services/safeHtml';
+import { INJECTION_PAYLOADS, runInjectionCorpus, type CorpusResult, type RenderSurface } from './services/injectionCorpus';
+import { leadInputListSchema, supportingFilesSchema } from './services/schemas';
+import { generateStructured, Rejection, StructuredOutputError } from './services/structuredOutput';
+import replayTape from './fixtures/market_replay.csv?raw';
+import type {
+    AuditReport, BrandPolicy, BudgetState, Campaign, CampaignChannel, ChannelPlan, ChannelVariant, Citation, ClaimFinding, BuildRecord, CompilerDiagnostic, ComplianceReport, ContractArtifact, CopilotMessage, CopilotSelection, DeploymentRecord, EmailMessage, FeedStatus, Holder, Lead, LeadInput, LoopCheckpoint, LoopConfig,
+    LoopContext, LoopStageId, LoopStageOutputs, MarketQuote, NanoImage, PipelineStage, PromptRef, RoadmapPhase, RunLogEntry, SandboxAsset, ScoringWeights, SecurityFinding, TokenizedAsset, UsageRecord, UsageSettings, ValuationMethod
+} from './types';
+
+// Model backend: the model API server, or record/replay against fixtures/ for offline runs.
+// Metering sits outermost so the run log sees the model a budget downgrade picked.
+const modelApi = createApiProvider({
+    baseUrl: process.env.MODEL_API_URL,
+    token: getApiToken,
+    onUnauthorized: e => void openApiAccess(e.message)
+});
+const provider = usage.createMeteredProvider(runLog.createRunLogProvider(createModelProvider({
+    mode: process.env.MODEL_PROVIDER,
+    api: modelApi,
+    fixtures: process.env.MODEL_FIXTURES
+}), () => logScope()), {
+    scope: () => usageScope(),
+    onRecord: () => {
+        if (currentView === 'usage') void renderUsage();
+    },
+    onBudget: (state, refused) => onBudgetSpent(state, refused)
+});
+
+/** Where a run-log entry happened: the active view, loop run and context. */
+function logScope(): runLog.RunLogScope {
+    const checkpoint = loop.getCheckpoint();
+    return {
+        view: currentView,
+        runId: checkpoint && loop.isLoopActive() ? checkpoint.runId : undefined,
+        context: loopContext
+    };
+}
+
+/** Budget scope of a model call: loop budgets only see calls the loop makes. */
+function usageScope(): usage.UsageScope {
+    const checkpoint = loop.getCheckpoint();
+    return checkpoint && loop.isLoopActive()
+        ? { view: currentView, runId: checkpoint.runId, iteration: checkpoint.iteration }
+        : { view: currentView };
+}
 
-const API_KEY = process.env.API_KEY;
+function logEvent(event: string, data: unknown) {
+    runLog.logEvent(logScope(), event, data).catch(() => { /* reported by the run log */ });
+}
 
 // UI Elements
 const navBtns = document.querySelectorAll('.nav-btn');
@@ -15,31 +87,115 @@ const panels = document.querySelectorAll('.panel');
 const generateBtn = document.getElementById('generate-btn') as HTMLButtonElement;
 const infiniteLoopToggle = document.getElementById('infinite-loop-toggle') as HTMLInputElement;
 const headerStatus = document.getElementById('header-status');
+const loopStatus = document.getElementById('loop-status');
+const roadmapStrip = document.getElementById('roadmap-strip');
+const roadmapModal = document.getElementById('roadmap-modal') as HTMLDialogElement;
+const roadmapEditor = document.getElementById('roadmap-editor') as HTMLTextAreaElement;
+const roadmapErrors = document.getElementById('roadmap-errors');
+const historyList = document.getElementById('history-list');
+const historyViewFilter = document.getElementById('history-view-filter') as HTMLSelectElement;
+const historyKindFilter = document.getElementById('history-kind-filter') as HTMLSelectElement;
+const historySearch = document.getElementById('history-search') as HTMLInputElement;
+const historyCount = document.getElementById('history-count');
+const loopModal = document.getElementById('loop-modal') as HTMLDialogElement;
+const loopEditor = document.getElementById('loop-editor') as HTMLTextAreaElement;
+const loopErrors = document.getElementById('loop-errors');
+const promptsModal = document.getElementById('prompts-modal') as HTMLDialogElement;
+const promptTemplateSelect = document.getElementById('prompt-template-select') as HTMLSelectElement;
+const promptVersionSelect = document.getElementById('prompt-version-select') as HTMLSelectElement;
+const promptTemplateDesc = document.getElementById('prompt-template-desc');
+const promptVariables = document.getElementById('prompt-variables');
+const promptEditor = document.getElementById('prompt-editor') as HTMLTextAreaElement;
+const promptDiff = document.getElementById('prompt-diff');
+const promptErrors = document.getElementById('prompt-errors');
 
 // Terminal Elements
 const terminalContent = document.getElementById('output-content');
 
 // CRM Elements
-const listLeads = document.getElementById('list-leads');
-const listActive = document.getElementById('list-active');
-const listClosed = document.getElementById('list-closed');
+const kanbanBoard = document.getElementById('kanban-board');
+const crmRejections = document.getElementById('crm-rejections');
+const pipelineModal = document.getElementById('pipeline-modal') as HTMLDialogElement;
+const pipelineEditor = document.getElementById('pipeline-editor') as HTMLTextAreaElement;
+const pipelineErrors = document.getElementById('pipeline-errors');
 const leadModal = document.getElementById('lead-modal') as HTMLDialogElement;
 const closeModalBtn = document.getElementById('close-modal-btn');
+const modalLeadOwner = document.getElementById('modal-lead-owner') as HTMLInputElement;
+const modalLeadNotes = document.getElementById('modal-lead-notes') as HTMLTextAreaElement;
+const modalLeadHistory = document.getElementById('modal-lead-history');
+const modalScoreFactors = document.getElementById('modal-score-factors');
+const scoringModal = document.getElementById('scoring-modal') as HTMLDialogElement;
+const scoringEditor = document.getElementById('scoring-editor') as HTMLTextAreaElement;
+const scoringErrors = document.getElementById('scoring-errors');
+const scoringBacktest = document.getElementById('scoring-backtest');
+const emailTemplateSelect = document.getElementById('email-template-select') as HTMLSelectElement;
+const emailComposer = document.getElementById('email-composer');
+const emailTo = document.getElementById('email-to') as HTMLInputElement;
+const emailSubject = document.getElementById('email-subject') as HTMLInputElement;
+const emailBody = document.getElementById('email-body') as HTMLTextAreaElement;
+const leadOutboxSection = document.getElementById('lead-outbox-section');
+const leadOutbox = document.getElementById('lead-outbox');
+const sandboxPanel = document.getElementById('sandbox-panel');
+const leadPositions = document.getElementById('lead-positions');
+const investClass = document.getElementById('invest-class') as HTMLSelectElement;
+const investUnits = document.getElementById('invest-units') as HTMLInputElement;
 
 // IDE Elements
 const codeContent = document.getElementById('code-content');
+const lineNumbers = document.getElementById('line-numbers');
 const ideLogs = document.getElementById('ide-logs');
 const copilotChat = document.getElementById('copilot-chat');
+const copilotInput = document.getElementById('copilot-input') as HTMLTextAreaElement;
+const btnCopilotSend = document.getElementById('btn-copilot-send') as HTMLButtonElement;
+const copilotSelectionChip = document.getElementById('copilot-selection');
 const secStatusText = document.getElementById('sec-status-text');
+const fileList = document.getElementById('file-list');
+const tabFile = document.getElementById('tab-file');
+const versionSelect = document.getElementById('file-version-select') as HTMLSelectElement;
+const btnRestoreVersion = document.getElementById('btn-restore-version') as HTMLButtonElement;
+const btnEditFile = document.getElementById('btn-edit-file') as HTMLButtonElement;
+const btnSaveFile = document.getElementById('btn-save-file') as HTMLButtonElement;
+const btnCancelEdit = document.getElementById('btn-cancel-edit') as HTMLButtonElement;
+const btnExportProject = document.getElementById('btn-export-project');
+const fileEditorInput = document.getElementById('file-editor-input') as HTMLTextAreaElement;
+const diffReview = document.getElementById('diff-review');
 
 // Deploy Elements
 const deployProgress = document.getElementById('deploy-progress');
 const deploySteps = document.getElementById('deploy-steps');
+const deployDetails = document.getElementById('deploy-details');
+
+// Asset Registry Elements
+const assetList = document.getElementById('asset-list');
+const assetSummary = document.getElementById('asset-summary');
+const assetClasses = document.getElementById('asset-classes');
+const assetCapTable = document.getElementById('asset-cap-table');
+const assetLedger = document.getElementById('asset-ledger');
+const assetHolders = document.getElementById('asset-holders');
+const assetCompliance = document.getElementById('asset-compliance');
+const ledgerClass = document.getElementById('ledger-class') as HTMLSelectElement;
+const ledgerFrom = document.getElementById('ledger-from') as HTMLSelectElement;
+const ledgerTo = document.getElementById('ledger-to') as HTMLInputElement;
+const ledgerUnits = document.getElementById('ledger-units') as HTMLInputElement;
+const holderNames = document.getElementById('holder-names');
+const assetModal = document.getElementById('asset-modal') as HTMLDialogElement;
+const assetEditor = document.getElementById('asset-editor') as HTMLTextAreaElement;
+const assetErrors = document.getElementById('asset-errors');
 
 // Marketing Elements
 const marketingTopicInput = document.getElementById('marketing-topic') as HTMLInputElement;
 const btnGenMarketing = document.getElementById('btn-gen-marketing');
-const seoContent = document.getElementById('seo-content');
+const campaignPhase = document.getElementById('campaign-phase');
+const campaignChannelPicks = document.getElementById('campaign-channel-picks');
+const campaignList = document.getElementById('campaign-list');
+const campaignSummary = document.getElementById('campaign-summary');
+const campaignBlockers = document.getElementById('campaign-blockers');
+const campaignChannels = document.getElementById('campaign-channels');
+const campaignFindings = document.getElementById('campaign-findings');
+const brandPolicyModal = document.getElementById('brand-policy-modal') as HTMLDialogElement;
+const brandPolicyEditor = document.getElementById('brand-policy-editor') as HTMLTextAreaElement;
+const brandPolicyErrors = document.getElementById('brand-policy-errors');
+const campaignCitations = document.getElementById('campaign-citations');
 const imageResult = document.getElementById('image-result');
 
 // Nano Banana Studio Elements
@@ -52,34 +208,56 @@ const nanoGenBtn = document.getElementById('nano-generate-btn') as HTMLButtonEle
 const nanoEditBtn = document.getElementById('nano-edit-btn') as HTMLButtonElement;
 const nanoCanvas = document.getElementById('nano-canvas');
 const nanoStatusMsg = document.getElementById('nano-status-msg');
+const nanoLineage = document.getElementById('nano-lineage');
+const nanoGallery = document.getElementById('nano-gallery');
+const btnNanoCompare = document.getElementById('btn-nano-compare') as HTMLButtonElement;
+const btnNanoDownload = document.getElementById('btn-nano-download') as HTMLButtonElement;
+const nanoUploadInput = document.getElementById('nano-upload-input') as HTMLInputElement;
+const nanoReferences = document.getElementById('nano-references');
+const btnNanoMask = document.getElementById('btn-nano-mask') as HTMLButtonElement;
+const btnNanoClearMask = document.getElementById('btn-nano-clear-mask') as HTMLButtonElement;
+const nanoBrushSize = document.getElementById('nano-brush-size') as HTMLInputElement;
 
 // State
 let currentView = 'terminal';
 let isRunning = false;
-let isInfiniteLoop = false;
-let lastGeneratedImageData: { data: string, mimeType: string } | null = null;
+let modalLeadId: string | null = null;
+let modalAnalysis = '';
+let currentDraft: EmailMessage | null = null;
 
-let loopContext = {
-    feature: "Token Asset Standard (TAS-1)",
-    userCount: 0,
-    infrastructure: "Testnet Alpha"
-};
+const mailTransport = email.createMailTransport(process.env.MAIL_TRANSPORT);
+const MAIL_FROM = process.env.MAIL_FROM || 'sales@nimbusiq.example';
 
-// --- 1. PERSONAS & PROMPTS ---
+let loopContext: LoopContext = deriveLoopContext();
+
+/**
+ * The loop's context is not stored separately: the feature and target come
+ * from the active roadmap phase, the user count from won CRM deals.
+ */
+function deriveLoopContext(): LoopContext {
+    const phase = roadmap.activePhase();
+    return {
+        feature: phase?.title || 'Roadmap Complete',
+        infrastructure: phase?.infrastructure || 'Mainnet + L2',
+        userCount: countWonLeads()
+    };
+}
 
-const SYSTEM_ARCHITECT_PROMPT = `You are Nimbus IQ, the Chief System Architect for the ADK Tokenization Platform.
-You command a suite of tools: Breeze CRM, ADK Studio, Cloud Deploy, and Marketing HQ.
-You are currently executing an autonomous build loop.
+function countWonLeads() {
+    return leadStore.listLeads().filter(l => pipeline.getStage(l.status)?.outcome === 'won').length;
+}
 
-Current Context:
-- Feature Phase: \${context.feature}
-- Active Users: \${context.userCount}
-- Infrastructure: \${context.infrastructure}
+// --- 1. PERSONAS & PROMPTS ---
 
-When asked, generate output appropriate for the specific tool active in the IDE.
-For Code Generation: Focus on Solidity Smart Contracts or Rust for asset tokenization.
-For Security: Focus on Reentrancy, Overflow, and Access Control vulnerabilities.
-`;
+// Templates live in services/prompts.ts and are edited from the prompts dialog.
+function systemArchitectPrompt() {
+    return prompts.renderPrompt('architect.system', {
+        feature: loopContext.feature,
+        userCount: loopContext.userCount,
+        infrastructure: loopContext.infrastructure,
+        roadmap: roadmap.describeRoadmap()
+    });
+}
 
 // --- 2. CORE LOGIC ---
 
@@ -95,6 +273,11 @@ navBtns.forEach(btn => {
 
 function switchView(view: string) {
     currentView = view;
+    if (view === 'history') void renderHistory();
+    if (view === 'assets') renderAssets();
+    if (view === 'marketing') void renderMarketing();
+    if (view === 'nano') void renderNanoGallery();
+    if (view === 'usage') void renderUsage();
     // Update Nav
     navBtns.forEach(b => {
         if (b.getAttribute('data-view') === view) b.classList.add('active');
@@ -112,7 +295,7 @@ function switchView(view: string) {
  */
 function setStatus(msg: string, type: 'idle' | 'busy' | 'error' | 'success' = 'idle') {
     if (headerStatus) {
-        headerStatus.innerHTML = `SYSTEM ${type.toUpperCase()} // <span style="color: ${getColorForType(type)}">${msg.toUpperCase()}</span>`;
+        headerStatus.innerHTML = `SYSTEM ${type.toUpperCase()} // <span style="color: ${getColorForType(type)}">${escapeHtml(msg.toUpperCase())}</span>`;
     }
 }
 
@@ -128,81 +311,167 @@ function getColorForType(type: string) {
 /**
  * Main Trigger
  */
-generateBtn.addEventListener('click', async () => {
-    if (isRunning) return;
+/**
+ * Every view's agent action, returning what the loop hands to later stages.
+ */
+const stageRunners: { [K in LoopStageId]: () => Promise<LoopStageOutputs[K]> } = {
+    terminal: async () => ({ characters: await runTerminalSimulation() }),
+    crm: () => runCRMSimulation(),
+    ide: () => runIDELoop(),
+    deploy: () => runDeployment(),
+    marketing: () => runMarketingAgent(),
+    nano: async () => {
+        try {
+            const image = await runNanoStudioAction(false);
+            return { image: true, imageId: image.id };
+        } catch (e) {
+            reportNanoFailure(e);
+            throw e;
+        }
+    }
+};
+
+/**
+ * Views without an agent stage: the button refreshes their panel instead.
+ */
+const viewRefreshers: Record<string, () => unknown> = {
+    history: () => renderHistory(),
+    assets: () => renderAssets(),
+    usage: () => renderUsage()
+};
+
+async function runView<K extends LoopStageId>(view: K): Promise<LoopStageOutputs[K]> {
     isRunning = true;
-    isInfiniteLoop = infiniteLoopToggle.checked;
-    
     generateBtn.disabled = true;
     generateBtn.innerHTML = '<span class="blink">EXECUTING...</span>';
-
     try {
-        if (currentView === 'terminal') {
-            await runTerminalSimulation();
-        } else if (currentView === 'crm') {
-            await runCRMSimulation();
-        } else if (currentView === 'ide') {
-            await runIDELoop();
-        } else if (currentView === 'deploy') {
-            await runDeploySimulation();
-        } else if (currentView === 'marketing') {
-            await runMarketingAgent();
-        } else if (currentView === 'nano') {
-            await runNanoStudioAction(false);
-        }
-    } catch (e) {
-        console.error(e);
-        setStatus("Process Failed", "error");
+        return await stageRunners[view]();
     } finally {
         isRunning = false;
-        generateBtn.disabled = false;
-        generateBtn.textContent = isInfiniteLoop ? "LOOP ACTIVE" : "INITIATE SEQUENCE";
-        
-        // --- AUTONOMOUS LOOP LOGIC ---
-        if (isInfiniteLoop) {
-            handleAutonomousTransition();
-        }
+        renderLoopControls();
+    }
+}
+
+generateBtn.addEventListener('click', async () => {
+    if (isRunning && !loop.isLoopActive()) return;
+
+    const checkpoint = loop.getCheckpoint();
+    if (loop.isLoopActive()) return loop.pauseLoop();
+    if (checkpoint && (checkpoint.status === 'paused' || checkpoint.status === 'halted')) return loop.resumeLoop();
+    if (infiniteLoopToggle.checked) return loop.startLoop(currentView);
+
+    if (currentView in viewRefreshers) return void viewRefreshers[currentView]();
+    if (!(currentView in stageRunners)) return;
+    try {
+        await runView(currentView as LoopStageId);
+    } catch (e: any) {
+        console.error(e);
+        setStatus(e?.message ? `Process Failed: ${e.message}` : "Process Failed", "error");
     }
 });
 
-function handleAutonomousTransition() {
-    let nextView = '';
-    let delay = 1500;
-
-    switch(currentView) {
-        case 'ide': 
-            nextView = 'deploy'; 
-            setStatus("Security Scan Passed. Initializing Deployment...", "success");
-            break;
-        case 'deploy': 
-            nextView = 'marketing'; 
-            setStatus("Deployed. Triggering Marketing Agent...", "success");
-            break;
-        case 'marketing':
-            nextView = 'nano';
-            setStatus("Assets Created. Launching Vision Lab...", "success");
-            break;
-        case 'nano':
-            nextView = 'crm';
-            setStatus("Campaign Live. Inbound Leads Detected...", "success");
-            loopContext.userCount += Math.floor(Math.random() * 150) + 50;
-            break;
-        case 'crm': 
-            nextView = 'ide'; 
-            setStatus("Scaling Architecture for User Growth...", "success");
-            loopContext.feature = "Layer 2 Scaling (Optimism)";
-            loopContext.infrastructure = "Mainnet + L2";
-            break;
-        default:
-            nextView = 'ide';
-    }
-
-    setTimeout(() => {
-        if (infiniteLoopToggle.checked) {
-            switchView(nextView);
-            setTimeout(() => generateBtn.click(), 500);
+/**
+ * LOOP: Stage wiring for the orchestrator
+ */
+const STAGE_MESSAGES: Record<LoopStageId, string> = {
+    terminal: "Narrating System State...",
+    ide: "Scaling Architecture for User Growth...",
+    deploy: "Security Scan Passed. Initializing Deployment...",
+    marketing: "Deployed. Triggering Marketing Agent...",
+    nano: "Assets Created. Launching Vision Lab...",
+    crm: "Campaign Live. Inbound Leads Detected..."
+};
+
+/**
+ * LOOP: Roadmap progress is scored once per iteration
+ */
+function advanceRoadmap(checkpoint: LoopCheckpoint): string | void {
+    const result = roadmap.evaluateIteration(checkpoint);
+    loopContext = deriveLoopContext();
+    renderRoadmap();
+    if (!result) return 'Roadmap complete';
+
+    const { phase, outcome, next } = result;
+    logEvent('roadmap', { phase: phase.id, outcome, next: next?.id, evaluation: phase.lastEvaluation });
+    if (outcome === 'done') setStatus(`Phase Complete: ${phase.title}. Next: ${next?.title || 'none'}`, "success");
+    else if (outcome === 'blocked') setStatus(`Phase Blocked: ${phase.title} (${phase.lastEvaluation!.unmet.join('; ')})`, "error");
+    else setStatus(`${phase.title}: ${phase.lastEvaluation!.unmet.length} criteria unmet, iterating`, "busy");
+    if (!next) return 'Roadmap complete';
+}
+
+loop.bindLoop({
+    runners: {
+        terminal: () => runView('terminal'),
+        crm: () => runView('crm'),
+        ide: () => runView('ide'),
+        deploy: () => runView('deploy'),
+        marketing: () => runView('marketing'),
+        nano: () => runView('nano')
+    },
+    snapshot: () => ({ ...loopContext }),
+    refreshOutputs: async cp => {
+        // A reviewer may have accepted the draft since the IDE stage, which rebuilds and rescans it.
+        const ide = cp.outputs.ide;
+        const latest = getLatestBuild(false);
+        if (ide) {
+            ide.pendingReview = pendingReviewPaths();
+            if (latest && latest.id !== ide.buildId) Object.assign(ide, { buildId: latest.id, compiled: latest.ok, audit: latest.audit?.counts || ide.audit });
         }
-    }, delay);
+        const output = cp.outputs.marketing;
+        if (output?.campaignId) output.openFindings = brandSafety.blockingFindings(await campaigns.getCampaign(output.campaignId)).length;
+    },
+    afterStage: () => { loopContext = deriveLoopContext(); },
+    afterIteration: advanceRoadmap,
+    onEvent: event => {
+        switch (event.type) {
+            case 'stage-start':
+                switchView(event.stage);
+                if (event.attempt === 1) setStatus(STAGE_MESSAGES[event.stage], "success");
+                break;
+            case 'retry':
+                setStatus(`${event.stage} failed (${event.error}). Retry ${event.attempt + 1} in ${Math.round(event.delayMs / 1000)}s`, "error");
+                break;
+            case 'stage-skipped':
+                setStatus(`Skipped ${event.stage}: ${event.reasons.join('; ')}`, "idle");
+                break;
+            case 'halted':
+                setStatus(`Loop Halted: ${event.error}`, "error");
+                budgetPause = null;
+                break;
+            case 'paused':
+                if (budgetPause) setStatus(budgetPause, "error");
+                else setStatus(`Loop Paused Before ${loop.currentStage()?.id || 'next stage'}`, "idle");
+                budgetPause = null;
+                break;
+            case 'completed':
+                setStatus(`Loop Complete: ${event.reason || `${event.iterations} iteration(s)`}`, "success");
+                break;
+        }
+        renderLoopControls();
+    }
+});
+
+function renderLoopControls() {
+    const cp = loop.getCheckpoint();
+    const config = loop.getLoopConfig();
+    if (loopStatus) {
+        loopStatus.textContent = cp && cp.status !== 'idle'
+            ? `${cp.status.toUpperCase()} · ITER ${Math.min(cp.iteration + 1, config.maxIterations)}/${config.maxIterations} · ${config.stages[cp.stageIndex]?.id || 'done'}${cp.attempt ? ` · TRY ${cp.attempt + 1}` : ''}`
+            : '';
+        loopStatus.title = cp?.lastError || '';
+        loopStatus.className = `loop-status ${cp?.status || 'idle'}`;
+    }
+    infiniteLoopToggle.checked = loop.isLoopActive();
+    if (loop.isLoopActive()) {
+        generateBtn.disabled = false;
+        generateBtn.textContent = "PAUSE LOOP";
+    } else if (cp && (cp.status === 'paused' || cp.status === 'halted')) {
+        generateBtn.disabled = false;
+        generateBtn.textContent = "RESUME LOOP";
+    } else if (!isRunning) {
+        generateBtn.disabled = false;
+        generateBtn.textContent = "INITIATE SEQUENCE";
+    }
 }
 
 // --- 3. VIEW SPECIFIC FUNCTIONS ---
@@ -214,27 +483,31 @@ async function runTerminalSimulation() {
     setStatus("Generating Narrative Log...", "busy");
     if (terminalContent) terminalContent.innerHTML = '';
     
-    const prompt = `Generate a system log for the ADK Platform. 
-    Context: We are currently in the "${loopContext.feature}" phase with ${loopContext.userCount} active users.
-    Output markdown. Narrative style, high-tech, concise.`;
+    const system = systemArchitectPrompt();
+    const prompt = prompts.renderPrompt('terminal.narrative', {
+        feature: loopContext.feature,
+        userCount: loopContext.userCount,
+        roadmap: roadmap.describeRoadmap()
+    });
 
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const stream = await ai.models.generateContentStream({
+    const stream = provider.generateStream({
         model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: { systemInstruction: SYSTEM_ARCHITECT_PROMPT.replace('${context.feature}', loopContext.feature) }
+        contents: prompt.text,
+        config: { systemInstruction: system.text },
+        prompts: [prompt.ref, system.ref]
     });
 
     let md = '';
     for await (const chunk of stream) {
         md += chunk.text;
         if (terminalContent) {
-            terminalContent.innerHTML = DOMPurify.sanitize(await marked.parse(md));
+            terminalContent.innerHTML = await renderMarkdown(md);
             const win = document.querySelector('.terminal-window .terminal-content');
             if (win) win.scrollTop = win.scrollHeight;
         }
     }
     setStatus("Log Complete", "idle");
+    return md.length;
 }
 
 /**
@@ -243,292 +516,1758 @@ async function runTerminalSimulation() {
 async function runCRMSimulation() {
     setStatus("Syncing Inbound Leads...", "busy");
     
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const prompt = `Generate 4 realistic high-value CRM leads for a Real Estate Tokenization Platform.
-    Return ONLY raw JSON array.
-    Structure: [{ "company": string, "value": string, "status": "lead" | "active" | "closed", "tags": string[], "industry": string }]`;
+    const stageIds = pipeline.entryStages().map(st => st.id);
+    const offerings = assets.listAssets().map(assets.describeAsset).join('\n\n');
+    const prompt = prompts.renderPrompt('crm.leads', { offerings });
 
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-        config: { responseMimeType: "application/json" }
-    });
+    let result;
+    try {
+        result = await generateStructured<LeadInput[]>(provider, {
+            model: 'gemini-2.5-flash',
+            contents: prompt.text,
+            prompts: [prompt.ref]
+        }, leadInputListSchema(stageIds));
+    } catch (e) {
+        if (e instanceof StructuredOutputError) renderRejections(e.rejected, `Lead sync failed after ${e.attempts} attempts`);
+        throw e;
+    }
 
-    const leads = JSON.parse(response.text || "[]");
-    
-    const cols = ['list-leads', 'list-active', 'list-closed'];
-    cols.forEach(id => {
-        const el = document.getElementById(id);
-        if(el) el.innerHTML = '';
+    const created = leadStore.mergeGeneratedLeads(result.data);
+    renderRejections(result.rejected, `${result.rejected.length} generated lead(s) rejected`);
+
+    renderPipeline(new Set(created.map(l => l.id)));
+
+    setStatus(result.rejected.length ? "Pipeline Synced With Rejections" : "Pipeline Synced", result.rejected.length ? "error" : "idle");
+    return { created: created.length, rejected: result.rejected.length, won: countWonLeads() };
+}
+
+/**
+ * CRM: Validation error state for rejected model output
+ */
+function renderRejections(rejected: Rejection[], title: string) {
+    if (!crmRejections) return;
+    crmRejections.hidden = rejected.length === 0;
+    crmRejections.innerHTML = rejected.length ? `
+        <div class="rejection-title">⚠ ${escapeHtml(title)}</div>
+        <ul>${rejected.map(r => `<li><code>${escapeHtml(r.path)}</code> ${escapeHtml(r.reason)}${r.value !== undefined ? ` <span class="rejected-value">${escapeHtml(JSON.stringify(r.value).slice(0, 120))}</span>` : ''}</li>`).join('')}</ul>
+    ` : '';
+}
+
+/**
+ * CRM: Render Kanban from the persisted lead store
+ */
+function leadCardHtml(lead: Lead) {
+    return `
+        <div class="card-title">${escapeHtml(lead.company)}</div>
+        <div class="card-value">${escapeHtml(lead.value)}</div>
+        <div class="card-owner">${escapeHtml(lead.owner)}</div>
+        <div class="card-tags">
+            ${lead.tags.map((t: string) => `<span class="tag">${escapeHtml(t)}</span>`).join('')}
+        </div>
+    `;
+}
+
+function renderPipeline(highlight: Set<string> = new Set()) {
+    if (!kanbanBoard) return;
+    kanbanBoard.innerHTML = '';
+
+    const counts = leadStore.countByStatus();
+    const lists: Record<string, HTMLElement> = {};
+    pipeline.getPipeline().forEach(stage => {
+        const column = document.createElement('div');
+        column.className = `kanban-column stage-${stage.outcome}`;
+        column.dataset.stageId = stage.id;
+        column.innerHTML = `
+            <h3>${escapeHtml(stage.label.toUpperCase())} <span class="count">${counts[stage.id] || 0}</span></h3>
+            <div class="card-list"></div>
+        `;
+        attachDropTarget(column, stage.id);
+        kanbanBoard.appendChild(column);
+        lists[stage.id] = column.querySelector('.card-list') as HTMLElement;
     });
 
-    leads.forEach((lead: any) => {
+    const sorted = leadStore.listLeads().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    sorted.forEach(lead => {
         const card = document.createElement('div');
-        card.className = 'crm-card slide-in';
-        card.innerHTML = `
-            <div class="card-title">${lead.company}</div>
-            <div class="card-value">${lead.value}</div>
-            <div class="card-tags">
-                ${lead.tags.map((t: string) => `<span class="tag">${t}</span>`).join('')}
-            </div>
-        `;
-        
+        card.className = highlight.has(lead.id) ? 'crm-card slide-in' : 'crm-card';
+        card.dataset.leadId = lead.id;
+        card.draggable = true;
+        card.innerHTML = leadCardHtml(lead);
+
         card.addEventListener('click', () => openLeadModal(lead));
+        card.addEventListener('dragstart', (e) => {
+            e.dataTransfer?.setData('text/plain', lead.id);
+            card.classList.add('dragging');
+        });
+        card.addEventListener('dragend', () => card.classList.remove('dragging'));
+        lists[lead.status]?.appendChild(card);
+    });
+}
 
-        if (lead.status === 'lead' && listLeads) listLeads.prepend(card);
-        else if (lead.status === 'active' && listActive) listActive.prepend(card);
-        else if (lead.status === 'closed' && listClosed) listClosed.prepend(card);
+/**
+ * CRM: Drag-and-drop stage transitions
+ */
+function attachDropTarget(column: HTMLElement, stageId: string) {
+    column.addEventListener('dragover', (e) => {
+        e.preventDefault();
+        column.classList.add('drop-target');
+    });
+    column.addEventListener('dragleave', () => column.classList.remove('drop-target'));
+    column.addEventListener('drop', (e) => {
+        e.preventDefault();
+        column.classList.remove('drop-target');
+        const leadId = e.dataTransfer?.getData('text/plain');
+        if (!leadId) return;
+        try {
+            const lead = leadStore.moveLead(leadId, stageId);
+            setStatus(`${lead.company} → ${pipeline.getStage(stageId)?.label}`, "success");
+            renderPipeline(new Set([lead.id]));
+        } catch (err: any) {
+            setStatus(`Move Blocked: ${err.message}`, "error");
+        }
     });
+}
+
+/**
+ * CRM: Pipeline Stage Editor
+ */
+function showPipelineErrors(errors: string[]) {
+    if (pipelineErrors) pipelineErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+}
+
+document.getElementById('btn-edit-pipeline')?.addEventListener('click', () => {
+    pipelineEditor.value = JSON.stringify(pipeline.getPipeline(), null, 2);
+    showPipelineErrors([]);
+    pipelineModal.showModal();
+});
+
+document.getElementById('btn-pipeline-preset')?.addEventListener('click', () => {
+    pipelineEditor.value = JSON.stringify(pipeline.TOKENIZATION_PIPELINE_PRESET, null, 2);
+});
+
+document.getElementById('close-pipeline-btn')?.addEventListener('click', () => pipelineModal.close());
+
+document.getElementById('btn-save-pipeline')?.addEventListener('click', () => {
+    let next: unknown;
+    try {
+        next = JSON.parse(pipelineEditor.value);
+    } catch (e: any) {
+        return showPipelineErrors([`Invalid JSON: ${e.message}`]);
+    }
+    const errors = pipeline.validatePipeline(next);
+    if (errors.length) return showPipelineErrors(errors);
+
+    pipeline.savePipeline(next as PipelineStage[]);
+    const moved = leadStore.reconcileStages();
+    renderPipeline();
+    pipelineModal.close();
+    setStatus(moved ? `Pipeline Saved (${moved} leads re-homed)` : "Pipeline Saved", "success");
+});
+
+function leadHistoryHtml(lead: Lead) {
+    return [...lead.history].reverse().map(h => `
+        <li><span class="history-time">${new Date(h.at).toLocaleString()}</span> ${escapeHtml(h.message)} <span class="history-actor">— ${escapeHtml(h.actor)}</span></li>
+    `).join('');
+}
 
-    document.querySelector('#col-leads .count')!.textContent = (Math.floor(loopContext.userCount * 0.1)).toString();
-    document.querySelector('#col-active .count')!.textContent = (Math.floor(loopContext.userCount * 0.05)).toString();
-    document.querySelector('#col-closed .count')!.textContent = (Math.floor(loopContext.userCount * 0.02)).toString();
+function renderLeadHistory(lead: Lead) {
+    if (modalLeadHistory) modalLeadHistory.innerHTML = leadHistoryHtml(lead);
+}
 
-    setStatus("Pipeline Synced", "idle");
+function renderLeadScore(lead: Lead) {
+    const score = scoring.scoreLead(lead, pipeline.getPipeline(), leadStore.DEFAULT_OWNER);
+    document.getElementById('modal-lead-prob')!.textContent = Math.round(score.probability * 100) + '%';
+    if (!modalScoreFactors) return;
+    modalScoreFactors.innerHTML = score.factors.map(f => {
+        const sign = f.contribution > 0 ? 'pos' : f.contribution < 0 ? 'neg' : '';
+        const shown = Number.isFinite(f.contribution) ? `${f.contribution >= 0 ? '+' : ''}${f.contribution.toFixed(2)}` : (f.contribution > 0 ? 'WON' : 'LOST');
+        return `<li><span>${escapeHtml(f.label)}</span><span class="factor-detail">${escapeHtml(f.detail)}</span><span class="${sign}">${shown}</span></li>`;
+    }).join('');
 }
 
 /**
  * CRM: Lead Detail Modal Logic
  */
-async function openLeadModal(lead: any) {
+async function openLeadModal(lead: Lead) {
     if (!leadModal) return;
+    modalLeadId = lead.id;
     
     document.getElementById('modal-lead-name')!.textContent = lead.company;
     document.getElementById('modal-lead-value')!.textContent = lead.value;
-    document.getElementById('modal-lead-prob')!.textContent = Math.floor(Math.random() * 60 + 30) + '%';
+    renderLeadScore(lead);
+    if (modalLeadOwner) modalLeadOwner.value = lead.owner;
+    if (modalLeadNotes) modalLeadNotes.value = lead.notes;
+    renderLeadHistory(lead);
+    modalAnalysis = '';
+    currentDraft = null;
+    if (emailComposer) emailComposer.hidden = true;
+    renderOutbox(lead.id);
+    renderSandbox(getSandboxForLead(lead.id));
+    renderInvestorPosition(lead);
+    // The record is usable while the analysis is still generating.
+    if (!leadModal.open) leadModal.showModal();
     
     const aiContent = document.getElementById('modal-ai-content');
-    if (aiContent) {
-        aiContent.innerHTML = '<span class="blink">Generating Deal Strategy...</span>';
-        
-        const analysisPrompt = `Analyze this CRM lead: ${lead.company} in ${lead.industry} worth ${lead.value}.
-        Provide 2 bullet points on why they need asset tokenization and 1 recommended next step.`;
-        
-        const ai = new GoogleGenAI({ apiKey: API_KEY });
-        const response = await ai.models.generateContent({
+    if (!aiContent) return;
+    aiContent.innerHTML = '<span class="blink">Generating Deal Strategy...</span>';
+    
+    const analysisPrompt = prompts.renderPrompt('crm.deal-analysis', { company: lead.company, industry: lead.industry, value: lead.value });
+    try {
+        const response = await provider.generate({
             model: 'gemini-2.5-flash',
-            contents: analysisPrompt
+            contents: analysisPrompt.text,
+            prompts: [analysisPrompt.ref]
         });
-        
-        aiContent.innerHTML = await marked.parse(response.text || "Analysis unavailable.");
+        if (modalLeadId !== lead.id) return;
+        modalAnalysis = response.text;
+        aiContent.innerHTML = await renderMarkdown(response.text || "Analysis unavailable.");
+    } catch (e: any) {
+        if (modalLeadId !== lead.id) return;
+        aiContent.innerHTML = `<p class="msg-error">Deal analysis failed: ${escapeHtml(e?.message || e)}</p>`;
     }
-
-    leadModal.showModal();
 }
 
-if (closeModalBtn && leadModal) {
-    closeModalBtn.addEventListener('click', () => leadModal.close());
-    leadModal.addEventListener('click', (e) => {
-        const rect = leadModal.getBoundingClientRect();
-        if (e.clientX < rect.left || e.clientX > rect.right || 
-            e.clientY < rect.top || e.clientY > rect.bottom) {
-            leadModal.close();
-        }
+if (modalLeadOwner) {
+    modalLeadOwner.addEventListener('change', () => {
+        if (!modalLeadId) return;
+        const lead = leadStore.setOwner(modalLeadId, modalLeadOwner.value);
+        renderLeadHistory(lead);
+        renderLeadScore(lead);
+        renderPipeline();
     });
 }
 
+if (modalLeadNotes) {
+    modalLeadNotes.addEventListener('change', () => {
+        if (!modalLeadId) return;
+        const lead = leadStore.setNotes(modalLeadId, modalLeadNotes.value);
+        renderLeadHistory(lead);
+        renderLeadScore(lead);
+    });
+}
 
 /**
- * IDE: Code Generation & SecOps Scan
+ * CRM: Auto-Draft Email & Outbox
  */
-async function runIDELoop() {
-    setStatus(`Architecting: ${loopContext.feature}`, "busy");
-    if(secStatusText) {
-        secStatusText.textContent = "IDLE";
-        secStatusText.style.color = "#888";
-    }
-    
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const codePrompt = `Generate a Solidity Smart Contract (AssetToken.sol) for ${loopContext.feature}.
-    Context: Handling ${loopContext.userCount} fractional owners.
-    Include OpenZeppelin imports and comments.`;
-    
-    const codeResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: codePrompt,
-        config: { systemInstruction: SYSTEM_ARCHITECT_PROMPT }
-    });
+if (emailTemplateSelect) {
+    emailTemplateSelect.innerHTML = email.EMAIL_TEMPLATES.map(t => `<option value="${t.id}">${t.label}</option>`).join('');
+}
+const emailTransportLabel = document.getElementById('email-transport-label');
+if (emailTransportLabel) emailTransportLabel.textContent = `TRANSPORT: ${mailTransport.name.toUpperCase()}`;
+
+function outboxItemHtml(m: EmailMessage) {
+    return `
+        <li><span class="mail-status ${m.status}">${m.status.toUpperCase()}</span> ${escapeHtml(m.subject)}
+        <span class="history-actor">→ ${escapeHtml(m.to)}${m.error ? ` · ${escapeHtml(m.error)}` : ''}</span></li>
+    `;
+}
 
-    let code = codeResponse.text || "// Error generating code";
-    code = code.replace(/```[a-z]*\n/g, '').replace(/```/g, '');
-    
-    if (codeContent) {
-        codeContent.textContent = code;
-        hljs.highlightElement(codeContent);
-    }
-    
-    if (ideLogs) {
-        ideLogs.innerHTML += `<br/><span style="color:#00f0ff">>> Drafting Contract for ${loopContext.feature}...</span>`;
-        ideLogs.scrollTop = ideLogs.scrollHeight;
-    }
+function renderOutbox(leadId: string) {
+    const messages = email.listOutbox(leadId);
+    if (leadOutboxSection) leadOutboxSection.hidden = messages.length === 0;
+    if (!leadOutbox) return;
+    leadOutbox.innerHTML = messages.map(outboxItemHtml).join('');
+}
 
-    if (copilotChat) {
-        copilotChat.innerHTML += `
-            <div class="msg ai">I've implemented the base logic for ${loopContext.feature}. Initiating Security Audit...</div>
-        `;
-        copilotChat.scrollTop = copilotChat.scrollHeight;
+function readDraft(): EmailMessage | null {
+    if (!currentDraft) return null;
+    currentDraft = { ...currentDraft, to: emailTo.value.trim(), subject: emailSubject.value, body: emailBody.value };
+    return currentDraft;
+}
+
+document.getElementById('btn-email-lead')?.addEventListener('click', async () => {
+    const lead = modalLeadId ? leadStore.getLead(modalLeadId) : undefined;
+    if (!lead || !emailComposer) return;
+    const template = email.EMAIL_TEMPLATES.find(t => t.id === emailTemplateSelect.value) || email.EMAIL_TEMPLATES[0];
+
+    emailComposer.hidden = false;
+    emailSubject.value = '';
+    emailBody.value = 'Drafting from lead record and deal analysis...';
+    try {
+        currentDraft = await email.draftEmail(provider, lead, modalAnalysis, template, MAIL_FROM);
+        emailSubject.value = currentDraft.subject;
+        emailBody.value = currentDraft.body;
+    } catch (e: any) {
+        console.error("Email Draft Error", e);
+        emailBody.value = '';
+        setStatus(`Draft Failed: ${e.message}`, "error");
     }
+});
 
-    await new Promise(r => setTimeout(r, 800));
-    setStatus("Running SecOps Vulnerability Scan...", "busy");
-    if(secStatusText) {
-        secStatusText.textContent = "SCANNING...";
-        secStatusText.style.color = "#00f0ff";
+document.getElementById('btn-send-email')?.addEventListener('click', async () => {
+    const draft = readDraft();
+    if (!draft) return;
+    try {
+        const result = await email.dispatch(draft, mailTransport);
+        leadStore.logActivity(draft.leadId, 'email', `Email "${draft.subject}" ${result.status} via ${result.transport}`);
+        renderLeadHistory(leadStore.getLead(draft.leadId)!);
+        renderOutbox(draft.leadId);
+        currentDraft = null;
+        emailComposer!.hidden = true;
+        setStatus(`Email ${result.status}`, result.status === 'failed' ? 'error' : 'success');
+    } catch (e: any) {
+        setStatus(e.message, "error");
     }
+});
 
-    const auditPrompt = `Analyze the following Solidity code snippet for vulnerabilities (Reentrancy, Overflow, Access Control).
-    Code: ${code.substring(0, 500)}...
-    Return a brief status: "SECURE" or "WARNING: [Reason]"`;
+document.getElementById('btn-export-eml')?.addEventListener('click', () => {
+    const draft = readDraft();
+    if (!draft) return;
+    const blob = new Blob([email.toEml(draft)], { type: 'message/rfc822' });
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(blob);
+    a.download = `${draft.subject.replace(/[^\w-]+/g, '_').slice(0, 60) || 'draft'}.eml`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+});
 
-    const auditResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: auditPrompt
-    });
+document.getElementById('btn-flush-outbox')?.addEventListener('click', async () => {
+    const results = await email.flushOutbox(mailTransport);
+    if (modalLeadId) renderOutbox(modalLeadId);
+    const sent = results.filter(m => m.status === 'sent').length;
+    setStatus(`Outbox: ${sent}/${results.length} delivered`, sent === results.length ? 'success' : 'error');
+});
 
-    const auditResult = auditResponse.text || "Audit Complete";
-    
-    if (ideLogs) {
-        ideLogs.innerHTML += `<br/>>> SecOps: <span style="color:${auditResult.includes("WARNING") ? '#ffbd2e' : '#00ff9d'}">${auditResult}</span>`;
-        ideLogs.scrollTop = ideLogs.scrollHeight;
-    }
+/**
+ * CRM: Deploy Demo (sandbox tokenized asset)
+ */
+function sandboxHtml(asset: SandboxAsset) {
+    return `
+        <div><strong>SANDBOX ASSET</strong> ${escapeHtml(asset.name)} (${escapeHtml(asset.symbol)})</div>
+        <div>Address: ${escapeHtml(asset.address)}</div>
+        <div>Supply: ${asset.totalSupply.toLocaleString()} · Valuation: $${asset.valuationUsd.toLocaleString()}</div>
+        <div>Holder: ${escapeHtml(Object.keys(asset.holders).join(', '))} · Expires ${new Date(asset.expiresAt).toLocaleDateString()}</div>
+    `;
+}
 
-    if(secStatusText) {
-        secStatusText.textContent = auditResult.includes("WARNING") ? "WARNING" : "SECURE";
-        secStatusText.style.color = auditResult.includes("WARNING") ? "#ffbd2e" : "#00ff9d";
-    }
-    
-    await new Promise(r => setTimeout(r, 800));
-    setStatus("Build Complete", "idle");
+function renderSandbox(asset: SandboxAsset | undefined) {
+    if (!sandboxPanel) return;
+    sandboxPanel.hidden = !asset;
+    if (asset) sandboxPanel.innerHTML = sandboxHtml(asset);
 }
 
+document.getElementById('btn-deploy-demo')?.addEventListener('click', () => {
+    const lead = modalLeadId ? leadStore.getLead(modalLeadId) : undefined;
+    if (!lead) return;
+    const { asset, created } = provisionSandbox(lead);
+    if (created) {
+        leadStore.logActivity(lead.id, 'demo', `Sandbox ${asset.symbol} provisioned at ${asset.address}`);
+        renderLeadHistory(lead);
+    }
+    renderSandbox(asset);
+    setStatus(created ? `Demo Sandbox ${asset.symbol} Live` : `Demo Sandbox ${asset.symbol} Already Live`, "success");
+});
+
 /**
- * DEPLOY: Simulation with Audit Steps
+ * CRM: Investor position in the registry's assets
  */
-async function runDeploySimulation() {
-    setStatus("Pushing to Production...", "busy");
-    
-    const steps = document.querySelectorAll('#deploy-steps li');
-    const bar = document.getElementById('deploy-progress');
-    const nodes = document.querySelectorAll('.node');
-    
-    if (bar) bar.style.width = '0%';
-    steps.forEach(s => s.className = 'pending');
-    nodes.forEach(n => n.classList.remove('active'));
-
-    for (let i = 0; i < steps.length; i++) {
-        const step = steps[i];
-        step.className = 'active';
-        await new Promise(r => setTimeout(r, 800)); 
-        if (bar) bar.style.width = `${((i + 1) / steps.length) * 100}%`;
-        step.className = 'done';
-        if (i < nodes.length) nodes[i].classList.add('active');
+function renderInvestorPosition(lead: Lead) {
+    const active = assets.getActiveAsset();
+    if (investClass) {
+        investClass.innerHTML = (active?.shareClasses || [])
+            .map(c => `<option value="${escapeHtml(c.id)}">${escapeHtml(active!.name)} · ${escapeHtml(c.symbol)}</option>`).join('');
     }
-    
-    setStatus(`Deployed to ${loopContext.infrastructure}`, "success");
+    if (!leadPositions) return;
+    const holder = assets.listHolders().find(h => h.leadId === lead.id);
+    const rows = holder ? assets.listAssets().flatMap(asset => assets.capTable(asset.id)
+        .filter(r => r.holderId === holder.id)
+        .map(r => `<li>${r.units.toLocaleString()} ${escapeHtml(asset.shareClasses.find(c => c.id === r.classId)?.symbol)} in ${escapeHtml(asset.name)}
+            <span class="history-actor">— ${formatUsd(r.valueUsd)} · ${(r.classOwnership * 100).toFixed(2)}% of class</span></li>`)) : [];
+    const status = holder ? `<li>KYC ${holder.kycStatus} · ${holder.accredited ? 'accredited' : 'not accredited'} · ${escapeHtml(holder.jurisdiction)}</li>` : '';
+    leadPositions.innerHTML = status + (rows.join('') || '<li>No units held yet.</li>');
 }
 
+document.getElementById('btn-issue-units')?.addEventListener('click', () => {
+    const lead = modalLeadId ? leadStore.getLead(modalLeadId) : undefined;
+    const asset = assets.getActiveAsset();
+    if (!lead || !asset) return;
+    const holder = assets.findOrCreateHolder({ name: lead.company, kind: 'entity', jurisdiction: asset.jurisdiction, leadId: lead.id });
+    const record = assets.issue(asset.id, investClass.value, holder.id, Number(investUnits.value));
+    logEvent('issuance', record);
+    if (record.status === 'settled') {
+        const symbol = asset.shareClasses.find(c => c.id === record.classId)?.symbol;
+        leadStore.logActivity(lead.id, 'investment', `Issued ${record.units.toLocaleString()} ${symbol} of ${asset.name}`);
+        renderLeadHistory(lead);
+        investUnits.value = '';
+        setStatus(`Issued ${record.units.toLocaleString()} ${symbol} to ${lead.company}`, "success");
+    } else {
+        setStatus(`Issuance Rejected: ${record.violations.map(v => v.message).join(' ')}`, "error");
+    }
+    renderInvestorPosition(lead);
+});
+
 /**
- * MARKETING: SEO & Image Generation
+ * CRM: Scoring Weights Editor & Backtest
  */
-if(btnGenMarketing) {
-    btnGenMarketing.addEventListener('click', runMarketingAgent);
+function readScoringEditor(): ScoringWeights | null {
+    let next: ScoringWeights;
+    try {
+        next = JSON.parse(scoringEditor.value);
+    } catch (e: any) {
+        if (scoringErrors) scoringErrors.innerHTML = `<li>Invalid JSON: ${escapeHtml(e.message)}</li>`;
+        return null;
+    }
+    const errors = scoring.validateWeights(next);
+    if (scoringErrors) scoringErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+    return errors.length ? null : next;
 }
 
-async function runMarketingAgent() {
-    setStatus("Marketing Agent Active...", "busy");
-    const topic = marketingTopicInput ? marketingTopicInput.value : "Crypto Trends";
+function renderBacktest(weights: ScoringWeights) {
+    if (!scoringBacktest) return;
+    const result = scoring.backtest(leadStore.listLeads(), pipeline.getPipeline(), leadStore.DEFAULT_OWNER, weights);
+    if (!result) {
+        scoringBacktest.innerHTML = '<p>No won or lost leads in the pipeline yet — nothing to backtest.</p>';
+        return;
+    }
+    const pct = (x: number) => `${Math.round(x * 100)}%`;
+    scoringBacktest.innerHTML = `
+        <p>${result.rows.length} closed leads (${result.won} won / ${result.lost} lost) ·
+        accuracy ${pct(result.accuracy)} · Brier ${result.brier.toFixed(3)} ·
+        mean p(won) ${pct(result.meanPredictedWon)} vs p(lost) ${pct(result.meanPredictedLost)}</p>
+        <table>
+            <tr><th>Lead</th><th>Predicted</th><th>Actual</th></tr>
+            ${result.rows.map(r => `<tr><td>${escapeHtml(r.company)}</td><td>${pct(r.predicted)}</td><td>${r.actual ? 'WON' : 'LOST'}</td></tr>`).join('')}
+        </table>
+    `;
+}
 
-    if (seoContent) seoContent.innerHTML = '<span class="blink">Researching Search Trends...</span>';
-    if (imageResult) imageResult.innerHTML = '<span class="blink">Dreaming up visuals...</span>';
+document.getElementById('btn-edit-scoring')?.addEventListener('click', () => {
+    scoringEditor.value = JSON.stringify(scoring.getWeights(), null, 2);
+    if (scoringErrors) scoringErrors.innerHTML = '';
+    renderBacktest(scoring.getWeights());
+    scoringModal.showModal();
+});
 
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    const seoPrompt = `Research trending keywords related to "${topic}".
-    Write a short, punchy 100-word blog post snippet promoting the ADK Platform's new feature: ${loopContext.feature}.
-    Use the search results to add relevant hashtags.`;
+document.getElementById('btn-scoring-defaults')?.addEventListener('click', () => {
+    scoringEditor.value = JSON.stringify(scoring.DEFAULT_WEIGHTS, null, 2);
+});
 
-    const seoResponse = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: seoPrompt,
-        config: { tools: [{googleSearch: {}}] }
-    });
+document.getElementById('btn-run-backtest')?.addEventListener('click', () => {
+    const weights = readScoringEditor();
+    if (weights) renderBacktest(weights);
+});
 
-    if (seoContent) seoContent.innerHTML = await marked.parse(seoResponse.text || "Content generation failed.");
+document.getElementById('btn-save-scoring')?.addEventListener('click', () => {
+    const weights = readScoringEditor();
+    if (!weights) return;
+    scoring.saveWeights(weights);
+    renderBacktest(weights);
+    setStatus("Scoring Weights Saved", "success");
+});
 
-    const imagePrompt = `A futuristic, high-tech header image for a blog post about ${topic} and ${loopContext.feature}. 
-    Cyberpunk aesthetic, neon blue and purple, digital assets, blockchain nodes. High quality, 4k.`;
+document.getElementById('close-scoring-btn')?.addEventListener('click', () => scoringModal.close());
 
-    try {
-        const imageResponse = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: imagePrompt }] }
-        });
-        
-        let imgHtml = '';
-        if (imageResponse.candidates && imageResponse.candidates[0].content.parts) {
-            for (const part of imageResponse.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    const base64String = part.inlineData.data;
-                    imgHtml = `<img src="data:${part.inlineData.mimeType};base64,${base64String}" alt="Generated Marketing Asset" />`;
-                }
-            }
+if (closeModalBtn && leadModal) {
+    closeModalBtn.addEventListener('click', () => leadModal.close());
+    leadModal.addEventListener('click', (e) => {
+        const rect = leadModal.getBoundingClientRect();
+        if (e.clientX < rect.left || e.clientX > rect.right || 
+            e.clientY < rect.top || e.clientY > rect.bottom) {
+            leadModal.close();
         }
-        if (imageResult) imageResult.innerHTML = imgHtml || "<p>Generation simulation complete</p>";
-    } catch (e) {
-        console.error("Image Gen Error", e);
-        if (imageResult) imageResult.innerHTML = "<p style='color:red'>Generation Failed</p>";
-    }
+    });
+}
+
+
+const CONTRACT_FILE = 'AssetToken.sol';
+const AUDIT_FILE = 'security_audit.md';
+const MAX_FIX_ROUNDS = 2;
+
+const ORACLE_FILE = 'oracle_feed.py';
+const K8S_FILE = 'deploy_k8s.yaml';
+const FILE_ICONS: Record<string, string> = { solidity: 'Ξ', python: '🐍', yaml: '⚙', markdown: '🛡️' };
+
+let activePath = CONTRACT_FILE;
+let viewedVersionId: string | null = null;
+let contractDiagnostics: CompilerDiagnostic[] = [];
+
+function stripFences(text: string) {
+    return text.replace(/```[a-z]*\n/g, '').replace(/```/g, '');
+}
 
-    setStatus("Campaign Assets Ready", "idle");
+function appendIdeLog(html: string) {
+    if (!ideLogs) return;
+    ideLogs.innerHTML += `<br/>${html}`;
+    ideLogs.scrollTop = ideLogs.scrollHeight;
 }
 
 /**
- * NANO BANANA STUDIO
+ * IDE: Editor rendering with compiler diagnostics in the gutter
  */
-if (nanoModelSelect) {
-    nanoModelSelect.addEventListener('change', () => {
-        if (nanoSizeContainer) {
-            nanoSizeContainer.style.display = nanoModelSelect.value === 'gemini-3-pro-image-preview' ? 'flex' : 'none';
-        }
-    });
+function showCode(code: string, diagnostics: CompilerDiagnostic[] = []) {
+    contractDiagnostics = diagnostics;
+    activePath = CONTRACT_FILE;
+    viewedVersionId = null;
+    setEditing(false);
+    renderEditor(code, 'language-solidity', diagnostics);
+    renderIdeChrome();
 }
 
-if (nanoGenBtn) nanoGenBtn.addEventListener('click', () => runNanoStudioAction(false));
-if (nanoEditBtn) nanoEditBtn.addEventListener('click', () => runNanoStudioAction(true));
-
-async function runNanoStudioAction(isEdit: boolean) {
-    const prompt = nanoPrompt.value || "A vibrant cyberpunk banana floating in deep space";
-    const model = nanoModelSelect.value;
-    const size = nanoSizeSelect.value;
-    const aspect = nanoAspectSelect.value;
-
-    setStatus("Nano Studio Baking...", "busy");
-    if (nanoStatusMsg) nanoStatusMsg.textContent = isEdit ? "RE-IMAGINING VISION..." : "BAKING INITIAL VISION...";
-    
-    if (nanoCanvas && !isEdit) {
-        nanoCanvas.innerHTML = '<div class="nano-placeholder"><div class="banana-icon-large blink">🍌</div><p>PROCESSING PHOTONS...</p></div>';
+function renderEditor(code: string, languageClass: string, diagnostics: CompilerDiagnostic[] = []) {
+    if (diffReview) diffReview.hidden = true;
+    if (codeContent) {
+        codeContent.parentElement!.hidden = false;
+        codeContent.textContent = code;
+        codeContent.className = languageClass;
+        delete codeContent.dataset.highlighted;
+        hljs.highlightElement(codeContent);
     }
+    if (!lineNumbers) return;
 
-    // Check for API Key if Pro model
-    if (model === 'gemini-3-pro-image-preview') {
-        const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-        if (!hasKey) {
-            await (window as any).aistudio.openSelectKey();
-            // Proceed assuming success as per guidelines
-        }
+    lineNumbers.hidden = false;
+    const marks = new Map<number, CompilerDiagnostic>();
+    for (const d of diagnostics) {
+        if (d.file !== CONTRACT_FILE || !d.line) continue;
+        if (!marks.has(d.line) || d.severity === 'error') marks.set(d.line, d);
     }
+    lineNumbers.innerHTML = code.split('\n').map((_, i) => {
+        const d = marks.get(i + 1);
+        return d
+            ? `<span class="ln ${d.severity}" title="${d.severity}: ${escapeHtml(d.message)}">${i + 1}</span>`
+            : `<span class="ln">${i + 1}</span>`;
+    }).join('');
+}
 
-    const ai = new GoogleGenAI({ apiKey: API_KEY });
-    
-    let parts: any[] = [{ text: prompt }];
-    if (isEdit && lastGeneratedImageData) {
-        parts.unshift({
-            inlineData: {
-                data: lastGeneratedImageData.data,
-                mimeType: lastGeneratedImageData.mimeType
-            }
+/**
+ * IDE: Project explorer, tabs and version picker
+ */
+function renderIdeChrome() {
+    if (fileList) {
+        fileList.innerHTML = workspace.listFiles().map(f => `
+            <div class="file-item${f.path === activePath ? ' active' : ''}${f.versions.length ? '' : ' empty'}" data-path="${f.path}" title="${f.versions.length} version(s)">
+                <span class="icon">${FILE_ICONS[f.language] || '📄'}</span> ${f.path}${f.pending ? ' <span class="pending-dot" title="Changes awaiting review">●</span>' : ''}
+            </div>`).join('');
+        fileList.querySelectorAll<HTMLElement>('.file-item').forEach(el => {
+            el.addEventListener('click', () => openIdeFile(el.dataset.path!));
+        });
+    }
+    if (tabFile) {
+        tabFile.textContent = activePath;
+        tabFile.classList.toggle('active', activePath !== AUDIT_FILE);
+    }
+    document.getElementById('tab-secops')?.classList.toggle('active', activePath === AUDIT_FILE);
+
+    const file = workspace.getFile(activePath);
+    if (versionSelect && file) {
+        versionSelect.innerHTML = file.versions.length
+            ? [...file.versions].reverse().map((v, i) => `<option value="${i === 0 ? '' : v.id}"${(viewedVersionId || '') === (i === 0 ? '' : v.id) ? ' selected' : ''}>v${file.versions.length - i} · ${v.origin} · ${new Date(v.at).toLocaleString()}${i === 0 ? ' (current)' : ''}</option>`).join('')
+            : '<option value="">no versions</option>';
+        versionSelect.disabled = file.versions.length < 2;
+    }
+    if (btnRestoreVersion) btnRestoreVersion.hidden = !viewedVersionId;
+    if (btnEditFile) btnEditFile.disabled = !!viewedVersionId || !!file?.pending;
+}
+
+function openIdeFile(path: string) {
+    activePath = path;
+    viewedVersionId = null;
+    setEditing(false);
+    renderActiveFile();
+    renderCopilotSelection();
+}
+
+function renderActiveFile() {
+    const file = workspace.getFile(activePath);
+    if (!file) return;
+    if (file.pending && !viewedVersionId) {
+        renderDiffReview();
+    } else {
+        const version = viewedVersionId ? file.versions.find(v => v.id === viewedVersionId) : file.versions[file.versions.length - 1];
+        const placeholder = file.path === CONTRACT_FILE ? '// GENERATING SMART CONTRACT...' : `# ${file.path} has not been generated yet. Run ADK Studio.`;
+        renderEditor(version?.content ?? placeholder, `language-${file.language}`, file.path === CONTRACT_FILE && !viewedVersionId ? contractDiagnostics : []);
+    }
+    renderIdeChrome();
+}
+
+function setEditing(on: boolean) {
+    if (fileEditorInput) fileEditorInput.hidden = !on;
+    if (codeContent) codeContent.parentElement!.hidden = on;
+    if (lineNumbers) lineNumbers.hidden = on;
+    if (btnEditFile) btnEditFile.hidden = on;
+    if (btnSaveFile) btnSaveFile.hidden = !on;
+    if (btnCancelEdit) btnCancelEdit.hidden = !on;
+    if (versionSelect) versionSelect.hidden = on;
+}
+
+/**
+ * IDE: Per-hunk review of generated changes
+ */
+function diffRows(prefix: string, cls: string, list: string[]) {
+    return list.map(l => `<div class="diff-line ${cls}">${prefix} ${escapeHtml(l)}</div>`).join('');
+}
+
+function renderDiffReview() {
+    if (!diffReview) return;
+    const file = workspace.getFile(activePath)!;
+    const hunks = workspace.pendingHunks(activePath);
+
+    if (codeContent) codeContent.parentElement!.hidden = true;
+    if (lineNumbers) lineNumbers.hidden = true;
+    diffReview.hidden = false;
+    diffReview.innerHTML = `
+        <div class="diff-header">
+            <span>${file.path}: ${hunks.length} change(s) from ${file.pending!.origin === 'copilot' ? 'ADK Copilot' : `"${escapeHtml(file.pending!.feature)}"`}</span>
+            <span>
+                <button class="cyber-btn-small secondary" data-diff="none">REJECT ALL</button>
+                <button class="cyber-btn-small secondary" data-diff="all">ACCEPT ALL</button>
+                <button class="cyber-btn-small" data-diff="apply">APPLY SELECTED</button>
+            </span>
+        </div>
+        ${hunks.map(h => `
+            <div class="diff-hunk">
+                <label class="diff-hunk-header"><input type="checkbox" data-hunk="${h.id}" checked> @@ -${h.oldStart + 1},${h.removed.length} +${h.newStart + 1},${h.added.length} @@</label>
+                ${diffRows(' ', 'ctx', h.before)}${diffRows('-', 'del', h.removed)}${diffRows('+', 'add', h.added)}${diffRows(' ', 'ctx', h.after)}
+            </div>`).join('')}
+    `;
+
+    const boxes = () => Array.from(diffReview.querySelectorAll<HTMLInputElement>('input[data-hunk]'));
+    diffReview.querySelector('[data-diff="all"]')?.addEventListener('click', () => boxes().forEach(b => b.checked = true));
+    diffReview.querySelector('[data-diff="none"]')?.addEventListener('click', () => boxes().forEach(b => b.checked = false));
+    diffReview.querySelector('[data-diff="apply"]')?.addEventListener('click', async () => {
+        const accepted = new Set(boxes().filter(b => b.checked).map(b => Number(b.dataset.hunk)));
+        const path = activePath;
+        const merged = workspace.resolvePending(path, accepted);
+        appendIdeLog(`>> ${path}: applied ${accepted.size}/${hunks.length} change(s)`);
+        renderActiveFile();
+        if (path === CONTRACT_FILE) await rebuildIfChanged(merged);
+    });
+}
+
+document.getElementById('tab-secops')?.addEventListener('click', () => openIdeFile(AUDIT_FILE));
+tabFile?.addEventListener('click', () => { if (activePath === AUDIT_FILE) openIdeFile(CONTRACT_FILE); });
+
+versionSelect?.addEventListener('change', () => {
+    viewedVersionId = versionSelect.value || null;
+    renderActiveFile();
+});
+
+btnRestoreVersion?.addEventListener('click', async () => {
+    if (!viewedVersionId) return;
+    const content = workspace.restoreVersion(activePath, viewedVersionId, loopContext.feature);
+    appendIdeLog(`>> ${activePath}: restored an earlier version`);
+    const path = activePath;
+    openIdeFile(path);
+    if (path === CONTRACT_FILE) await rebuildIfChanged(content);
+});
+
+btnEditFile?.addEventListener('click', () => {
+    if (!fileEditorInput) return;
+    fileEditorInput.value = workspace.currentContent(activePath);
+    setEditing(true);
+    if (diffReview) diffReview.hidden = true;
+    fileEditorInput.focus();
+});
+
+btnCancelEdit?.addEventListener('click', () => openIdeFile(activePath));
+
+btnSaveFile?.addEventListener('click', async () => {
+    if (!fileEditorInput) return;
+    const path = activePath;
+    const content = fileEditorInput.value;
+    const changed = workspace.saveEdit(path, content, loopContext.feature);
+    openIdeFile(path);
+    if (changed) appendIdeLog(`>> ${path}: saved edit`);
+    if (changed && path === CONTRACT_FILE) await rebuildIfChanged(content);
+});
+
+fileEditorInput?.addEventListener('keydown', e => {
+    if (e.key === 'Tab') {
+        e.preventDefault();
+        fileEditorInput.setRangeText('    ', fileEditorInput.selectionStart, fileEditorInput.selectionEnd, 'end');
+    }
+});
+
+btnExportProject?.addEventListener('click', () => {
+    const url = URL.createObjectURL(workspace.exportProject());
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `adk-project-${new Date().toISOString().slice(0, 10)}.zip`;
+    a.click();
+    URL.revokeObjectURL(url);
+});
+
+/**
+ * IDE: ADK Copilot chat about the open file, with changes offered for review
+ */
+/** Lines selected in the open file; kept while the developer types in the chat. */
+let copilotSelection: CopilotSelection | null = null;
+let copilotBusy = false;
+
+function selectedLines(path: string, text: string, start: number, end: number): CopilotSelection | null {
+    const selected = text.slice(start, end);
+    if (!selected.trim()) return null;
+    const startLine = text.slice(0, start).split('\n').length;
+    return { path, startLine, endLine: startLine + selected.replace(/\n$/, '').split('\n').length - 1, text: selected };
+}
+
+document.addEventListener('selectionchange', () => {
+    if (viewedVersionId || workspace.getFile(activePath)?.pending) return;
+    if (document.activeElement === fileEditorInput && !fileEditorInput.hidden) {
+        copilotSelection = selectedLines(activePath, fileEditorInput.value, fileEditorInput.selectionStart, fileEditorInput.selectionEnd);
+    } else {
+        const selection = window.getSelection();
+        if (!codeContent || !selection?.rangeCount) return;
+        const range = selection.getRangeAt(0);
+        // Selecting anywhere else, such as the chat input, keeps the last code selection.
+        if (!codeContent.contains(range.commonAncestorContainer)) return;
+        const before = document.createRange();
+        before.selectNodeContents(codeContent);
+        before.setEnd(range.startContainer, range.startOffset);
+        const start = before.toString().length;
+        copilotSelection = selectedLines(activePath, codeContent.textContent || '', start, start + range.toString().length);
+    }
+    renderCopilotSelection();
+});
+
+function renderCopilotSelection() {
+    if (!copilotSelectionChip) return;
+    const selection = copilotSelection?.path === activePath ? copilotSelection : null;
+    copilotSelectionChip.hidden = !selection;
+    if (selection) copilotSelectionChip.innerHTML = `${escapeHtml(selection.path)} L${selection.startLine}${selection.endLine > selection.startLine ? `-${selection.endLine}` : ''} <button class="chip-clear" title="Ask about the whole file">×</button>`;
+}
+
+copilotSelectionChip?.addEventListener('click', e => {
+    if (!(e.target as HTMLElement).closest('.chip-clear')) return;
+    copilotSelection = null;
+    renderCopilotSelection();
+});
+
+function copilotContext(): copilot.CopilotContext {
+    const file = workspace.getFile(activePath)!;
+    const latest = getLatestBuild(false);
+    const findings = getLatestBuild()?.audit?.findings || [];
+    return {
+        files: workspace.listFiles().map(f => f.path),
+        path: file.path,
+        language: file.language,
+        content: workspace.currentContent(file.path),
+        selection: copilotSelection?.path === file.path ? copilotSelection : undefined,
+        diagnostics: latest?.diagnostics.length ? formatDiagnostics(latest.diagnostics) : undefined,
+        audit: findings.map(f => `[${f.severity.toUpperCase()}] ${f.ruleId} L${f.line} ${f.contract}${f.function ? `.${f.function}` : ''}: ${f.title}. ${f.recommendation}`).join('\n') || undefined
+    };
+}
+
+async function copilotMessageHtml(message: CopilotMessage) {
+    if (message.role === 'user') {
+        const where = message.path ? `<div class="msg-context">${escapeHtml(message.path)}${message.selection ? ` L${message.selection.startLine}-${message.selection.endLine}` : ''}</div>` : '';
+        return `<div class="msg user">${where}${escapeHtml(message.text)}</div>`;
+    }
+    const files = workspace.listFiles().map(f => f.path);
+    const proposals = copilot.proposalsIn(message, files).map(p => `<button class="cyber-btn-small" data-copilot-review="${message.id}" data-path="${escapeHtml(p.path)}">REVIEW CHANGES TO ${escapeHtml(p.path)}</button>`).join('');
+    return `<div class="msg ai${message.error ? ' error' : ''}">
+        ${await renderMarkdown(message.text || '…')}
+        ${message.error ? `<div class="msg-error">${escapeHtml(message.error)}</div>` : ''}
+        ${proposals ? `<div class="msg-actions">${proposals}</div>` : ''}
+    </div>`;
+}
+
+async function renderCopilot() {
+    if (!copilotChat) return;
+    const messages = copilot.listMessages();
+    copilotChat.innerHTML = messages.length
+        ? (await Promise.all(messages.map(copilotMessageHtml))).join('')
+        : '<div class="msg ai">Ask about the open file, the latest build or its SecOps findings, or ask for a change. Select lines in the editor to ask about them.</div>';
+    copilotChat.scrollTop = copilotChat.scrollHeight;
+}
+
+async function sendCopilotMessage() {
+    const question = copilotInput?.value.trim();
+    if (!question || copilotBusy || !copilotChat) return;
+    copilotBusy = true;
+    btnCopilotSend.disabled = true;
+    copilotInput.value = '';
+    const context = copilotContext();
+    copilotChat.innerHTML += await copilotMessageHtml({ id: '', at: '', role: 'user', text: question, path: context.path, selection: context.selection });
+    copilotChat.insertAdjacentHTML('beforeend', '<div class="msg ai streaming">…</div>');
+    const bubble = copilotChat.lastElementChild as HTMLElement;
+    copilotChat.scrollTop = copilotChat.scrollHeight;
+    setStatus("Copilot Thinking...", "busy");
+    try {
+        await copilot.ask(provider, question, context, systemArchitectPrompt(), async text => {
+            bubble.innerHTML = await renderMarkdown(text);
+            copilotChat.scrollTop = copilotChat.scrollHeight;
+        });
+        setStatus("Copilot Replied", "idle");
+    } catch (e: any) {
+        setStatus(`Copilot Failed: ${e.message}`, "error");
+    } finally {
+        copilotBusy = false;
+        btnCopilotSend.disabled = false;
+        await renderCopilot();
+    }
+}
+
+btnCopilotSend?.addEventListener('click', () => void sendCopilotMessage());
+
+copilotInput?.addEventListener('keydown', e => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        void sendCopilotMessage();
+    }
+});
+
+document.getElementById('btn-copilot-clear')?.addEventListener('click', async () => {
+    if (copilotBusy || !confirm('Clear the Copilot conversation?')) return;
+    copilot.clearConversation();
+    await renderCopilot();
+});
+
+copilotChat?.addEventListener('click', e => {
+    const button = (e.target as HTMLElement).closest<HTMLElement>('[data-copilot-review]');
+    if (!button) return;
+    const message = copilot.listMessages().find(m => m.id === button.dataset.copilotReview);
+    const proposal = message && copilot.proposalsIn(message, workspace.listFiles().map(f => f.path)).find(p => p.path === button.dataset.path);
+    if (!proposal) return;
+    // Keep the file's trailing newline, which the fenced block cannot carry.
+    const current = workspace.currentContent(proposal.path);
+    const content = current.endsWith('\n') ? `${proposal.content}\n` : proposal.content;
+    if (workspace.proposeCopilotChange(proposal.path, content, loopContext.feature) === 'unchanged') {
+        setStatus(`${proposal.path} Already Matches The Suggestion`, "idle");
+        return;
+    }
+    appendIdeLog(`>> ${proposal.path}: <span style="color:#ffbd2e">${workspace.pendingHunks(proposal.path).length} Copilot change(s) awaiting review</span>`);
+    openIdeFile(proposal.path);
+});
+
+void renderCopilot();
+
+/**
+ * IDE: Compile with solc, feeding errors back to the model until it builds
+ */
+/** Project Solidity files the contract may import, e.g. the compliance hooks. */
+function localSources(): Record<string, string> {
+    const hooks = workspace.currentContent(compliance.HOOKS_FILE);
+    return hooks ? { [compliance.HOOKS_FILE]: hooks } : {};
+}
+
+function diagnosticLogHtml(d: CompilerDiagnostic) {
+    return `<span style="color:${d.severity === 'error' ? '#ff5f56' : '#ffbd2e'}">&nbsp;&nbsp;${escapeHtml(d.file)}${d.line ? `:${d.line}:${d.column}` : ''} ${escapeHtml(d.message)}</span>`;
+}
+
+/** `refs` are the templates behind `source`; fix rounds add theirs. */
+async function compileWithFixes(source: string, refs: PromptRef[]): Promise<{ build: BuildRecord, ast: any }> {
+    let code = source;
+    for (let round = 0; ; round++) {
+        setStatus(round ? `Recompiling (Fix Round ${round})...` : `Compiling ${CONTRACT_FILE}...`, "busy");
+        const result = await compileSolidity(CONTRACT_FILE, code, localSources());
+        showCode(code, result.diagnostics);
+
+        const errors = result.diagnostics.filter(d => d.severity === 'error');
+        const warnings = result.diagnostics.filter(d => d.severity === 'warning');
+        appendIdeLog(`>> solc ${result.compilerVersion.split('+')[0]}: <span style="color:${errors.length ? '#ff5f56' : '#00ff9d'}">${errors.length} error(s)</span>, ${warnings.length} warning(s)`);
+        result.diagnostics.filter(d => d.file === CONTRACT_FILE || d.severity === 'error').forEach(d => {
+            appendIdeLog(diagnosticLogHtml(d));
+        });
+
+        if (result.ok || round >= MAX_FIX_ROUNDS) {
+            const build = await recordBuild(loopContext.feature, code, result, round, refs);
+            logEvent('build', { buildId: build.id, ok: build.ok, fixRounds: round, compilerVersion: build.compilerVersion, diagnostics: build.diagnostics, source: build.source });
+            if (build.ok) appendIdeLog(`>> Build ${build.id}: ${escapeHtml(build.artifacts.map(a => a.contractName).join(', '))} (${Math.round(build.artifacts.reduce((n, a) => n + a.bytecode.length / 2, 0) / 1024)} KB bytecode)`);
+            return { build, ast: result.ast };
+        }
+
+        appendIdeLog(`<span style="color:#00f0ff">>> Asking model to fix ${errors.length} compile error(s)...</span>`);
+        const system = systemArchitectPrompt();
+        const fixPrompt = prompts.renderPrompt('ide.compile-fix', {
+            file: CONTRACT_FILE,
+            compilerVersion: result.compilerVersion.split('+')[0],
+            errors: formatDiagnostics(errors),
+            code
+        });
+        const fixResponse = await provider.generate({
+            model: 'gemini-2.5-flash',
+            contents: fixPrompt.text,
+            config: { systemInstruction: system.text },
+            prompts: [fixPrompt.ref, system.ref]
+        });
+        if (!refs.some(r => r.id === fixPrompt.ref.id)) refs = [...refs, fixPrompt.ref];
+        code = stripFences(fixResponse.text) || code;
+    }
+}
+
+/**
+ * IDE: SecOps findings in the output pane and status badge
+ */
+function findingLogHtml(f: SecurityFinding) {
+    const colors = { high: '#ff5f56', medium: '#ffbd2e', low: '#888' };
+    return `<span style="color:${colors[f.severity]}">&nbsp;&nbsp;[${f.severity.toUpperCase()}] ${escapeHtml(f.ruleId)} L${f.line} ${escapeHtml(f.contract)}.${escapeHtml(f.function)}: ${escapeHtml(f.title)}</span>`;
+}
+
+function renderAuditSummary(audit: AuditReport) {
+    appendIdeLog(`>> SecOps (${audit.analyzer}): <span style="color:${audit.passed ? '#00ff9d' : '#ff5f56'}">${audit.passed ? 'PASS' : 'FAIL'}</span> — ${audit.counts.high} high, ${audit.counts.medium} medium, ${audit.counts.low} low. See ${AUDIT_FILE}.`);
+    audit.findings.forEach(f => {
+        appendIdeLog(findingLogHtml(f));
+    });
+
+    if (secStatusText) {
+        const label = !audit.passed ? 'HIGH RISK' : audit.counts.medium ? 'WARNING' : 'SECURE';
+        secStatusText.textContent = label;
+        secStatusText.style.color = !audit.passed ? '#ff5f56' : audit.counts.medium ? '#ffbd2e' : '#00ff9d';
+    }
+}
+
+/**
+ * IDE: SecOps scan of a build; the report is written to the project
+ */
+function scanBuild(build: BuildRecord, ast: any): AuditReport {
+    const audit = analyzeContract(ast, build.source);
+    attachAudit(build.id, audit);
+    logEvent('audit', { buildId: build.id, ...audit });
+    // Derived output: always reflects the latest build, so no review step.
+    workspace.proposeChange(AUDIT_FILE, auditToMarkdown(audit, CONTRACT_FILE, build.id), build.feature, false);
+    renderAuditSummary(audit);
+    renderIdeChrome();
+    return audit;
+}
+
+/**
+ * IDE: Manual edits and reviewed changes to the contract are rebuilt and
+ * rescanned, so the latest build always matches the accepted source.
+ */
+async function rebuildIfChanged(source: string) {
+    if (getLatestBuild(false)?.source === source) return;
+    setStatus(`Compiling ${CONTRACT_FILE}...`, "busy");
+    const result = await compileSolidity(CONTRACT_FILE, source, localSources());
+    contractDiagnostics = result.diagnostics;
+    const build = await recordBuild(loopContext.feature, source, result, 0);
+    logEvent('build', { buildId: build.id, ok: build.ok, fixRounds: 0, compilerVersion: build.compilerVersion, diagnostics: build.diagnostics, source: build.source });
+    appendIdeLog(`>> Rebuilt ${CONTRACT_FILE}: ${build.ok ? `<span style="color:#00ff9d">${build.id}</span>` : `<span style="color:#ff5f56">${result.diagnostics.filter(d => d.severity === 'error').length} error(s)</span>`}`);
+    if (activePath === CONTRACT_FILE) renderActiveFile();
+    if (!build.ok) {
+        setStatus(`${CONTRACT_FILE} Does Not Compile`, "error");
+        return;
+    }
+    const audit = scanBuild(build, result.ast);
+    if (audit.passed) setStatus("Build Complete", "idle");
+    else setStatus(`Build Complete. Deploy Blocked: ${audit.counts.high} High-Severity Finding(s)`, "error");
+}
+
+/**
+ * IDE: Supporting project files for the current feature phase
+ */
+async function generateSupportingFiles(contract: string) {
+    setStatus("Generating Oracle & Deployment Manifests...", "busy");
+    const system = systemArchitectPrompt();
+    const prompt = prompts.renderPrompt('ide.supporting-files', {
+        feature: loopContext.feature,
+        userCount: loopContext.userCount,
+        contractFile: CONTRACT_FILE,
+        contract,
+        oracleFile: ORACLE_FILE,
+        oracle: workspace.currentContent(ORACLE_FILE),
+        manifestFile: K8S_FILE,
+        manifest: workspace.currentContent(K8S_FILE)
+    });
+    const result = await generateStructured<{ oracleFeed: string, deployManifest: string }>(provider, {
+        model: 'gemini-2.5-flash',
+        contents: prompt.text,
+        config: { systemInstruction: system.text },
+        prompts: [prompt.ref, system.ref]
+    }, supportingFilesSchema);
+
+    for (const [path, content] of [[ORACLE_FILE, result.data.oracleFeed], [K8S_FILE, result.data.deployManifest]]) {
+        logProposal(path, workspace.proposeChange(path, stripFences(content), loopContext.feature));
+    }
+}
+
+function logProposal(path: string, outcome: 'applied' | 'pending' | 'unchanged') {
+    const text = outcome === 'pending'
+        ? `<span style="color:#ffbd2e">${workspace.pendingHunks(path).length} change(s) awaiting review</span>`
+        : outcome === 'applied' ? 'written' : 'unchanged';
+    appendIdeLog(`>> ${path}: ${text}`);
+    renderIdeChrome();
+}
+
+/**
+ * IDE: Code Generation & SecOps Scan
+ */
+async function runIDELoop() {
+    setStatus(`Architecting: ${loopContext.feature}`, "busy");
+    if(secStatusText) {
+        secStatusText.textContent = "IDLE";
+        secStatusText.style.color = "#888";
+    }
+    
+    const previous = workspace.currentContent(CONTRACT_FILE);
+    // Drafting the contract is where work on a phase begins.
+    const phase = roadmap.startPhase();
+    const asset = assets.getActiveAsset();
+    if (asset) {
+        logProposal(compliance.HOOKS_FILE, workspace.proposeChange(compliance.HOOKS_FILE, compliance.compileTransferHooks(asset), loopContext.feature, false));
+    }
+    const system = systemArchitectPrompt();
+    const codePrompt = prompts.renderPrompt('ide.contract', {
+        feature: loopContext.feature,
+        userCount: loopContext.userCount,
+        hooksFile: compliance.HOOKS_FILE,
+        asset: asset ? assets.describeAsset(asset) : undefined,
+        phaseGoal: phase?.description,
+        acceptance: phase?.acceptance.map(describeCondition).join('; '),
+        unmet: phase?.lastEvaluation?.unmet.join('; '),
+        previous
+    });
+    
+    const codeResponse = await provider.generate({
+        model: 'gemini-2.5-flash',
+        contents: codePrompt.text,
+        config: { systemInstruction: system.text },
+        prompts: [codePrompt.ref, system.ref]
+    });
+
+    let code = stripFences(codeResponse.text || "// Error generating code");
+    showCode(code);
+    
+    appendIdeLog(`<span style="color:#00f0ff">>> Drafting Contract for ${escapeHtml(loopContext.feature)}...</span>`);
+
+    const { build, ast } = await compileWithFixes(code, [codePrompt.ref, system.ref]);
+    code = build.source;
+    if (!build.ok) {
+        throw new Error(`${CONTRACT_FILE} still fails to compile after ${build.fixRounds} fix round(s)`);
+    }
+
+    await new Promise(r => setTimeout(r, 800));
+    setStatus("Running SecOps Vulnerability Scan...", "busy");
+    if(secStatusText) {
+        secStatusText.textContent = "SCANNING...";
+        secStatusText.style.color = "#00f0ff";
+    }
+
+    const audit = scanBuild(build, ast);
+    const complianceHooks = inheritsComplianceHooks(ast);
+    appendIdeLog(complianceHooks
+        ? `>> Compliance: transfer hooks from ${compliance.HOOKS_FILE} are enforced`
+        : `<span style="color:#ffbd2e">>> Compliance: contract does not inherit ComplianceHooks; transfers are unrestricted on-chain</span>`);
+    logProposal(CONTRACT_FILE, workspace.proposeChange(CONTRACT_FILE, code, loopContext.feature));
+    renderActiveFile();
+
+    await generateSupportingFiles(code);
+
+    if (audit.passed) setStatus("Build Complete", "idle");
+    else setStatus(`Build Complete. Deploy Blocked: ${audit.counts.high} High-Severity Finding(s)`, "error");
+    return {
+        buildId: build.id,
+        compiled: build.ok,
+        audit: audit.counts,
+        complianceHooks,
+        pendingReview: pendingReviewPaths()
+    };
+}
+
+function pendingReviewPaths(): string[] {
+    return workspace.listFiles().filter(f => f.pending).map(f => f.path);
+}
+
+function inheritsComplianceHooks(ast: any): boolean {
+    return (ast?.nodes || []).some((node: any) => node.nodeType === 'ContractDefinition' && !node.abstract &&
+        node.baseContracts?.some((base: any) => base.baseName?.name === 'ComplianceHooks'));
+}
+
+/**
+ * DEPLOY: Build -> SecOps gate -> RPC -> transaction -> receipt -> code check.
+ * Each step's state comes from the chain; the first failure halts the run.
+ */
+async function runDeployment() {
+    const target = chain.getDeployTarget();
+    setStatus(`Deploying to ${target.network}...`, "busy");
+
+    const steps = Array.from(document.querySelectorAll<HTMLElement>('#deploy-steps li'));
+    const bar = document.getElementById('deploy-progress');
+    const nodes = document.querySelectorAll('.node');
+
+    if (bar) bar.style.width = '0%';
+    steps.forEach(s => { s.className = 'pending'; s.textContent = s.dataset.label || s.textContent; });
+    nodes.forEach(n => n.classList.remove('active'));
+    if (deployDetails) deployDetails.innerHTML = '';
+
+    let build: BuildRecord | undefined;
+    let artifact: ContractArtifact | undefined;
+    let info: chain.ChainInfo | undefined;
+    let txHash = '';
+    let receipt: chain.TxReceipt | undefined;
+    const asset = assets.getActiveAsset();
+
+    const runners: (() => Promise<string>)[] = [
+        async () => {
+            // Only accepted source ships: nothing awaiting review, and the newest build is of exactly that source.
+            const pending = pendingReviewPaths();
+            if (pending.length) throw new Error(`Changes awaiting review in ${pending.join(', ')}. Accept or reject them in ADK Studio first`);
+            build = getLatestBuild(false);
+            if (!build) throw new Error('No compiled AssetToken artifact to deploy. Run ADK Studio first');
+            if (!build.ok) throw new Error(`Latest build ${build.id} does not compile`);
+            if (build.source !== workspace.currentContent(CONTRACT_FILE)) throw new Error(`Latest build ${build.id} is not of the accepted ${CONTRACT_FILE}. Rebuild it in ADK Studio`);
+            artifact = chain.selectArtifact(build);
+            if (!artifact) throw new Error(`Build ${build.id} has no deployable contract`);
+            return `${artifact.contractName} from ${build.id}, solc ${build.compilerVersion.split('+')[0]}`;
+        },
+        async () => {
+            const audit = build!.audit;
+            if (!audit) throw new Error('SecOps gate: latest build has not been scanned');
+            if (!audit.passed) throw new Error(`SecOps gate: ${audit.counts.high} high-severity finding(s) in ${AUDIT_FILE}`);
+            return `${audit.findings.length} finding(s), 0 high`;
+        },
+        async () => {
+            info = await chain.connect(target);
+            if (info.balanceWei === 0n) throw new Error(`Deployer ${info.account} has no balance on chain ${info.chainId}`);
+            return `chain ${info.chainId} @ block ${info.blockNumber}, from ${shortHex(info.account)}`;
+        },
+        async () => {
+            const ctor = chain.encodeConstructorArgs(artifact!, info!.account, asset ? constructorHints(asset) : {});
+            const sent = await chain.submitDeployment(target, info!.account, `0x${artifact!.bytecode}${ctor.data}`);
+            txHash = sent.txHash;
+            return `tx ${shortHex(txHash)}, est. ${sent.gasEstimate.toLocaleString()} gas`;
+        },
+        async () => {
+            receipt = await chain.waitForReceipt(target, txHash);
+            return `block ${receipt.blockNumber}, ${receipt.gasUsed.toLocaleString()} gas used`;
+        },
+        async () => {
+            const size = await chain.verifyCode(target, receipt!.contractAddress, artifact!);
+            return `${size.toLocaleString()} bytes at ${shortHex(receipt!.contractAddress)}`;
+        }
+    ];
+
+    for (let i = 0; i < steps.length; i++) {
+        const step = steps[i];
+        const label = step.dataset.label || '';
+        step.className = 'active';
+        try {
+            const detail = await runners[i]();
+            step.textContent = `${label} (${detail})`;
+        } catch (e: any) {
+            step.className = 'failed';
+            step.textContent = `${label}: ${e.message}`;
+            if (build && i >= 2) {
+                const failed = chain.recordDeployment({
+                    buildId: build.id, contractName: artifact?.contractName || '', network: target.network, rpcUrl: target.rpcUrl,
+                    chainId: info?.chainId, from: info?.account, txHash: txHash || undefined, status: 'failed', error: e.message
+                });
+                logEvent('deployment', failed);
+                renderDeployments();
+            }
+            throw e;
+        }
+        if (bar) bar.style.width = `${((i + 1) / steps.length) * 100}%`;
+        step.className = 'done';
+        // Nodes light up as the transaction travels: RPC, mempool, block.
+        if (i >= 2 && i - 2 < nodes.length) nodes[i - 2].classList.add('active');
+    }
+
+    const deployment = chain.recordDeployment({
+        buildId: build!.id, contractName: artifact!.contractName, network: target.network, rpcUrl: target.rpcUrl,
+        chainId: info!.chainId, from: info!.account, txHash, contractAddress: receipt!.contractAddress,
+        gasUsed: receipt!.gasUsed, blockNumber: receipt!.blockNumber, status: 'success'
+    });
+    renderDeployments();
+    logEvent('deployment', deployment);
+    if (asset) assets.recordDeployment(asset.id, { deploymentId: deployment.id, contractAddress: receipt!.contractAddress, chainId: info!.chainId });
+    setStatus(`Deployed ${artifact!.contractName} to ${target.network} at ${receipt!.contractAddress}`, "success");
+    return { deploymentId: deployment.id, contractAddress: receipt!.contractAddress, chainId: info!.chainId, gasUsed: receipt!.gasUsed };
+}
+
+/** The contract is sized to the asset's primary (first) share class. */
+function constructorHints(asset: TokenizedAsset): chain.ConstructorHints {
+    const primary = asset.shareClasses[0];
+    return { name: asset.name, symbol: primary?.symbol, supply: primary?.authorizedUnits };
+}
+
+function shortHex(hex: string) {
+    return `${hex.slice(0, 8)}…${hex.slice(-4)}`;
+}
+
+function deploymentRowHtml(d: DeploymentRecord) {
+    return `
+        <tr class="${d.status}">
+            <td>${new Date(d.createdAt).toLocaleString()}</td>
+            <td>${escapeHtml(d.contractName)}</td>
+            <td>${escapeHtml(d.network)}${d.chainId ? ` #${d.chainId}` : ''}</td>
+            <td>${escapeHtml(d.contractAddress || (d.error ? `failed: ${d.error}` : '—'))}</td>
+            <td>${d.gasUsed ? d.gasUsed.toLocaleString() : '—'}</td>
+        </tr>`;
+}
+
+function renderDeployments() {
+    if (!deployDetails) return;
+    const rows = chain.listDeployments().slice(0, 5).map(deploymentRowHtml).join('');
+    deployDetails.innerHTML = rows
+        ? `<table><thead><tr><th>When</th><th>Contract</th><th>Network</th><th>Address</th><th>Gas</th></tr></thead><tbody>${rows}</tbody></table>`
+        : '';
+}
+
+/**
+ * ASSETS: Registry, cap table and restricted ledger
+ */
+let selectedAssetId: string | null = null;
+let editingAssetId: string | null = null;
+
+function formatUsd(value: number) {
+    return `$${value.toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+function holderName(id: string) {
+    return escapeHtml(assets.getHolder(id)?.name || id);
+}
+
+function assetSummaryHtml(asset: TokenizedAsset, isActive: boolean) {
+    const valuation = assets.currentValuation(asset);
+    return `
+        <h2>${escapeHtml(asset.name)} <span class="asset-status ${asset.status}">${asset.status.toUpperCase()}</span></h2>
+        <div>${escapeHtml(asset.issuer)} · ${escapeHtml(asset.category)} · ${escapeHtml(asset.jurisdiction)}</div>
+        <div>${escapeHtml(asset.description)}</div>
+        <div>Valuation: ${valuation ? `${formatUsd(valuation.valueUsd)} (${valuation.method}, ${escapeHtml(valuation.source)}, ${new Date(valuation.at).toLocaleDateString()})` : 'none recorded'}
+            · ${formatUsd(assets.unitPriceUsd(asset))} per unit · ${asset.valuations.length} valuation(s)</div>
+        ${asset.deployment ? `<div>Contract: ${escapeHtml(asset.deployment.contractAddress)} on chain ${asset.deployment.chainId}</div>` : ''}
+        <div class="asset-actions">
+            <button class="cyber-btn-small secondary" id="btn-edit-asset">EDIT DEFINITION</button>
+            ${isActive ? '' : '<button class="cyber-btn-small" id="btn-activate-asset">MAKE ACTIVE</button>'}
+        </div>
+    `;
+}
+
+function selectedAsset(): TokenizedAsset | undefined {
+    return (selectedAssetId ? assets.getAsset(selectedAssetId) : undefined) || assets.getActiveAsset();
+}
+
+function renderAssets() {
+    const active = assets.getActiveAsset();
+    const asset = selectedAsset();
+    if (assetList) {
+        assetList.innerHTML = assets.listAssets().map(a => `
+            <li data-asset-id="${escapeHtml(a.id)}" class="${a === asset ? 'selected' : ''}">${escapeHtml(a.name)}${a === active ? '<span class="active-marker">● ACTIVE</span>' : ''}</li>
+        `).join('');
+    }
+    if (!asset || !assetSummary) return;
+    selectedAssetId = asset.id;
+
+    assetSummary.innerHTML = assetSummaryHtml(asset, asset === active);
+    document.getElementById('btn-edit-asset')?.addEventListener('click', () => openAssetEditor(asset));
+    document.getElementById('btn-activate-asset')?.addEventListener('click', () => {
+        assets.setActiveAsset(asset.id);
+        renderAssets();
+        setStatus(`${asset.name} Is Now The Active Asset`, "success");
+    });
+
+    if (assetClasses) {
+        assetClasses.innerHTML = `<table class="asset-table">
+            <thead><tr><th>Class</th><th>Symbol</th><th>Issued / Authorized</th><th>Voting</th><th>Pref. Return</th><th>Transfers</th></tr></thead>
+            <tbody>${asset.shareClasses.map(c => `<tr>
+                <td>${escapeHtml(c.name)}</td><td>${escapeHtml(c.symbol)}</td>
+                <td>${assets.issuedUnits(asset.id, c.id).toLocaleString()} / ${c.authorizedUnits.toLocaleString()}</td>
+                <td>${c.votingRights ? 'yes' : 'no'}</td><td>${c.preferredReturnBps ? `${c.preferredReturnBps / 100}%` : '—'}</td>
+                <td>${c.transferable ? (c.lockupDays ? `after ${c.lockupDays}d lock-up` : 'free') : 'restricted'}</td>
+            </tr>`).join('')}</tbody></table>`;
+    }
+
+    const rows = assets.capTable(asset.id);
+    if (assetCapTable) {
+        assetCapTable.innerHTML = rows.length ? `<table class="asset-table">
+            <thead><tr><th>Holder</th><th>Class</th><th>Units</th><th>% of Class</th><th>Value</th></tr></thead>
+            <tbody>${rows.map(r => `<tr>
+                <td>${escapeHtml(r.holderName)}</td><td>${escapeHtml(r.classId)}</td><td>${r.units.toLocaleString()}</td>
+                <td>${(r.classOwnership * 100).toFixed(2)}%</td><td>${formatUsd(r.valueUsd)}</td>
+            </tr>`).join('')}</tbody></table>` : '<p class="history-empty">No units issued.</p>';
+    }
+
+    renderInvestors(asset);
+    renderCompliance(asset);
+
+    const ledger = assets.listLedger(asset.id).slice().reverse();
+    if (assetLedger) {
+        assetLedger.innerHTML = ledger.length ? `<table class="asset-table">
+            <thead><tr><th>When</th><th>Type</th><th>Class</th><th>From</th><th>To</th><th>Units</th><th>Status</th></tr></thead>
+            <tbody>${ledger.map(r => `<tr class="${r.status}">
+                <td>${new Date(r.at).toLocaleString()}</td><td>${r.type}</td><td>${escapeHtml(r.classId)}</td>
+                <td>${r.type === 'transfer' ? holderName(r.fromHolderId) : 'issuer'}</td><td>${holderName(r.toHolderId)}</td>
+                <td>${r.units.toLocaleString()}</td>
+                <td>${r.status}${r.violations.length ? `<span class="violations">${r.violations.map(v => `[${v.rule}] ${escapeHtml(v.message)}`).join('<br/>')}</span>` : ''}</td>
+            </tr>`).join('')}</tbody></table>` : '<p class="history-empty">No ledger entries.</p>';
+    }
+
+    const positions = new Set(rows.map(r => r.holderId));
+    const previousClass = ledgerClass.value;
+    ledgerClass.innerHTML = asset.shareClasses.map(c => `<option value="${escapeHtml(c.id)}">${escapeHtml(c.symbol)} · ${escapeHtml(c.name)}</option>`).join('');
+    if (asset.shareClasses.some(c => c.id === previousClass)) ledgerClass.value = previousClass;
+    ledgerFrom.innerHTML = '<option value="">Issuer (new units)</option>' +
+        [...positions].map(id => `<option value="${id}">${holderName(id)}</option>`).join('');
+    if (holderNames) holderNames.innerHTML = assets.listHolders().map(h => `<option value="${escapeHtml(h.name)}"></option>`).join('');
+}
+
+function investorsHtml(asset: TokenizedAsset, holders: Holder[]) {
+    return holders.length ? `<table class="asset-table">
+        <thead><tr><th>Investor</th><th>Country</th><th>KYC</th><th>KYC Expires</th><th>Accredited</th><th>Eligible For ${escapeHtml(asset.name)}</th></tr></thead>
+        <tbody>${holders.map(h => {
+            const violations = compliance.checkEligibility(asset.compliance, h, 'recipient');
+            return `<tr data-holder-id="${escapeHtml(h.id)}">
+                <td>${escapeHtml(h.name)}</td>
+                <td><input class="country" data-field="jurisdiction" value="${escapeHtml(h.jurisdiction)}" maxlength="2"></td>
+                <td><select data-field="kycStatus">${['pending', 'verified', 'rejected'].map(k => `<option${k === h.kycStatus ? ' selected' : ''}>${k}</option>`).join('')}</select></td>
+                <td><input type="date" data-field="kycExpiresAt" value="${escapeHtml(h.kycExpiresAt?.slice(0, 10))}"></td>
+                <td><input type="checkbox" data-field="accredited"${h.accredited ? ' checked' : ''}></td>
+                <td class="${violations.length ? 'ineligible' : 'eligible'}">${violations.length ? escapeHtml(violations.map(v => v.rule).join(', ')) : 'yes'}</td>
+            </tr>`;
+        }).join('')}</tbody></table>` : '<p class="history-empty">No investors yet.</p>';
+}
+
+function renderInvestors(asset: TokenizedAsset) {
+    if (assetHolders) assetHolders.innerHTML = investorsHtml(asset, assets.listHolders());
+}
+
+assetHolders?.addEventListener('change', (e) => {
+    const input = e.target as HTMLInputElement;
+    const holderId = input.closest<HTMLElement>('[data-holder-id]')?.dataset.holderId;
+    if (!holderId) return;
+    const value = input.type === 'checkbox' ? input.checked
+        : input.dataset.field === 'jurisdiction' ? input.value.trim().toUpperCase()
+        : input.dataset.field === 'kycExpiresAt' ? (input.value ? new Date(input.value).toISOString() : undefined)
+        : input.value;
+    try {
+        const holder = assets.updateHolder(holderId, { [input.dataset.field!]: value });
+        logEvent('investor', holder);
+        setStatus(`${holder.name}: KYC ${holder.kycStatus}, ${holder.accredited ? 'accredited' : 'not accredited'}, ${holder.jurisdiction}`, "success");
+    } catch (err: any) {
+        setStatus(err.message, "error");
+    }
+    renderAssets();
+});
+
+function complianceHtml(asset: TokenizedAsset, report: ComplianceReport) {
+    const byRule = Object.entries(report.byRule).map(([rule, n]) => `${rule} ×${n}`).join(', ');
+    return `
+        <ul>${compliance.describeRules(asset.compliance).map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ul>
+        <div>${report.rejected} of ${report.attempts} ledger attempt(s) rejected${byRule ? `: ${escapeHtml(byRule)}` : ''}.</div>
+        ${report.ineligibleHolders.length
+            ? `<div class="ineligible">No longer eligible: ${report.ineligibleHolders.map(h => escapeHtml(`${h.name} (${h.violations.map(v => v.rule).join(', ')})`)).join('; ')}</div>`
+            : '<div class="eligible">Every current holder is eligible.</div>'}
+    `;
+}
+
+function renderCompliance(asset: TokenizedAsset) {
+    if (assetCompliance) assetCompliance.innerHTML = complianceHtml(asset, assets.complianceReport(asset.id));
+}
+
+document.getElementById('btn-export-compliance')?.addEventListener('click', () => {
+    const asset = selectedAsset();
+    if (!asset) return;
+    const report = assets.complianceReport(asset.id);
+    logEvent('compliance-report', report);
+    const a = document.createElement('a');
+    a.href = URL.createObjectURL(new Blob([compliance.reportToMarkdown(report, asset)], { type: 'text/markdown' }));
+    a.download = `compliance_${asset.id}.md`;
+    a.click();
+    URL.revokeObjectURL(a.href);
+});
+
+assetList?.addEventListener('click', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('[data-asset-id]');
+    if (!item) return;
+    selectedAssetId = item.dataset.assetId!;
+    renderAssets();
+});
+
+document.getElementById('valuation-form')?.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const asset = selectedAsset();
+    if (!asset) return;
+    try {
+        const valuation = assets.addValuation(asset.id, {
+            valueUsd: Number((document.getElementById('valuation-amount') as HTMLInputElement).value),
+            method: (document.getElementById('valuation-method') as HTMLSelectElement).value as ValuationMethod,
+            source: (document.getElementById('valuation-source') as HTMLInputElement).value.trim()
         });
+        logEvent('valuation', { assetId: asset.id, ...valuation });
+        (e.target as HTMLFormElement).reset();
+        renderAssets();
+        setStatus(`${asset.name} Revalued at ${formatUsd(valuation.valueUsd)}`, "success");
+    } catch (err: any) {
+        setStatus(`Valuation Rejected: ${err.message}`, "error");
+    }
+});
+
+document.getElementById('ledger-form')?.addEventListener('submit', (e) => {
+    e.preventDefault();
+    const asset = selectedAsset();
+    const name = ledgerTo.value.trim();
+    if (!asset || !name) return;
+    const to = assets.findOrCreateHolder({ name, kind: 'individual', jurisdiction: asset.jurisdiction });
+    const units = Number(ledgerUnits.value);
+    const record = ledgerFrom.value
+        ? assets.transfer(asset.id, ledgerClass.value, ledgerFrom.value, to.id, units)
+        : assets.issue(asset.id, ledgerClass.value, to.id, units);
+    logEvent(record.type, record);
+    if (record.status === 'settled') (e.target as HTMLFormElement).reset();
+    renderAssets();
+    setStatus(record.status === 'settled'
+        ? `${record.type} of ${units.toLocaleString()} units to ${to.name} settled`
+        : `${record.type} rejected: ${record.violations.map(v => v.message).join(' ')}`, record.status === 'settled' ? "success" : "error");
+});
+
+function openAssetEditor(asset?: TokenizedAsset) {
+    editingAssetId = asset?.id || null;
+    document.getElementById('asset-modal-title')!.textContent = asset ? `EDIT ${asset.name.toUpperCase()}` : 'NEW ASSET';
+    assetEditor.value = JSON.stringify(asset ? assets.assetDefinition(asset) : assets.ASSET_TEMPLATE, null, 2);
+    if (assetErrors) assetErrors.innerHTML = '';
+    assetModal.showModal();
+}
+
+function showAssetErrors(errors: string[]) {
+    if (assetErrors) assetErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+}
+
+document.getElementById('btn-new-asset')?.addEventListener('click', () => openAssetEditor());
+document.getElementById('close-asset-btn')?.addEventListener('click', () => assetModal.close());
+
+document.getElementById('btn-save-asset')?.addEventListener('click', () => {
+    let next: assets.AssetDefinition;
+    try {
+        next = JSON.parse(assetEditor.value);
+    } catch (e: any) {
+        return showAssetErrors([`Invalid JSON: ${e.message}`]);
+    }
+    const errors = assets.validateAssetDefinition(next);
+    if (errors.length) return showAssetErrors(errors);
+    try {
+        const asset = assets.saveAsset(next, editingAssetId || undefined);
+        selectedAssetId = asset.id;
+    } catch (e: any) {
+        return showAssetErrors([e.message]);
+    }
+    assetModal.close();
+    renderAssets();
+    setStatus(editingAssetId ? "Asset Definition Saved" : "Asset Created", "success");
+});
+
+/**
+ * MARKETING: Campaigns with per-channel A/B variants, review and bundle export
+ */
+let selectedCampaignId: string | null = null;
+
+if(btnGenMarketing) {
+    btnGenMarketing.addEventListener('click', () => runMarketingAgent().catch((e: any) => {
+        if (campaignSummary) campaignSummary.innerHTML = `<span class="ineligible">${escapeHtml(e.message)}</span>`;
+        setStatus("Campaign Generation Failed", "error");
+    }));
+}
+
+function pickedChannels(): CampaignChannel[] {
+    const boxes = campaignChannelPicks?.querySelectorAll<HTMLInputElement>('input:checked') || [];
+    return Array.from(boxes, box => box.value as CampaignChannel);
+}
+
+async function runMarketingAgent() {
+    setStatus("Marketing Agent Active...", "busy");
+    const topic = marketingTopicInput?.value || "Crypto Trends";
+    const phase = roadmap.activePhase();
+
+    if (campaignSummary) campaignSummary.innerHTML = '<span class="blink">Researching Search Trends...</span>';
+    if (campaignChannels) campaignChannels.innerHTML = '';
+    if (imageResult) imageResult.innerHTML = '<span class="blink">Dreaming up visuals...</span>';
+
+    const campaign = await campaigns.generateCampaign(provider, {
+        topic,
+        feature: loopContext.feature,
+        phase: phase || { id: 'unplanned', title: loopContext.feature, description: loopContext.feature },
+        channels: pickedChannels().length ? pickedChannels() : campaigns.CHANNELS
+    }, step => {
+        if (campaignSummary) campaignSummary.innerHTML = `<span class="blink">${escapeHtml(step)}...</span>`;
+    });
+
+    selectedCampaignId = campaign.id;
+    await renderMarketing();
+    const openFindings = brandSafety.blockingFindings(campaign).length;
+    setStatus(openFindings ? `Campaign Drafted: ${openFindings} Brand-Safety Finding(s) To Resolve` : "Campaign Drafted For Review", openFindings ? "error" : "idle");
+    const lead = campaign.channels[0]?.variants[0];
+    return {
+        campaignId: campaign.id,
+        topic,
+        copy: lead ? campaigns.variantMarkdown(campaign.channels[0].channel, lead) : '',
+        image: !!campaign.image,
+        citations: campaign.citations.length,
+        openFindings
+    };
+}
+
+async function renderMarketing() {
+    const phase = roadmap.activePhase();
+    if (campaignPhase) campaignPhase.textContent = phase ? `· ${phase.title}` : '';
+    const all = await campaigns.listCampaigns();
+    const campaign = all.find(c => c.id === selectedCampaignId) || all[0];
+    if (campaignList) {
+        campaignList.innerHTML = all.map(c => `
+            <li data-campaign-id="${escapeHtml(c.id)}" class="${c === campaign ? 'selected' : ''}">${escapeHtml(c.topic)}
+                <span class="campaign-status ${c.status}">${c.status.toUpperCase()}</span></li>
+        `).join('') || '<li class="placeholder-text">No campaigns yet.</li>';
+    }
+    if (!campaign) return;
+    selectedCampaignId = campaign.id;
+    await renderCampaign(campaign);
+}
+
+/** Wraps each finding's span in a <mark>; text between spans goes through `outside`. */
+function markFindings(text: string, findings: ClaimFinding[], outside: (text: string) => string): string {
+    let html = '';
+    let at = 0;
+    for (const f of [...findings].sort((a, b) => a.start - b.start)) {
+        if (f.start < at) continue;
+        html += outside(text.slice(at, f.start));
+        html += `<mark class="claim-flag ${f.status}" title="${escapeHtml(f.message)}">${escapeHtml(text.slice(f.start, f.end))}</mark>`;
+        at = f.end;
+    }
+    return html + outside(text.slice(at));
+}
+
+function findingsHtml(campaign: Campaign) {
+    const shown = campaign.findings.filter(f => f.status !== 'resolved');
+    const blocking = new Set(brandSafety.blockingFindings(campaign).map(f => f.id));
+    const resolved = campaign.findings.length - shown.length;
+    if (!shown.length) return `<div class="eligible">✔ No open findings${resolved ? ` (${resolved} resolved)` : ''}.</div>`;
+    const canWaive = campaign.status !== 'approved';
+    return `<table class="asset-table">
+        <thead><tr><th>Status</th><th>Where</th><th>Text</th><th>Issue</th><th></th></tr></thead>
+        <tbody>${shown.map(f => {
+            const variant = campaign.channels.find(p => p.channel === f.channel)?.variants.find(v => v.id === f.variantId);
+            return `<tr>
+                <td><span class="finding-status ${escapeHtml(f.status)}">${f.status === 'open' && !blocking.has(f.id) ? 'UNUSED' : escapeHtml(f.status.toUpperCase())}</span></td>
+                <td>${escapeHtml(campaigns.CHANNEL_RULES[f.channel]?.label ?? f.channel)} ${escapeHtml(variant?.label)}</td>
+                <td>"${escapeHtml(f.excerpt)}"</td>
+                <td>${escapeHtml(f.message)}${f.waiver ? `<span class="violations">Waived: ${escapeHtml(f.waiver.note)}</span>` : ''}</td>
+                <td>${f.status === 'open' && canWaive ? `<input type="text" data-waive-note="${escapeHtml(f.id)}" placeholder="Why it is acceptable"> <button class="link-btn" data-waive="${escapeHtml(f.id)}">WAIVE</button>` : ''}</td>
+            </tr>`;
+        }).join('')}</tbody></table>
+        ${resolved ? `<div class="placeholder-text">${resolved} finding(s) resolved by later copy.</div>` : ''}`;
+}
+
+function renderFindings(campaign: Campaign) {
+    if (campaignFindings) campaignFindings.innerHTML = findingsHtml(campaign);
+}
+
+function citationHtml(c: Citation) {
+    return `<li><a href="${safeUrl(c.uri)}" target="_blank" rel="noopener noreferrer">${escapeHtml(c.title)}</a></li>`;
+}
+
+/** One A/B variant, with brand-safety findings marked in its copy. */
+async function variantCardHtml(campaign: Campaign, plan: ChannelPlan, v: ChannelVariant, editable: boolean) {
+    const rules = campaigns.CHANNEL_RULES[plan.channel];
+    const selected = v.id === plan.selectedVariantId;
+    const flagged = campaign.findings.filter(f => f.variantId === v.id && f.status !== 'resolved');
+    const segments = await Promise.all(v.segments.map(async (seg, i) => {
+        const source = markFindings(seg, flagged.filter(f => f.segment === i), text => text);
+        return `<div class="segment">${await renderMarkdown(source)}</div>`;
+    }));
+    return `
+    <div class="variant-card ${selected ? 'selected' : ''}">
+        <header>VARIANT ${escapeHtml(v.label)}
+            ${selected ? '<span class="eligible">✔ SELECTED</span>' : editable ? `<button class="link-btn" data-select-variant="${escapeHtml(v.id)}" data-channel="${plan.channel}">USE THIS</button>` : ''}
+        </header>
+        <div class="angle">${escapeHtml(v.angle)}</div>
+        ${v.headline ? `<div class="headline">${rules.headline ? `${rules.headline.name}: ` : ''}${markFindings(v.headline, flagged.filter(f => f.segment === -1), escapeHtml)}</div>` : ''}
+        ${segments.join('')}
+        ${v.issues.length ? `<ul class="issues">${v.issues.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : '<div class="eligible">✔ within channel rules</div>'}
+    </div>`;
+}
+
+function campaignSummaryHtml(campaign: Campaign, editable: boolean, blockers: string[]) {
+    const lastReview = campaign.reviews[campaign.reviews.length - 1];
+    return `
+            <h2>${escapeHtml(campaign.topic)} <span class="campaign-status ${escapeHtml(campaign.status)}">${escapeHtml(campaign.status.toUpperCase())}</span></h2>
+            <div>${escapeHtml(campaign.phase.title)} · ${escapeHtml(campaign.feature)} · ${new Date(campaign.createdAt).toLocaleString()}</div>
+            ${lastReview ? `<div>Last review: ${escapeHtml(lastReview.action)} ${new Date(lastReview.at).toLocaleString()}${lastReview.note ? ` — "${escapeHtml(lastReview.note)}"` : ''}</div>` : ''}
+            <div class="asset-actions">
+                ${editable ? `<button class="cyber-btn-small" id="btn-submit-campaign" ${blockers.length ? 'disabled' : ''}>SUBMIT FOR REVIEW</button>` : ''}
+                ${campaign.status === 'in-review' ? `
+                    <input type="text" id="campaign-review-note" class="campaign-review-note" placeholder="Reviewer note (required to request changes)">
+                    <button class="cyber-btn-small" id="btn-approve-campaign">APPROVE</button>
+                    <button class="cyber-btn-small secondary" id="btn-request-changes">REQUEST CHANGES</button>` : ''}
+                <button class="cyber-btn-small secondary" id="btn-export-campaign">EXPORT BUNDLE</button>
+            </div>
+        `;
+}
+
+async function renderCampaign(campaign: Campaign) {
+    const editable = campaigns.isEditable(campaign);
+    const blockers = editable ? campaigns.reviewBlockers(campaign) : [];
+
+    if (campaignSummary) campaignSummary.innerHTML = campaignSummaryHtml(campaign, editable, blockers);
+    if (campaignBlockers) campaignBlockers.innerHTML = blockers.map(b => `<li>${escapeHtml(b)}</li>`).join('');
+
+    if (campaignChannels) {
+        const sections = await Promise.all(campaign.channels.map(async plan => {
+            const rules = campaigns.CHANNEL_RULES[plan.channel];
+            const cards = await Promise.all(plan.variants.map(v => variantCardHtml(campaign, plan, v, editable)));
+            return `<h3>${rules.label.toUpperCase()}${editable ? ` <button class="link-btn" data-regenerate="${plan.channel}">REGENERATE</button>` : ''}</h3>
+                <div class="ab-grid">${cards.join('')}</div>`;
+        }));
+        campaignChannels.innerHTML = sections.join('');
+    }
+
+    renderFindings(campaign);
+
+    if (imageResult) {
+        imageResult.innerHTML = campaign.image
+            ? `<img src="${imageSrc(campaign.image)}" alt="Campaign header image" title="${escapeHtml(campaign.image.prompt)}" />`
+            : '<span class="placeholder-text">No image was generated.</span>';
+    }
+    if (campaignCitations) {
+        campaignCitations.innerHTML = campaign.citations.map(citationHtml).join('') || '<li class="placeholder-text">The search step returned no sources.</li>';
+    }
+
+    const act = (label: string, action: () => Promise<unknown>) => async () => {
+        try {
+            await action();
+            await renderMarketing();
+            setStatus(label, "success");
+        } catch (e: any) {
+            setStatus(e.message.split('\n')[0], "error");
+        }
+    };
+    const note = () => (document.getElementById('campaign-review-note') as HTMLInputElement | null)?.value.trim() || '';
+    document.getElementById('btn-submit-campaign')?.addEventListener('click', act("Campaign Submitted For Review", () => campaigns.submitForReview(campaign.id)));
+    document.getElementById('btn-approve-campaign')?.addEventListener('click', act("Campaign Approved", () => campaigns.approveCampaign(campaign.id, note())));
+    document.getElementById('btn-request-changes')?.addEventListener('click', act("Changes Requested", () => campaigns.requestChanges(campaign.id, note())));
+    document.getElementById('btn-export-campaign')?.addEventListener('click', () => {
+        const url = URL.createObjectURL(campaigns.exportCampaign(campaign));
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `campaign-${campaign.phase.id}-${campaign.id}.zip`;
+        a.click();
+        URL.revokeObjectURL(url);
+    });
+}
+
+campaignList?.addEventListener('click', (e) => {
+    const item = (e.target as HTMLElement).closest<HTMLElement>('[data-campaign-id]');
+    if (!item) return;
+    selectedCampaignId = item.dataset.campaignId!;
+    void renderMarketing();
+});
+
+campaignFindings?.addEventListener('click', async (e) => {
+    const findingId = (e.target as HTMLElement).dataset.waive;
+    if (!findingId || !selectedCampaignId) return;
+    const note = campaignFindings.querySelector<HTMLInputElement>(`[data-waive-note="${findingId}"]`)?.value || '';
+    try {
+        await campaigns.waiveFinding(selectedCampaignId, findingId, note);
+        await renderMarketing();
+        setStatus("Finding Waived", "success");
+    } catch (e: any) {
+        setStatus(e.message, "error");
+    }
+});
+
+document.getElementById('btn-recheck-claims')?.addEventListener('click', async () => {
+    if (!selectedCampaignId) return;
+    try {
+        const campaign = await campaigns.recheckFindings(selectedCampaignId);
+        await renderMarketing();
+        const open = brandSafety.blockingFindings(campaign).length;
+        setStatus(open ? `${open} Brand-Safety Finding(s) Open` : "Copy Passes Brand Review", open ? "error" : "success");
+    } catch (e: any) {
+        setStatus(e.message, "error");
+    }
+});
+
+document.getElementById('btn-edit-brand-policy')?.addEventListener('click', () => {
+    brandPolicyEditor.value = JSON.stringify(brandSafety.getPolicy(), null, 2);
+    if (brandPolicyErrors) brandPolicyErrors.innerHTML = '';
+    brandPolicyModal.showModal();
+});
+
+document.getElementById('btn-brand-policy-defaults')?.addEventListener('click', () => {
+    brandPolicyEditor.value = JSON.stringify(brandSafety.DEFAULT_POLICY, null, 2);
+});
+
+document.getElementById('close-brand-policy-btn')?.addEventListener('click', () => brandPolicyModal.close());
+
+document.getElementById('btn-save-brand-policy')?.addEventListener('click', async () => {
+    let next: unknown;
+    try {
+        next = JSON.parse(brandPolicyEditor.value);
+    } catch (e: any) {
+        if (brandPolicyErrors) brandPolicyErrors.innerHTML = `<li>Invalid JSON: ${escapeHtml(e.message)}</li>`;
+        return;
+    }
+    const errors = brandSafety.validatePolicy(next);
+    if (brandPolicyErrors) brandPolicyErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+    if (errors.length) return;
+    brandSafety.savePolicy(next as BrandPolicy);
+    brandPolicyModal.close();
+    const current = selectedCampaignId && await campaigns.getCampaign(selectedCampaignId);
+    if (current && current.status !== 'approved') await campaigns.recheckFindings(current.id);
+    await renderMarketing();
+    setStatus("Brand Policy Saved", "success");
+});
+
+campaignChannels?.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    if (!selectedCampaignId) return;
+    try {
+        if (target.dataset.selectVariant) {
+            await campaigns.selectVariant(selectedCampaignId, target.dataset.channel as CampaignChannel, target.dataset.selectVariant);
+        } else if (target.dataset.regenerate) {
+            setStatus("Rewriting Channel Variants...", "busy");
+            await campaigns.regenerateChannel(provider, selectedCampaignId, target.dataset.regenerate as CampaignChannel);
+            setStatus("Variants Regenerated", "success");
+        } else {
+            return;
+        }
+        await renderMarketing();
+    } catch (e: any) {
+        setStatus(e.message, "error");
+    }
+});
+
+/**
+ * NANO BANANA STUDIO
+ */
+if (nanoModelSelect) {
+    nanoModelSelect.addEventListener('change', () => {
+        if (nanoSizeContainer) {
+            nanoSizeContainer.style.display = nanoModelSelect.value === 'gemini-3-pro-image-preview' ? 'flex' : 'none';
+        }
+    });
+}
+
+if (nanoGenBtn) nanoGenBtn.addEventListener('click', () => runNanoStudioAction(false).catch(reportNanoFailure));
+if (nanoEditBtn) nanoEditBtn.addEventListener('click', () => runNanoStudioAction(true).catch(reportNanoFailure));
+
+function reportNanoFailure(e: any) {
+    console.error("Nano Studio Error:", e);
+    if (nanoStatusMsg) nanoStatusMsg.textContent = "STABILIZATION FAILED.";
+    if (nanoCanvas) nanoCanvas.innerHTML += `<p style="color:red; font-size:0.8rem;">Error: ${escapeHtml(e?.message || String(e))}</p>`;
+    setStatus("Studio Failed", "error");
+}
+
+/**
+ * Generates an image, baking from scratch or editing the selected version, and
+ * files it in the gallery. Failures, a spent budget included, are thrown for
+ * the caller to report.
+ */
+async function runNanoStudioAction(isEdit: boolean): Promise<NanoImage> {
+    const prompt = nanoPrompt.value || "A vibrant cyberpunk banana floating in deep space";
+    // A spent soft budget swaps Pro for Flash; the gallery records what actually ran.
+    const { model, downgradedBy } = usage.resolveModel(nanoModelSelect.value, usageScope());
+    const size = nanoSizeSelect.value;
+    const aspect = nanoAspectSelect.value;
+
+    setStatus("Nano Studio Baking...", "busy");
+    if (nanoStatusMsg) nanoStatusMsg.textContent = (isEdit ? "RE-IMAGINING VISION..." : "BAKING INITIAL VISION...")
+        + (downgradedBy ? ` BUDGET "${downgradedBy.budget.id}" SPENT: USING ${model}.` : '');
+    
+    if (nanoCanvas && !isEdit) {
+        nanoCanvas.innerHTML = '<div class="nano-placeholder"><div class="banana-icon-large blink">🍌</div><p>PROCESSING PHOTONS...</p></div>';
     }
 
+    const parent = isEdit ? nanoImages.find(i => i.id === currentNanoImageId) : undefined;
+    const mask = parent && maskImageId === parent.id && !maskPainter.isEmpty() ? maskPainter.toMaskImage() : undefined;
+    const references = nanoReferenceIds
+        .filter(id => id !== parent?.id)
+        .map(id => nanoImages.find(i => i.id === id))
+        .filter((i): i is NanoImage => !!i);
+
+    // Inputs go first, in the order the instruction text describes them.
+    const inputs = [parent, mask, ...references].filter(i => !!i);
+    const parts: ModelPart[] = inputs.map(i => ({ inlineData: { data: i.data, mimeType: i.mimeType } }));
+    const instruction = nanoInstruction(prompt, !!parent, !!mask, references.length);
+    parts.push({ text: instruction.text });
+
     const config: any = {
         imageConfig: {
             aspectRatio: aspect
@@ -539,81 +2278,949 @@ async function runNanoStudioAction(isEdit: boolean) {
         config.imageConfig.imageSize = size;
     }
 
-    try {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: { parts: parts },
-            config: config
+    const response = await provider.generate({
+        model: model,
+        contents: { parts: parts },
+        config: config,
+        prompts: [instruction.ref]
+    });
+
+    const generated = findInlineImage(response);
+    if (!generated) throw new Error("No image data returned from model.");
+
+    const image = parent && mask ? await imageTools.compositeMasked(parent, generated, mask) : generated;
+    const saved = await gallery.saveImage({
+        parentId: parent?.id,
+        prompt,
+        model,
+        aspectRatio: aspect,
+        size: model === 'gemini-3-pro-image-preview' ? size : undefined,
+        mimeType: image.mimeType,
+        data: image.data,
+        feature: loopContext.feature,
+        referenceIds: references.length ? references.map(r => r.id) : undefined,
+        mask: mask?.data,
+        promptTemplate: instruction.ref
+    });
+    setMaskPainting(false);
+    currentNanoImageId = saved.id;
+    compareNanoImageId = null;
+    await renderNanoGallery();
+    if (nanoStatusMsg) nanoStatusMsg.textContent = "VISION STABILIZED.";
+    setStatus("Studio Idle", "idle");
+    return saved;
+}
+
+/** The prompt text, prefixed with what each attached image is. */
+function nanoInstruction(prompt: string, hasBase: boolean, hasMask: boolean, referenceCount: number) {
+    const first = 1 + Number(hasBase) + Number(hasMask);
+    const references = !referenceCount ? undefined : referenceCount === 1
+        ? `Image ${first} is a reference image`
+        : `Images ${first}-${first + referenceCount - 1} are reference images`;
+    return prompts.renderPrompt('nano.instruction', {
+        prompt, hasBase, hasMask, references, hasInputs: hasBase || hasMask || referenceCount > 0
+    });
+}
+
+/**
+ * NANO BANANA STUDIO: Gallery, edit tree and compare
+ */
+let nanoImages: NanoImage[] = [];
+let currentNanoImageId: string | null = null;
+let compareNanoImageId: string | null = null;
+let nanoComparing = false;
+let nanoReferenceIds: string[] = [];
+
+function nanoImg(image: NanoImage, alt = 'Nano Banana Generation') {
+    return `<img src="${imageSrc(image)}" alt="${alt}" />`;
+}
+
+function nanoSettings(image: NanoImage) {
+    return `${image.model} · ${image.aspectRatio}${image.size ? ` · ${image.size}` : ''} · ${new Date(image.createdAt).toLocaleString()}`;
+}
+
+function renderNanoNode(node: gallery.GalleryNode): string {
+    const { image } = node;
+    const classes = ['nano-node', image.id === currentNanoImageId ? 'selected' : '', image.id === compareNanoImageId ? 'compared' : ''].join(' ');
+    return `<li>
+        <div class="${classes}" data-image-id="${image.id}" title="${escapeHtml(image.prompt)}">
+            ${nanoImg(image, 'Thumbnail')}
+            <span class="meta">${image.parentId ? '↳ ' : ''}${image.uploadedFrom ? '⇪ ' : ''}${escapeHtml(image.prompt)}<small>${escapeHtml(nanoSettings(image))}${image.mask ? ' · masked' : ''}${image.referenceIds?.length ? ` · ${image.referenceIds.length} ref(s)` : ''}</small></span>
+            <button class="link-btn" data-reference-image="${image.id}" title="${nanoReferenceIds.includes(image.id) ? 'Remove from references' : 'Use as a reference image'}">${nanoReferenceIds.includes(image.id) ? '−REF' : '+REF'}</button>
+            ${node.children.length ? '' : `<button class="link-btn" data-delete-image="${image.id}" title="Delete this version">✕</button>`}
+        </div>
+        ${node.children.length ? `<ul>${node.children.map(renderNanoNode).join('')}</ul>` : ''}
+    </li>`;
+}
+
+function renderNanoCanvas() {
+    const current = nanoImages.find(i => i.id === currentNanoImageId);
+    const other = nanoImages.find(i => i.id === compareNanoImageId);
+    if (nanoEditBtn) nanoEditBtn.disabled = !current;
+    if (btnNanoDownload) btnNanoDownload.disabled = !current;
+    if (btnNanoMask) btnNanoMask.disabled = !current || nanoComparing;
+    if (btnNanoClearMask) btnNanoClearMask.disabled = !current || nanoComparing;
+    if (btnNanoCompare) {
+        btnNanoCompare.disabled = !current || nanoImages.length < 2;
+        btnNanoCompare.textContent = nanoComparing ? 'EXIT COMPARE' : 'COMPARE';
+    }
+    if (!current || !nanoCanvas) return;
+
+    if (nanoComparing && other) {
+        const field = (label: string, a: string, b: string) =>
+            `<div class="${a === b ? '' : 'differs'}">${label}: ${escapeHtml(a)}</div>`;
+        const caption = (image: NanoImage, against: NanoImage) => `
+            ${field('prompt', image.prompt, against.prompt)}
+            ${field('model', image.model, against.model)}
+            ${field('aspect', image.aspectRatio, against.aspectRatio)}
+            ${field('size', image.size || 'default', against.size || 'default')}
+            <div>${gallery.lineage(nanoImages, image.id).length - 1} edit(s) from the original bake · ${new Date(image.createdAt).toLocaleString()}</div>`;
+        nanoCanvas.innerHTML = `<div class="nano-compare">
+            <figure>${nanoImg(current)}<figcaption>${caption(current, other)}</figcaption></figure>
+            <figure>${nanoImg(other)}<figcaption>${caption(other, current)}</figcaption></figure>
+        </div>`;
+    } else {
+        nanoCanvas.innerHTML = nanoImg(current);
+        attachMask(current);
+    }
+    if (nanoComparing && !other && nanoStatusMsg) nanoStatusMsg.textContent = "PICK A VERSION TO COMPARE...";
+}
+
+async function renderNanoGallery() {
+    nanoImages = await gallery.listImages();
+    if (currentNanoImageId && !nanoImages.some(i => i.id === currentNanoImageId)) currentNanoImageId = null;
+    nanoReferenceIds = nanoReferenceIds.filter(id => nanoImages.some(i => i.id === id));
+    currentNanoImageId ??= nanoImages[nanoImages.length - 1]?.id ?? null;
+
+    if (nanoGallery) {
+        nanoGallery.innerHTML = gallery.buildTree(nanoImages).map(renderNanoNode).join('')
+            || '<li class="placeholder-text">Baked and edited images are kept here.</li>';
+    }
+    if (nanoLineage) {
+        const chain = currentNanoImageId ? gallery.lineage(nanoImages, currentNanoImageId) : [];
+        nanoLineage.innerHTML = chain.length ? 'LINEAGE: ' + chain.map(i =>
+            `<span class="step ${i.id === currentNanoImageId ? 'current' : ''}" data-image-id="${i.id}" title="${escapeHtml(i.prompt)}">${escapeHtml(i.prompt.slice(0, 24))}${i.prompt.length > 24 ? '…' : ''}</span>`
+        ).join(' → ') : '';
+    }
+    renderNanoReferences();
+    renderNanoCanvas();
+}
+
+function pickNanoImage(id: string) {
+    if (nanoComparing && id !== currentNanoImageId) {
+        compareNanoImageId = id;
+    } else {
+        currentNanoImageId = id;
+        const image = nanoImages.find(i => i.id === id);
+        if (image && nanoStatusMsg) nanoStatusMsg.textContent = `SELECTED: ${nanoSettings(image)}. ITERATE EDITS FROM HERE.`;
+    }
+    void renderNanoGallery();
+}
+
+[nanoGallery, nanoLineage].forEach(el => el?.addEventListener('click', async (e) => {
+    const target = e.target as HTMLElement;
+    if (target.dataset.referenceImage) {
+        e.stopPropagation();
+        toggleNanoReference(target.dataset.referenceImage);
+        return;
+    }
+    if (target.dataset.deleteImage) {
+        e.stopPropagation();
+        try {
+            await gallery.deleteImage(target.dataset.deleteImage);
+            if (compareNanoImageId === target.dataset.deleteImage) compareNanoImageId = null;
+            await renderNanoGallery();
+        } catch (err: any) {
+            setStatus(err.message, "error");
+        }
+        return;
+    }
+    const item = target.closest<HTMLElement>('[data-image-id]');
+    if (item) pickNanoImage(item.dataset.imageId!);
+}));
+
+btnNanoCompare?.addEventListener('click', () => {
+    nanoComparing = !nanoComparing;
+    if (!nanoComparing) compareNanoImageId = null;
+    else compareNanoImageId = gallery.lineage(nanoImages, currentNanoImageId!).slice(-2, -1)[0]?.id ?? null;
+    void renderNanoGallery();
+});
+
+/**
+ * NANO BANANA STUDIO: Uploads, reference images and edit mask
+ */
+const maskPainter = imageTools.createMaskPainter();
+maskPainter.canvas.classList.add('nano-mask');
+/** The image the painted mask belongs to; switching versions starts a fresh mask. */
+let maskImageId: string | null = null;
+
+function toggleNanoReference(id: string) {
+    nanoReferenceIds = nanoReferenceIds.includes(id) ? nanoReferenceIds.filter(r => r !== id) : [...nanoReferenceIds, id];
+    void renderNanoGallery();
+}
+
+function renderNanoReferences() {
+    if (!nanoReferences) return;
+    nanoReferences.innerHTML = nanoReferenceIds.map(id => {
+        const image = nanoImages.find(i => i.id === id)!;
+        return `<div class="nano-ref" title="${escapeHtml(image.prompt)}">
+            ${nanoImg(image, 'Reference')}
+            <button class="link-btn" data-reference-image="${id}" title="Remove from references">✕</button>
+        </div>`;
+    }).join('') || '<span class="placeholder-text">Upload images or add gallery versions with +REF.</span>';
+}
+
+/** Lays the mask canvas over the displayed image, sized to its on-screen box. */
+function attachMask(current: NanoImage) {
+    const img = nanoCanvas?.querySelector('img');
+    if (!img || !nanoCanvas) return;
+    const place = () => {
+        if (maskImageId !== current.id) {
+            maskPainter.reset(img.naturalWidth, img.naturalHeight);
+            maskImageId = current.id;
+        }
+        Object.assign(maskPainter.canvas.style, {
+            left: `${img.offsetLeft}px`, top: `${img.offsetTop}px`, width: `${img.offsetWidth}px`, height: `${img.offsetHeight}px`
         });
+    };
+    nanoCanvas.appendChild(maskPainter.canvas);
+    if (img.complete) place();
+    else img.addEventListener('load', place, { once: true });
+}
 
-        let imgData: string | null = null;
-        let mimeType: string = 'image/png';
+function setMaskPainting(on: boolean) {
+    maskPainter.setEnabled(on);
+    if (btnNanoMask) btnNanoMask.textContent = on ? 'DONE PAINTING' : 'PAINT MASK';
+}
 
-        if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    imgData = part.inlineData.data;
-                    mimeType = part.inlineData.mimeType;
-                    break;
-                }
-            }
+btnNanoMask?.addEventListener('click', () => {
+    setMaskPainting(!maskPainter.canvas.classList.contains('painting'));
+    if (nanoStatusMsg) nanoStatusMsg.textContent = maskPainter.canvas.classList.contains('painting')
+        ? "PAINT THE REGION TO CHANGE, THEN ITERATE." : "MASK READY. ITERATE EDITS INSIDE IT.";
+});
+
+btnNanoClearMask?.addEventListener('click', () => {
+    maskPainter.reset(maskPainter.canvas.width, maskPainter.canvas.height);
+});
+
+nanoBrushSize?.addEventListener('input', () => maskPainter.setBrush(Number(nanoBrushSize.value)));
+
+window.addEventListener('resize', () => {
+    const current = nanoImages.find(i => i.id === currentNanoImageId);
+    if (current && maskPainter.canvas.isConnected) attachMask(current);
+});
+
+document.getElementById('btn-nano-upload')?.addEventListener('click', () => nanoUploadInput?.click());
+
+nanoUploadInput?.addEventListener('change', async () => {
+    const files = Array.from(nanoUploadInput.files || []);
+    nanoUploadInput.value = '';
+    for (const file of files) {
+        try {
+            const loaded = await imageTools.loadUpload(file);
+            const saved = await gallery.saveImage({
+                prompt: file.name,
+                model: 'upload',
+                aspectRatio: imageTools.aspectRatioOf(loaded.width, loaded.height),
+                mimeType: loaded.mimeType,
+                data: loaded.data,
+                feature: loopContext.feature,
+                uploadedFrom: file.name
+            });
+            nanoReferenceIds.push(saved.id);
+        } catch (e: any) {
+            setStatus(e.message, "error");
         }
+    }
+    await renderNanoGallery();
+    if (files.length && nanoStatusMsg) nanoStatusMsg.textContent = "UPLOADED AS REFERENCES. SELECT ONE IN THE GALLERY TO EDIT IT DIRECTLY.";
+});
 
-        if (imgData) {
-            lastGeneratedImageData = { data: imgData, mimeType: mimeType };
-            if (nanoCanvas) {
-                nanoCanvas.innerHTML = `<img src="data:${mimeType};base64,${imgData}" alt="Nano Banana Generation" />`;
-            }
-            if (nanoStatusMsg) nanoStatusMsg.textContent = "VISION STABILIZED.";
-            if (nanoEditBtn) nanoEditBtn.disabled = false;
+nanoReferences?.addEventListener('click', (e) => {
+    const id = (e.target as HTMLElement).dataset.referenceImage;
+    if (id) toggleNanoReference(id);
+});
+
+function downloadBlob(blob: Blob, name: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name;
+    a.click();
+    URL.revokeObjectURL(url);
+}
+
+btnNanoDownload?.addEventListener('click', () => {
+    const image = nanoImages.find(i => i.id === currentNanoImageId);
+    if (image) downloadBlob(gallery.exportImage(image, nanoImages), gallery.fileName(image));
+});
+
+document.getElementById('btn-nano-export')?.addEventListener('click', async () => {
+    const images = await gallery.listImages();
+    if (!images.length) return setStatus("Gallery Is Empty", "error");
+    downloadBlob(gallery.exportGallery(images, images), `nano-gallery-${new Date().toISOString().slice(0, 10)}.zip`);
+});
+
+
+/**
+ * MARKET WATCH: Live feed for market symbols, registry valuations for our own tokens
+ */
+const marketFeed = market.createMarketFeed({
+    kind: process.env.MARKET_FEED,
+    wsUrl: process.env.MARKET_WS_URL!,
+    restUrl: process.env.MARKET_REST_URL!,
+    pollMs: Number(process.env.MARKET_POLL_MS) || undefined,
+    quoteAsset: process.env.MARKET_QUOTE_ASSET,
+    replay: async () => {
+        if (!process.env.MARKET_REPLAY_URL) return replayTape;
+        const res = await fetch(process.env.MARKET_REPLAY_URL);
+        if (!res.ok) throw new Error(`replay tape: HTTP ${res.status}`);
+        return res.text();
+    }
+});
+const marketTicker = document.getElementById('market-ticker');
+const marketFeedStatus = document.getElementById('market-feed-status');
+const watchlistModal = document.getElementById('watchlist-modal') as HTMLDialogElement;
+const watchlistEditor = document.getElementById('watchlist-editor') as HTMLTextAreaElement;
+const watchlistErrors = document.getElementById('watchlist-errors');
+let stopMarketFeed: (() => void) | null = null;
+
+function formatPrice(price: number) {
+    return price >= 100 ? price.toLocaleString(undefined, { maximumFractionDigits: 0 })
+        : price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: price >= 1 ? 2 : 4 });
+}
+
+function sparkline(prices: number[]) {
+    if (prices.length < 2) return '<svg class="sparkline"></svg>';
+    const min = Math.min(...prices);
+    const span = Math.max(...prices) - min || 1;
+    const points = prices.map((p, i) => `${(i / (prices.length - 1) * 48).toFixed(1)},${(17 - (p - min) / span * 16).toFixed(1)}`).join(' ');
+    return `<svg class="sparkline" viewBox="0 0 48 18" preserveAspectRatio="none"><polyline points="${points}"/></svg>`;
+}
+
+function renderMarketWatch() {
+    if (!marketTicker) return;
+    const now = Date.now();
+    marketTicker.innerHTML = market.getWatchlist().map(symbol => {
+        const own = assets.findBySymbol(symbol);
+        let prices: number[];
+        let change: number | undefined;
+        let stale = false;
+        let title: string;
+        if (own) {
+            prices = assets.unitPriceHistory(own.asset).map(p => p.priceUsd);
+            change = prices.length > 1 ? (prices[prices.length - 1] / prices[prices.length - 2] - 1) * 100 : undefined;
+            title = `${own.cls.name}: unit price from ${own.asset.name} valuations`;
         } else {
-            throw new Error("No image data returned from model.");
+            const points = market.getSeries(symbol);
+            const last = points[points.length - 1];
+            prices = points.map(q => q.price);
+            change = last?.change24hPct ?? (points.length > 1 ? (last.price / points[0].price - 1) * 100 : undefined);
+            stale = !last || now - last.at > marketFeed.staleAfterMs;
+            title = last ? `${last.source} · ${Math.round((now - last.at) / 1000)}s ago` : 'no quote yet';
         }
+        return tickerItemHtml({ symbol, prices, change, stale, title, registry: !!own });
+    }).join('');
+}
+
+function tickerItemHtml({ symbol, prices, change, stale, title, registry }: { symbol: string, prices: number[], change?: number, stale: boolean, title: string, registry: boolean }) {
+    const price = prices[prices.length - 1];
+    const trend = prices.length > 1 && prices[prices.length - 1] < prices[0] ? 'down-trend' : '';
+    return `
+        <div class="ticker-item ${stale ? 'stale' : ''} ${trend}" title="${escapeHtml(title)}">
+            <span class="symbol">${escapeHtml(symbol)}${registry ? '<span class="registry-tag"> VAL</span>' : ''}</span>
+            <span class="quote">
+                <span>${price !== undefined ? `$${formatPrice(price)}` : '—'}</span>
+                ${change !== undefined ? `<small class="${change >= 0 ? 'up' : 'down'}">${change >= 0 ? '▲' : '▼'} ${Math.abs(change).toFixed(2)}%</small>` : '<small>&nbsp;</small>'}
+            </span>
+            ${sparkline(prices)}
+        </div>`;
+}
+
+function renderFeedStatus(status: FeedStatus, detail?: string) {
+    if (!marketFeedStatus) return;
+    marketFeedStatus.textContent = `${marketFeed.name.toUpperCase()} ${status === 'live' ? '● LIVE' : status === 'connecting' ? '○ CONNECTING' : '✖ OFFLINE'}`;
+    marketFeedStatus.className = `feed-status ${status}`;
+    marketFeedStatus.title = detail || '';
+}
 
+/** (Re)subscribes the feed to the watchlist's market symbols. */
+function startMarketFeed() {
+    stopMarketFeed?.();
+    stopMarketFeed = null;
+    const symbols = market.getWatchlist().filter(s => !assets.findBySymbol(s));
+    if (!symbols.length) return renderFeedStatus('disconnected', 'no market symbols on the watchlist');
+    stopMarketFeed = marketFeed.connect(symbols, {
+        onQuote: (quote: MarketQuote) => {
+            market.recordQuote(quote);
+            renderMarketWatch();
+        },
+        onStatus: renderFeedStatus
+    });
+}
+
+document.getElementById('btn-edit-watchlist')?.addEventListener('click', () => {
+    watchlistEditor.value = JSON.stringify(market.getWatchlist(), null, 2);
+    if (watchlistErrors) watchlistErrors.innerHTML = '';
+    watchlistModal.showModal();
+});
+
+document.getElementById('btn-watchlist-defaults')?.addEventListener('click', () => {
+    watchlistEditor.value = JSON.stringify(market.DEFAULT_WATCHLIST, null, 2);
+});
+
+document.getElementById('close-watchlist-btn')?.addEventListener('click', () => watchlistModal.close());
+
+document.getElementById('btn-save-watchlist')?.addEventListener('click', () => {
+    let next: unknown;
+    try {
+        next = JSON.parse(watchlistEditor.value);
     } catch (e: any) {
-        console.error("Nano Studio Error:", e);
-        if (nanoStatusMsg) nanoStatusMsg.textContent = "STABILIZATION FAILED.";
-        if (nanoCanvas) nanoCanvas.innerHTML += `<p style="color:red; font-size:0.8rem;">Error: ${e.message}</p>`;
-        
-        // Handle billing/API key error as per instructions
-        if (e.message?.includes("Requested entity was not found")) {
-            await (window as any).aistudio.openSelectKey();
-        }
+        if (watchlistErrors) watchlistErrors.innerHTML = `<li>Invalid JSON: ${escapeHtml(e.message)}</li>`;
+        return;
     }
+    const errors = market.validateWatchlist(next);
+    if (watchlistErrors) watchlistErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+    if (errors.length) return;
+    market.saveWatchlist(next as string[]);
+    watchlistModal.close();
+    startMarketFeed();
+    renderMarketWatch();
+    setStatus("Watchlist Saved", "success");
+});
 
-    setStatus("Studio Idle", "idle");
+// Quotes re-render on arrival; the timer only ages them into the stale state.
+setInterval(renderMarketWatch, 5000);
+startMarketFeed();
+renderMarketWatch();
+leadStore.reconcileStages();
+renderPipeline();
+renderDeployments();
+renderActiveFile();
+
+/**
+ * HISTORY: Append-only run log browser
+ */
+async function filteredHistory(): Promise<RunLogEntry[]> {
+    const view = historyViewFilter?.value;
+    const kind = historyKindFilter?.value;
+    const query = historySearch?.value.trim().toLowerCase();
+    const entries = await runLog.listEntries();
+    return entries.filter(e =>
+        (!view || e.view === view) &&
+        (!kind || e.kind === kind) &&
+        (!query || JSON.stringify([e.request, e.prompts, e.response?.text, e.event, e.data, e.error, e.model]).toLowerCase().includes(query))
+    );
+}
+
+function renderHistoryEntry(e: RunLogEntry): string {
+    const title = e.kind === 'model' ? `${e.model}${e.stream ? ' (stream)' : ''}` : e.event;
+    const preview = (e.error || e.response?.text || JSON.stringify(e.data) || '').slice(0, 140);
+    const images = (e.response?.parts as ModelPart[] | undefined || []).filter(p => p.inlineData)
+        .map(p => `<img src="${imageSrc(p.inlineData!)}" alt="Generated image #${e.seq}" />`).join('');
+    const pre = (label: string, value: unknown) => value === undefined ? '' :
+        `<div class="history-field"><span>${label}</span><pre>${escapeHtml(typeof value === 'string' ? value : JSON.stringify(value, (k, v) => k === 'data' && typeof v === 'string' && v.length > 200 ? `<${v.length} base64 chars>` : v, 2))}</pre></div>`;
+    return `
+        <details class="history-entry ${e.kind}${e.error ? ' error' : ''}">
+            <summary>
+                <span class="history-seq">#${e.seq}</span>
+                <span>${new Date(e.at).toLocaleString()}</span>
+                <span class="history-view">${escapeHtml(e.view)}</span>
+                <span class="history-title">${escapeHtml(title || '')}</span>
+                <span class="history-duration">${e.durationMs} ms</span>
+                <span class="history-preview">${escapeHtml(preview)}</span>
+            </summary>
+            ${pre('Request', e.request)}
+            ${e.prompts?.length ? pre('Prompts', e.prompts.map(p => `${p.id} v${p.version}`).join('\n')) : ''}
+            ${e.error ? pre('Error', e.error) : ''}
+            ${pre('Response', e.response?.text)}
+            ${images ? `<div class="history-images">${images}</div>` : ''}
+            ${pre('Data', e.data)}
+            ${pre('Context', { ...e.context, runId: e.runId })}
+            ${pre('Hash', `${e.hash}\nprev ${e.prevHash}`)}
+        </details>`;
+}
+
+async function renderHistory() {
+    if (!historyList) return;
+    const entries = await filteredHistory();
+    if (historyCount) historyCount.textContent = `${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`;
+    historyList.innerHTML = entries.length
+        ? entries.slice().reverse().map(renderHistoryEntry).join('')
+        : '<div class="history-empty">No runs recorded yet.</div>';
 }
 
+[historyViewFilter, historyKindFilter].forEach(el => el?.addEventListener('change', () => void renderHistory()));
+historySearch?.addEventListener('input', () => void renderHistory());
+
+document.getElementById('btn-export-history')?.addEventListener('click', async () => {
+    const entries = await filteredHistory();
+    const url = URL.createObjectURL(new Blob([runLog.toJsonl(entries)], { type: 'application/x-ndjson' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `nimbus-run-log-${new Date().toISOString().slice(0, 10)}.jsonl`;
+    a.click();
+    URL.revokeObjectURL(url);
+});
+
+document.getElementById('btn-verify-history')?.addEventListener('click', async () => {
+    const result = await runLog.verifyChain();
+    if (result.ok) setStatus(`Run Log Intact: ${result.checked} Entries Verified`, "success");
+    else setStatus(`Run Log Tampered: Chain Breaks at Entry #${result.brokenAt}`, "error");
+});
 
 /**
- * MARKET WATCH: Simulated Ticker
+ * HISTORY: Injection corpus run against every view's renderers
  */
-function updateMarketWatch() {
-    const ticker = document.getElementById('market-ticker');
-    if (!ticker) return;
+/** Each renderer that puts model output or stored records into the DOM, fed one payload in every field. */
+function renderSurfaces(): Record<string, RenderSurface> {
+    const at = new Date().toISOString();
+    const png = { mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+    const lead = (p: string): Lead => ({ id: 'lead_check', company: p, value: p, status: p, tags: [p, 'ok'], industry: p, owner: p, notes: p, source: 'ai', createdAt: at, updatedAt: at, history: [] });
+    const variant = (p: string): ChannelVariant => ({ id: 'var_check', label: p, angle: p, headline: `${p} headline`, segments: [p, `Intro ${p} outro`], issues: [p] });
+    const finding = (p: string): ClaimFinding => ({
+        id: 'clm_check', rule: 'banned-term', label: p, message: p, channel: 'blog', variantId: 'var_check',
+        segment: 1, start: 6, end: 6 + p.length, excerpt: p, status: 'open'
+    });
+    const asset = (p: string): TokenizedAsset => ({
+        id: 'ast_check', name: p, category: 'other', issuer: p, description: p, jurisdiction: p, status: 'draft',
+        valuations: [{ at, valueUsd: 1, method: 'appraisal', source: p }], shareClasses: [], compliance: compliance.DEFAULT_RULES, createdAt: at,
+        deployment: { deploymentId: p, contractAddress: p, chainId: 1, at }
+    });
+    const campaign = (p: string): Campaign => ({
+        id: 'cmp_check', createdAt: at, updatedAt: at, phase: { id: p, title: p, description: p }, feature: p, topic: p, status: p as Campaign['status'],
+        research: p, citations: [], channels: [{ channel: 'blog', variants: [variant(p)] }], reviews: [{ at, action: p as 'approved', note: p }], findings: [finding(p)]
+    });
+    return {
+        'terminal: narrative log': p => renderMarkdown(p),
+        'terminal: roadmap phase': p => roadmapPhaseHtml({
+            id: p, title: p, description: p, infrastructure: p, acceptance: [{ path: p, op: 'eq', value: p, message: p }],
+            maxIterations: 1, status: p as 'active', iterations: 1, lastEvaluation: { at, iteration: 0, met: [p], unmet: [] }
+        }, true),
+        'sidebar: market watch': p => tickerItemHtml({ symbol: p, prices: [2, 1], change: -50, stale: true, title: p, registry: true }),
+        'crm: lead card': p => leadCardHtml(lead(p)),
+        'crm: deal analysis': p => renderMarkdown(p),
+        'crm: lead history': p => leadHistoryHtml({ ...lead(p), history: [{ at: p, type: 'note', actor: p, message: p }] }),
+        'crm: sandbox asset': p => sandboxHtml({ id: p, leadId: p, name: p, symbol: p, totalSupply: 1, valuationUsd: 1, address: p, holders: { [p]: 1 }, createdAt: at, expiresAt: p }),
+        'crm: outbox entry': p => outboxItemHtml({ id: 'mail_check', leadId: 'lead_check', templateId: p, from: p, to: p, subject: p, body: p, status: 'failed', createdAt: at, error: p }),
+        'ide: compiler diagnostic': p => diagnosticLogHtml({ file: p, line: 1, column: 1, severity: 'error', message: p }),
+        'ide: SecOps finding': p => findingLogHtml({ ruleId: p, severity: 'high', title: p, message: p, recommendation: p, contract: p, function: p, line: 1, column: 1 }),
+        'ide: Copilot question': p => copilotMessageHtml({ id: 'chat_check', at, role: 'user', text: p, path: p }),
+        'ide: Copilot reply': p => copilotMessageHtml({ id: 'chat_check', at, role: 'model', text: p, error: p }),
+        'ide: diff review': p => diffRows('+', 'add', [p]),
+        'deploy: deployment row': p => `<table>${deploymentRowHtml({ id: 'dep_check', createdAt: at, buildId: p, contractName: p, network: p, rpcUrl: p, status: 'failed', error: p })}</table>`,
+        'assets: asset summary': p => assetSummaryHtml(asset(p), false),
+        'assets: investor registry': p => investorsHtml(asset(p), [{ id: p, name: p, kind: 'individual', jurisdiction: p, kycStatus: 'verified', kycExpiresAt: p, accredited: false, createdAt: at }]),
+        'assets: compliance summary': p => complianceHtml(asset(p), {
+            assetId: p, generatedAt: at, rules: compliance.DEFAULT_RULES, attempts: 1, rejected: 1, byRule: { [p]: 1 }, violations: [],
+            ineligibleHolders: [{ holderId: p, name: p, units: 1, violations: [{ rule: p as 'kyc', message: p }] }]
+        }),
+        'marketing: campaign summary': p => campaignSummaryHtml(campaign(p), true, [p]),
+        'marketing: brand-safety findings': p => findingsHtml({ ...campaign(p), status: 'draft', findings: [{ ...finding(p), status: p as 'open' }, finding(p)] }),
+        'marketing: A/B variant': p => variantCardHtml({ findings: [finding(p)] } as Campaign, { channel: 'blog', variants: [variant(p)] }, variant(p), true),
+        'marketing: citation': p => citationHtml({ uri: p, title: p }),
+        'nano: gallery version': p => renderNanoNode({ image: { id: 'img_check', createdAt: at, prompt: p, model: p, aspectRatio: p, feature: p, ...png }, children: [] }),
+        'history: run log entry': p => renderHistoryEntry({
+            seq: 1, at, kind: 'model', view: p, durationMs: 1, model: p, request: p, response: { text: p, parts: [{ inlineData: png }] },
+            error: p, event: p, data: p, context: { feature: p, userCount: 1, infrastructure: p }, prevHash: p, hash: p
+        }),
+        'usage: usage table': p => usageRows([[p, usage.totals([])]], p),
+        'usage: budget bar': p => budgetHtml({ budget: { id: p, period: p as 'day', limitUsd: 1, enforcement: p as 'hard' }, spentUsd: 2, exceeded: true })
+    };
+}
 
-    const cryptos = [
-        { sym: "BTC", price: 90000 + Math.random() * 500, change: (Math.random() - 0.4) * 2 },
-        { sym: "ETH", price: 3000 + Math.random() * 50, change: (Math.random() - 0.4) * 3 },
-        { sym: "SOL", price: 140 + Math.random() * 5, change: (Math.random() - 0.4) * 5 },
-        { sym: "ADK", price: 1.25 + Math.random() * 0.1, change: (Math.random()) * 10 }
-    ];
+/** Runs the corpus against every view; `npm run check:rendering` calls this headless. */
+export async function checkRendering(): Promise<CorpusResult> {
+    const views = Array.from(document.querySelectorAll<HTMLElement>('.nav-btn[data-view]'), b => b.dataset.view!);
+    return runInjectionCorpus(renderSurfaces(), views);
+}
 
-    ticker.innerHTML = cryptos.map(c => `
-        <div class="ticker-item">
-            <span>${c.sym}</span>
-            <span class="${c.change >= 0 ? 'up' : 'down'}">
-                ${c.change >= 0 ? '▲' : '▼'} ${Math.abs(c.change).toFixed(2)}%
-            </span>
-        </div>
-    `).join('');
+document.getElementById('btn-check-rendering')?.addEventListener('click', async () => {
+    const result = await checkRendering();
+    logEvent('render-check', result);
+    const [first] = result.failures;
+    if (result.uncovered.length) setStatus(`Rendering Check: No Renderer Registered For ${result.uncovered.join(', ')}`, "error");
+    else if (first) setStatus(`Rendering Check Failed: ${result.failures.length} Unsafe Render(s), e.g. ${first.surface} × ${first.payloadId}: ${first.problems[0]}`, "error");
+    else setStatus(`Rendering Safe: ${INJECTION_PAYLOADS.length} Payloads × ${result.checked / INJECTION_PAYLOADS.length} Renderers`, "success");
+});
+
+/**
+ * USAGE: Metering dashboard, price table and budgets
+ */
+const usageRange = document.getElementById('usage-range') as HTMLSelectElement;
+const usageSummary = document.getElementById('usage-summary');
+const usageBudgets = document.getElementById('usage-budgets');
+const usageModal = document.getElementById('usage-modal') as HTMLDialogElement;
+const usageEditor = document.getElementById('usage-editor') as HTMLTextAreaElement;
+const usageErrors = document.getElementById('usage-errors');
+/** Status to show when the loop reports the pause a hard budget asked for. */
+let budgetPause: string | null = null;
+
+function onBudgetSpent(state: BudgetState, refused: boolean) {
+    const { budget } = state;
+    logEvent('budget', { budget: budget.id, period: budget.period, enforcement: budget.enforcement, limitUsd: budget.limitUsd, spentUsd: state.spentUsd, refused });
+    if (budget.enforcement === 'soft') {
+        setStatus(`Budget "${budget.id}" Spent ($${state.spentUsd.toFixed(2)}): Switching To Cheaper Models`, "error");
+    } else if (loop.isLoopActive()) {
+        budgetPause = `Loop Paused: Budget "${budget.id}" Spent ($${state.spentUsd.toFixed(2)} of $${budget.limitUsd.toFixed(2)})`;
+        loop.pauseLoop();
+    } else if (refused) {
+        setStatus(`Budget "${budget.id}" Spent: Agent Calls Refused`, "error");
+    }
+    if (currentView === 'usage') void renderUsage();
+}
+
+function formatCost(n: number) {
+    return `$${n > 0 && n < 0.01 ? n.toFixed(4) : n.toFixed(2)}`;
+}
+
+function usageRows(rows: [string, usage.UsageTotals][], label: string) {
+    return `<thead><tr><th>${escapeHtml(label)}</th><th>CALLS</th><th>TOKENS IN</th><th>TOKENS OUT</th><th>IMAGES</th><th>SEARCHES</th><th>AVG LATENCY</th><th>COST</th></tr></thead>
+        <tbody>${rows.map(([key, t]) => `<tr>
+            <td>${escapeHtml(key)}${t.errors ? ` <span class="usage-flag" title="Failed calls">${t.errors}✖</span>` : ''}${t.downgraded ? ` <span class="usage-flag" title="Calls downgraded by a soft budget">${t.downgraded}↓</span>` : ''}</td>
+            <td>${t.calls}</td><td>${t.inputTokens.toLocaleString()}</td><td>${t.outputTokens.toLocaleString()}</td>
+            <td>${t.images}</td><td>${t.groundedSearches}</td><td>${Math.round(t.latencyMs / t.calls).toLocaleString()} ms</td><td>${formatCost(t.costUsd)}</td>
+        </tr>`).join('') || '<tr><td colspan="8" class="placeholder-text">No calls in this range.</td></tr>'}</tbody>`;
+}
+
+function budgetHtml({ budget, spentUsd, exceeded }: BudgetState) {
+    return `
+            <div class="usage-budget ${escapeHtml(budget.enforcement)}${exceeded ? ' exceeded' : ''}">
+                <div class="usage-budget-label">
+                    <span>${escapeHtml(budget.id)} · ${escapeHtml(budget.period)} · ${budget.enforcement === 'hard' ? 'refuse & pause' : 'downgrade'}</span>
+                    <span>${formatCost(spentUsd)} / ${formatCost(budget.limitUsd)}</span>
+                </div>
+                <div class="usage-budget-bar"><div style="width:${Math.min(100, budget.limitUsd ? spentUsd / budget.limitUsd * 100 : 100)}%"></div></div>
+            </div>`;
+}
+
+async function renderUsage() {
+    const all = await usage.listUsage();
+    const days = Number(usageRange?.value || 0);
+    const today = new Date();
+    const since = days ? new Date(today.getFullYear(), today.getMonth(), today.getDate() - days + 1).toISOString() : '';
+    const list = all.filter(r => r.at >= since);
+    const t = usage.totals(list);
+
+    if (usageSummary) {
+        usageSummary.textContent = `${t.calls} call(s) · ${formatCost(t.costUsd)} · ${t.inputTokens.toLocaleString()} in / ${t.outputTokens.toLocaleString()} out tokens · ${t.images} image(s) · ${t.groundedSearches} search(es)`
+            + (t.estimated ? ` · ${t.estimated} estimated from text length` : '');
+    }
+
+    // Loop budgets are shown for the latest run, whether or not it is still going.
+    const cp = loop.getCheckpoint();
+    const states = usage.budgetStates({ view: currentView, runId: cp?.runId, iteration: cp?.iteration });
+    if (usageBudgets) {
+        usageBudgets.innerHTML = states.map(budgetHtml).join('') || '<p class="placeholder-text">No budgets configured.</p>';
+    }
+
+    const table = (id: string, html: string) => {
+        const el = document.getElementById(id);
+        if (el) el.innerHTML = html;
+    };
+    table('usage-by-view', usageRows(usage.groupBy(list, r => r.view), 'VIEW'));
+    table('usage-by-model', usageRows(usage.groupBy(list, r => r.model), 'MODEL'));
+
+    // Latest iterations first.
+    const iterationKey = (r: UsageRecord) => r.runId ? `${r.runId} · iter ${(r.iteration ?? 0) + 1}` : undefined;
+    const byIteration = new Map(usage.groupBy(list, iterationKey));
+    const recentKeys = [...new Set(list.slice().reverse().map(iterationKey).filter((k): k is string => !!k))].slice(0, 20);
+    table('usage-by-iteration', usageRows(recentKeys.map(k => [k, byIteration.get(k)!]), 'LOOP ITERATION'));
+
+    table('usage-recent', `<thead><tr><th>TIME</th><th>VIEW</th><th>MODEL</th><th>TOKENS IN</th><th>TOKENS OUT</th><th>IMAGES</th><th>LATENCY</th><th>COST</th></tr></thead>
+        <tbody>${list.slice(-25).reverse().map(r => `<tr class="${r.error ? 'failed' : ''}" title="${escapeHtml(r.error || '')}">
+            <td>${new Date(r.at).toLocaleTimeString()}</td><td>${escapeHtml(r.view)}</td>
+            <td>${escapeHtml(r.model)}${r.requestedModel ? ` <span class="usage-flag" title="Downgraded from ${escapeHtml(r.requestedModel)}">↓</span>` : ''}</td>
+            <td>${r.inputTokens.toLocaleString()}${r.estimated ? '~' : ''}</td><td>${(r.outputTokens + r.thoughtTokens).toLocaleString()}${r.estimated ? '~' : ''}</td>
+            <td>${r.images}</td><td>${r.latencyMs.toLocaleString()} ms</td><td>${formatCost(r.costUsd)}</td>
+        </tr>`).join('')}</tbody>`);
+}
+
+usageRange?.addEventListener('change', () => void renderUsage());
+
+document.getElementById('btn-export-usage')?.addEventListener('click', async () => {
+    downloadBlob(new Blob([usage.toCsv(await usage.listUsage())], { type: 'text/csv' }), `nimbus-usage-${new Date().toISOString().slice(0, 10)}.csv`);
+});
+
+function showUsageErrors(errors: string[]) {
+    if (usageErrors) usageErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+}
+
+document.getElementById('btn-edit-usage')?.addEventListener('click', () => {
+    usageEditor.value = JSON.stringify(usage.getSettings(), null, 2);
+    showUsageErrors([]);
+    usageModal.showModal();
+});
+
+document.getElementById('btn-usage-defaults')?.addEventListener('click', () => {
+    usageEditor.value = JSON.stringify(usage.DEFAULT_SETTINGS, null, 2);
+});
+
+document.getElementById('close-usage-btn')?.addEventListener('click', () => usageModal.close());
+
+document.getElementById('btn-save-usage')?.addEventListener('click', () => {
+    let next: unknown;
+    try {
+        next = JSON.parse(usageEditor.value);
+    } catch (e: any) {
+        return showUsageErrors([`Invalid JSON: ${e.message}`]);
+    }
+    const errors = usage.validateSettings(next);
+    if (errors.length) return showUsageErrors(errors);
+    usage.saveSettings(next as UsageSettings);
+    usageModal.close();
+    void renderUsage();
+    setStatus("Prices & Budgets Saved", "success");
+});
+
+/**
+ * ROADMAP: Phase strip and editor
+ */
+function roadmapPhaseHtml(p: RoadmapPhase, current: boolean) {
+    const criteria = p.acceptance.map(c => {
+        const met = p.lastEvaluation?.met.includes(describeCondition(c));
+        return `${p.lastEvaluation ? (met ? '✔' : '✖') : '·'} ${describeCondition(c)}`;
+    }).join('\n');
+    return `
+            <div class="roadmap-phase ${escapeHtml(p.status)}${current ? ' current' : ''}" title="${escapeHtml(`${p.description}\n\n${criteria}`)}">
+                <span class="roadmap-phase-status">${escapeHtml(p.status.toUpperCase())}${p.iterations ? ` ${p.iterations}/${p.maxIterations}` : ''}</span>
+                <span class="roadmap-phase-title">${escapeHtml(p.title)}</span>
+                <span class="roadmap-phase-infra">${escapeHtml(p.infrastructure)}</span>
+            </div>`;
+}
+
+function renderRoadmap() {
+    if (!roadmapStrip) return;
+    const active = roadmap.activePhase();
+    roadmapStrip.innerHTML = roadmap.getRoadmap().map(p => roadmapPhaseHtml(p, p === active)).join('') + '<button class="cyber-btn-small secondary" id="btn-edit-roadmap">EDIT ROADMAP</button>';
+
+    document.getElementById('btn-edit-roadmap')?.addEventListener('click', () => {
+        roadmapEditor.value = JSON.stringify(roadmap.getRoadmap(), null, 2);
+        showRoadmapErrors([]);
+        roadmapModal.showModal();
+    });
+}
+
+function showRoadmapErrors(errors: string[]) {
+    if (roadmapErrors) roadmapErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+}
+
+document.getElementById('btn-roadmap-defaults')?.addEventListener('click', () => {
+    roadmapEditor.value = JSON.stringify(roadmap.defaultRoadmap(), null, 2);
+});
+
+document.getElementById('close-roadmap-btn')?.addEventListener('click', () => roadmapModal.close());
+
+document.getElementById('btn-save-roadmap')?.addEventListener('click', () => {
+    let next: unknown;
+    try {
+        next = JSON.parse(roadmapEditor.value);
+    } catch (e: any) {
+        return showRoadmapErrors([`Invalid JSON: ${e.message}`]);
+    }
+    const errors = roadmap.validateRoadmap(next);
+    if (errors.length) return showRoadmapErrors(errors);
+
+    roadmap.saveRoadmap(next as RoadmapPhase[]);
+    loopContext = deriveLoopContext();
+    renderRoadmap();
+    roadmapModal.close();
+    setStatus(`Roadmap Saved. Active Phase: ${loopContext.feature}`, "success");
+});
+
+/**
+ * LOOP: Stage, gate and retry configuration
+ */
+function showLoopErrors(errors: string[]) {
+    if (loopErrors) loopErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+}
+
+document.getElementById('btn-edit-loop')?.addEventListener('click', () => {
+    loopEditor.value = JSON.stringify(loop.getLoopConfig(), null, 2);
+    showLoopErrors([]);
+    loopModal.showModal();
+});
+
+document.getElementById('btn-loop-defaults')?.addEventListener('click', () => {
+    loopEditor.value = JSON.stringify(loop.DEFAULT_LOOP_CONFIG, null, 2);
+});
+
+document.getElementById('btn-loop-reset')?.addEventListener('click', () => {
+    if (loop.isLoopActive()) return showLoopErrors(['Pause the loop before discarding its checkpoint.']);
+    loop.resetLoop();
+    renderLoopControls();
+    showLoopErrors([]);
+    setStatus("Loop Checkpoint Discarded", "idle");
+});
+
+document.getElementById('close-loop-btn')?.addEventListener('click', () => loopModal.close());
+
+document.getElementById('btn-save-loop')?.addEventListener('click', () => {
+    let next: unknown;
+    try {
+        next = JSON.parse(loopEditor.value);
+    } catch (e: any) {
+        return showLoopErrors([`Invalid JSON: ${e.message}`]);
+    }
+    const errors = loop.validateLoopConfig(next);
+    if (errors.length) return showLoopErrors(errors);
+
+    loop.saveLoopConfig(next as LoopConfig);
+    renderLoopControls();
+    loopModal.close();
+    setStatus("Loop Configuration Saved", "success");
+});
+
+/**
+ * PROMPTS: Versioned template registry
+ */
+function selectedPromptId() {
+    return promptTemplateSelect.value as prompts.PromptId;
+}
+
+function showPromptErrors(errors: string[]) {
+    if (promptErrors) promptErrors.innerHTML = errors.map(e => `<li>${escapeHtml(e)}</li>`).join('');
+}
+
+/** Shows a template with the chosen version (default: the one in use) in the editor. */
+function renderPromptTemplate(version?: number) {
+    const id = selectedPromptId();
+    const template = prompts.listTemplates().find(t => t.id === id)!;
+    const versions = prompts.listVersions(id);
+    const active = versions[versions.length - 1];
+    const shown = versions.find(v => v.version === version) ?? active;
+
+    promptVersionSelect.innerHTML = versions.slice().reverse().map(v => `<option value="${v.version}" ${v === shown ? 'selected' : ''}>
+        v${v.version}${v.builtIn ? ' · built-in' : ` · ${new Date(v.savedAt!).toLocaleString()}`}${v === active ? ' (in use)' : ''}
+    </option>`).join('');
+    if (promptTemplateDesc) promptTemplateDesc.textContent = template.description;
+    if (promptVariables) promptVariables.innerHTML = Object.entries(template.variables).map(([name, v]) => `<tr>
+        <td><code>{{${name}}}</code></td><td>${v.type}${v.optional ? ', optional' : ''}</td><td>${escapeHtml(v.description)}</td>
+    </tr>`).join('');
+    promptEditor.value = shown.body;
+    if (promptDiff) promptDiff.hidden = true;
+    showPromptErrors([]);
+}
+
+function renderPromptDiff() {
+    if (!promptDiff) return;
+    const active = prompts.activeVersion(selectedPromptId());
+    const hunks = diffLines(active.body, promptEditor.value);
+    promptDiff.hidden = false;
+    promptDiff.innerHTML = hunks.length ? hunks.map(h => `
+        <div class="diff-hunk">
+            <div class="diff-hunk-header">@@ -${h.oldStart + 1},${h.removed.length} +${h.newStart + 1},${h.added.length} @@ v${active.version} → editor</div>
+            ${diffRows(' ', 'ctx', h.before)}${diffRows('-', 'del', h.removed)}${diffRows('+', 'add', h.added)}${diffRows(' ', 'ctx', h.after)}
+        </div>`).join('') : `<p class="placeholder-text">Same as v${active.version}, the version in use.</p>`;
+}
+
+document.getElementById('btn-edit-prompts')?.addEventListener('click', () => {
+    promptTemplateSelect.innerHTML = prompts.listTemplates().map(t =>
+        `<option value="${t.id}">${escapeHtml(t.title)} (${t.id})</option>`).join('');
+    renderPromptTemplate();
+    promptsModal.showModal();
+});
+
+promptTemplateSelect?.addEventListener('change', () => renderPromptTemplate());
+promptVersionSelect?.addEventListener('change', () => renderPromptTemplate(Number(promptVersionSelect.value)));
+promptEditor?.addEventListener('input', () => {
+    if (promptDiff && !promptDiff.hidden) renderPromptDiff();
+});
+
+document.getElementById('btn-prompt-diff')?.addEventListener('click', () => {
+    if (promptDiff && !promptDiff.hidden) promptDiff.hidden = true;
+    else renderPromptDiff();
+});
+
+document.getElementById('btn-prompt-defaults')?.addEventListener('click', () => {
+    promptEditor.value = prompts.listVersions(selectedPromptId()).find(v => v.builtIn)!.body;
+    if (promptDiff && !promptDiff.hidden) renderPromptDiff();
+});
+
+document.getElementById('close-prompts-btn')?.addEventListener('click', () => promptsModal.close());
+
+document.getElementById('btn-save-prompt')?.addEventListener('click', () => {
+    const errors = prompts.validateBody(selectedPromptId(), promptEditor.value);
+    if (errors.length) return showPromptErrors(errors);
+    try {
+        const saved = prompts.saveVersion(selectedPromptId(), promptEditor.value);
+        renderPromptTemplate(saved.version);
+        setStatus(`Prompt ${selectedPromptId()} v${saved.version} Saved`, "success");
+    } catch (e: any) {
+        showPromptErrors([e.message]);
+    }
+});
+
+/**
+ * API: Model API access token and session
+ */
+const apiModal = document.getElementById('api-modal') as HTMLDialogElement;
+const apiSession = document.getElementById('api-session');
+const apiTokenInput = document.getElementById('api-token-input') as HTMLInputElement;
+const apiErrors = document.getElementById('api-errors');
+
+function renderApiSession(session: ApiSession | null, error?: string) {
+    if (apiSession) apiSession.innerHTML = session ? `
+        <dt>SIGNED IN AS</dt><dd>${escapeHtml(session.user)}</dd>
+        <dt>BACKEND</dt><dd>${escapeHtml(session.backend)}</dd>
+        <dt>REQUESTS LEFT</dt><dd>${session.requests.remaining} / ${session.requests.limit} per minute</dd>
+        <dt>IMAGES LEFT</dt><dd>${session.images.remaining} / ${session.images.limit} per minute</dd>`
+        : '<dt>SIGNED IN AS</dt><dd>Nobody</dd>';
+    if (apiErrors) apiErrors.innerHTML = error ? `<li>${escapeHtml(error)}</li>` : '';
+}
+
+/** Opens the access dialog, e.g. after the server rejected the token. */
+async function openApiAccess(reason?: string) {
+    apiTokenInput.value = '';
+    renderApiSession(null, reason);
+    if (!apiModal.open) apiModal.showModal();
+    if (reason) return;
+    try {
+        renderApiSession(await modelApi.session());
+    } catch (e: any) {
+        renderApiSession(null, e.message);
+    }
 }
 
-setInterval(updateMarketWatch, 5000);
-updateMarketWatch();
+document.getElementById('btn-api-access')?.addEventListener('click', () => void openApiAccess());
+document.getElementById('close-api-btn')?.addEventListener('click', () => apiModal.close());
+
+document.getElementById('btn-api-sign-in')?.addEventListener('click', async () => {
+    const token = apiTokenInput.value.trim();
+    if (!token) return renderApiSession(null, 'Paste an access token first.');
+    const previous = getApiToken();
+    setApiToken(token);
+    try {
+        const session = await modelApi.session();
+        apiTokenInput.value = '';
+        renderApiSession(session);
+        setStatus(`Model API: Signed In As ${session.user}`, "success");
+    } catch (e: any) {
+        setApiToken(previous);
+        renderApiSession(null, e.message);
+    }
+});
+
+document.getElementById('btn-api-sign-out')?.addEventListener('click', () => {
+    setApiToken(undefined);
+    renderApiSession(null);
+    setStatus("Model API: Signed Out", "idle");
+});
 
 infiniteLoopToggle.addEventListener('change', () => {
-    if (infiniteLoopToggle.checked && !isRunning) {
-        generateBtn.click();
+    if (!infiniteLoopToggle.checked) return loop.pauseLoop();
+    if (isRunning) {
+        infiniteLoopToggle.checked = false;
+        return;
     }
-});
\ No newline at end of file
+    const checkpoint = loop.getCheckpoint();
+    if (checkpoint && (checkpoint.status === 'paused' || checkpoint.status === 'halted')) loop.resumeLoop();
+    else loop.startLoop(currentView);
+    renderLoopControls();
+});
+
+renderRoadmap();
+
+// A run that was mid-flight when the page closed picks up from its checkpoint.
+if (loop.getCheckpoint()?.status === 'running') loop.resumeLoop();
+renderLoopControls();
\ No newline at end of file
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import fs from 'fs';
+import hljs from 'highlight.js';
+import javascript from 'highlight.js/lib/languages/javascript';
+import { JSDOM, VirtualConsole } from 'jsdom';
+import { createServer } from 'vite';
+
+/**
+ * Headless injection check: `npm run check:rendering`. Boots the workbench
+ * in jsdom through Vite, so defines and ?raw imports resolve as they do in
+ * the browser, runs the same corpus as INJECTION CHECK in Run History and
+ * exits non-zero on any unsafe render or view without a renderer.
+ */
+
+const dom = new JSDOM(fs.readFileSync('index.html', 'utf8'), {
+    url: 'http://localhost:3000/',
+    pretendToBeVisual: true,
+    // jsdom's "not implemented" notices (canvas, media) are not findings.
+    virtualConsole: new VirtualConsole()
+});
+// The app and DOMPurify expect browser globals; take the ones Node lacks from the window.
+for (const key of Object.getOwnPropertyNames(dom.window)) {
+    if (!(key in globalThis)) Object.defineProperty(globalThis, key, { value: (dom.window as any)[key], configurable: true, writable: true });
+}
+
+// highlight.js ships no Solidity grammar and logs a warning per code block
+// without one; Vite loads the app against this same instance, so a stand-in
+// keeps the output to findings.
+if (!hljs.getLanguage('solidity')) hljs.registerLanguage('solidity', javascript);
+
+const vite = await createServer({ server: { middlewareMode: true, hmr: false }, appType: 'custom', logLevel: 'error' });
+let failed = true;
+try {
+    const app = await vite.ssrLoadModule('/index.tsx');
+    const result = await app.checkRendering();
+    for (const f of result.failures) console.error(`✖ ${f.surface} × ${f.payloadId}: ${f.problems.join('; ')}`);
+    for (const view of result.uncovered) console.error(`✖ ${view}: no renderer registered`);
+    console.log(`${result.checked} render(s) checked: ${result.failures.length} unsafe, ${result.uncovered.length} view(s) uncovered.`);
+    failed = result.failures.length > 0 || result.uncovered.length > 0;
+} finally {
+    await vite.close();
+}
+// The app leaves its market feed and timers running; they are not part of the check.
+process.exit(failed ? 1 : 0);
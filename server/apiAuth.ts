@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import crypto from 'crypto';
+
+export interface ApiUser {
+    name: string;
+    /** SHA-256 of the user's token; the token itself is never kept. */
+    tokenHash: Buffer;
+    /** Requests per minute, across all endpoints. */
+    requestsPerMinute: number;
+    /** Image generations per minute. */
+    imagesPerMinute: number;
+}
+
+export interface RateDefaults {
+    requestsPerMinute: number;
+    imagesPerMinute: number;
+}
+
+function hashToken(token: string): Buffer {
+    return crypto.createHash('sha256').update(token).digest();
+}
+
+/**
+ * Parses API_USERS: comma-separated `name:token[:requests[:images]]`
+ * entries, limits per minute. Throws on a malformed or duplicate entry so
+ * a typo never silently locks a user out.
+ */
+export function parseApiUsers(spec: string | undefined, defaults: RateDefaults): ApiUser[] {
+    const users: ApiUser[] = [];
+    for (const entry of (spec || '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const [name, token, requests, images] = entry.split(':');
+        if (!name || !/^[\w.@-]+$/.test(name)) throw new Error(`API_USERS: "${name}" is not a valid user name.`);
+        if (!token || token.length < 16) throw new Error(`API_USERS: the token for "${name}" must be at least 16 characters.`);
+        if (users.some(u => u.name === name)) throw new Error(`API_USERS: "${name}" is listed twice.`);
+        const limit = (value: string | undefined, fallback: number) => {
+            const n = value === undefined || value === '' ? fallback : Number(value);
+            if (!Number.isInteger(n) || n < 0) throw new Error(`API_USERS: "${value}" is not a valid limit for "${name}".`);
+            return n;
+        };
+        users.push({
+            name,
+            tokenHash: hashToken(token),
+            requestsPerMinute: limit(requests, defaults.requestsPerMinute),
+            imagesPerMinute: limit(images, defaults.imagesPerMinute)
+        });
+    }
+    return users;
+}
+
+/** The user a bearer token belongs to. Compares digests in constant time. */
+export function findUser(users: ApiUser[], token: string): ApiUser | undefined {
+    const hash = hashToken(token);
+    return users.find(u => crypto.timingSafeEqual(u.tokenHash, hash));
+}
+
+// --- RATE LIMITS ---
+
+const WINDOW_MS = 60_000;
+
+export interface RateDecision {
+    allowed: boolean;
+    remaining: number;
+    /** When the oldest counted request leaves the window. */
+    retryAfterMs: number;
+}
+
+export interface RateLimiter {
+    /** Counts a request against `key` if it is under `limit`. */
+    take(key: string, limit: number): RateDecision;
+    remaining(key: string, limit: number): number;
+}
+
+/**
+ * Sliding one-minute window per key. Only allowed requests are counted,
+ * so a client hammering a full window doesn't extend its own lockout.
+ */
+export function createRateLimiter(now: () => number = Date.now): RateLimiter {
+    const windows = new Map<string, number[]>();
+
+    function recent(key: string): number[] {
+        const since = now() - WINDOW_MS;
+        const hits = (windows.get(key) || []).filter(t => t > since);
+        if (hits.length) windows.set(key, hits);
+        else windows.delete(key);
+        return hits;
+    }
+
+    return {
+        take(key: string, limit: number): RateDecision {
+            const hits = recent(key);
+            if (hits.length >= limit) {
+                // A limit of 0 never frees up; report a full window.
+                const freed = limit > 0 ? hits[hits.length - limit] + WINDOW_MS : now() + WINDOW_MS;
+                return { allowed: false, remaining: 0, retryAfterMs: Math.max(0, freed - now()) };
+            }
+            windows.set(key, [...hits, now()]);
+            return { allowed: true, remaining: limit - hits.length - 1, retryAfterMs: 0 };
+        },
+
+        remaining(key: string, limit: number): number {
+            return Math.max(0, limit - recent(key).length);
+        }
+    };
+}
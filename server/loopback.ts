@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage } from 'http';
+
+const LOOPBACK = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+/**
+ * True when a request comes from this machine. The dev server listens on
+ * 0.0.0.0, so endpoints that write files or relay mail check this first.
+ */
+export function isLoopbackRequest(req: IncomingMessage): boolean {
+    return LOOPBACK.includes(req.socket.remoteAddress || '');
+}
+
+/**
+ * False for a request a browser sent on behalf of another site. A page on
+ * any origin can POST to localhost without CORS, so loopback alone does not
+ * mean the workbench sent it. Requests without either header (curl, the
+ * server itself) are not from a browser and pass.
+ */
+export function isSameOriginRequest(req: IncomingMessage): boolean {
+    const site = req.headers['sec-fetch-site'];
+    if (site && site !== 'same-origin' && site !== 'none') return false;
+    const origin = req.headers.origin;
+    if (!origin) return true;
+    try {
+        return new URL(origin).host === req.headers.host;
+    } catch {
+        return false;
+    }
+}
+
+/** A JSON body; cross-site forms and no-cors fetches can only send simple content types. */
+export function isJsonRequest(req: IncomingMessage): boolean {
+    return /^application\/json\s*(;|$)/i.test(req.headers['content-type'] || '');
+}
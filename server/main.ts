@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { loadEnv } from 'vite';
+import { modelApiFromEnv } from './modelApiServer';
+
+/**
+ * Standalone model API server: `npm run server`. Reads the same
+ * .env / .env.local files as the dev server (process environment wins),
+ * serves /api/* and, when a build exists, the workbench from dist/.
+ */
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.wasm': 'application/wasm'
+};
+
+const env = { ...loadEnv(process.env.NODE_ENV || 'production', process.cwd(), ''), ...process.env };
+const { handler, summary } = modelApiFromEnv(env, line => console.log(`[api] ${line}`));
+const dist = path.resolve(process.cwd(), 'dist');
+
+/** A file under dist/, falling back to index.html so the app's own routes load. */
+function serveStatic(url: string, res: http.ServerResponse) {
+    const requested = path.resolve(dist, '.' + decodeURIComponent(new URL(url, 'http://localhost').pathname));
+    const file = requested.startsWith(dist + path.sep) && fs.existsSync(requested) && fs.statSync(requested).isFile()
+        ? requested
+        : path.join(dist, 'index.html');
+    if (!fs.existsSync(file)) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        return res.end('No build found. Run `npm run build`, or use `npm run dev` for the workbench.');
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream' });
+    fs.createReadStream(file).pipe(res);
+}
+
+const port = Number(env.API_PORT || 8787);
+const host = env.API_HOST || '127.0.0.1';
+
+http.createServer((req, res) => {
+    if (req.url?.startsWith('/api/')) return handler(req, res);
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+        res.writeHead(405);
+        return res.end();
+    }
+    serveStatic(req.url || '/', res);
+}).listen(port, host, () => {
+    console.log(`Model API listening on http://${host}:${port} (${summary})`);
+});
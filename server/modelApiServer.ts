@@ -0,0 +1,287 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { IncomingMessage, ServerResponse } from 'http';
+import {
+    API_ROUTES, validateApiRequest,
+    type ApiErrorBody, type ApiSession, type GenerateEndpoint, type ModelApiRequest, type StreamLine
+} from '../services/modelApi';
+import type { ModelProvider, ModelRequest } from '../services/modelProvider';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { createRateLimiter, findUser, parseApiUsers, type ApiUser, type RateDefaults, type RateLimiter } from './apiAuth';
+import { isJsonRequest, isLoopbackRequest, isSameOriginRequest } from './loopback';
+import { createStubBackend } from './stubBackend';
+
+export interface ModelApiOptions {
+    backend: ModelProvider;
+    users: ApiUser[];
+    /**
+     * Serve loopback requests as the `local` user while no users are
+     * configured. Off by default: behind a reverse proxy on the same host,
+     * every request arrives from loopback.
+     */
+    allowLocal?: boolean;
+    /** Limits of the `local` user. */
+    defaults: RateDefaults;
+    /** Models callers may use; empty allows any. */
+    models?: string[];
+    maxBodyBytes?: number;
+    limiter?: RateLimiter;
+    log?: (line: string) => void;
+}
+
+type ApiHandler = (req: IncomingMessage, res: ServerResponse) => void;
+
+class HttpError extends Error {
+    constructor(public readonly status: number, public readonly body: ApiErrorBody) {
+        super(body.message);
+        this.name = 'HttpError';
+    }
+}
+
+const DEFAULT_MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const GENERATE_ROUTES = new Map<string, GenerateEndpoint>(
+    (['text', 'stream', 'json', 'image'] as const).map(endpoint => [API_ROUTES[endpoint], endpoint])
+);
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: HttpError) {
+    const headers: Record<string, string> = error.body.retryAfterMs !== undefined
+        ? { 'Retry-After': String(Math.ceil(error.body.retryAfterMs / 1000)) }
+        : {};
+    sendJson(res, error.status, error.body, headers);
+}
+
+function readBody(req: IncomingMessage, maxBytes: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > maxBytes) {
+                // Drain the rest so the 413 still reaches the client.
+                req.removeAllListeners('data');
+                req.resume();
+                reject(new HttpError(413, { code: 'payload_too_large', message: `Request body exceeds ${maxBytes} bytes.` }));
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        req.on('error', reject);
+    });
+}
+
+/**
+ * The model API: typed generate endpoints (text, stream, json, image) and
+ * a session endpoint, behind per-user bearer tokens and per-user rate
+ * limits. The backend's credentials never leave this process.
+ *
+ * With no users configured every request is refused, unless `allowLocal`
+ * opts in to serving loopback requests as the `local` user.
+ */
+export function createModelApiHandler(options: ModelApiOptions): ApiHandler {
+    const limiter = options.limiter || createRateLimiter();
+    const maxBodyBytes = options.maxBodyBytes ?? DEFAULT_MAX_BODY_BYTES;
+    const log = options.log || (() => {});
+    const localUser = { name: 'local', ...options.defaults };
+
+    function authenticate(req: IncomingMessage): Omit<ApiUser, 'tokenHash'> {
+        if (!options.users.length) {
+            if (options.allowLocal && isLoopbackRequest(req)) return localUser;
+            throw new HttpError(401, {
+                code: 'unauthorized',
+                message: options.allowLocal ? 'No API users are configured; only local requests are accepted.' : 'No API users are configured.'
+            });
+        }
+        const token = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')?.[1];
+        const user = token && findUser(options.users, token);
+        if (!user) throw new HttpError(401, { code: 'unauthorized', message: token ? 'Unknown or revoked access token.' : 'Missing access token.' });
+        return user;
+    }
+
+    /** Counts the request against the user's limits, all or nothing. */
+    function admit(user: Omit<ApiUser, 'tokenHash'>, endpoint: GenerateEndpoint) {
+        const checks: [string, number][] = [[user.name, user.requestsPerMinute]];
+        if (endpoint === 'image') checks.push([`${user.name}:image`, user.imagesPerMinute]);
+        for (const [key, limit] of checks) {
+            if (limiter.remaining(key, limit) > 0) continue;
+            const { retryAfterMs } = limiter.take(key, limit);
+            const what = key.endsWith(':image') ? 'image generations' : 'requests';
+            throw new HttpError(429, { code: 'rate_limited', message: `Rate limit reached: ${limit} ${what} per minute.`, retryAfterMs });
+        }
+        checks.forEach(([key, limit]) => limiter.take(key, limit));
+    }
+
+    async function parseRequest(req: IncomingMessage, endpoint: GenerateEndpoint): Promise<ModelRequest> {
+        let body: unknown;
+        try {
+            body = JSON.parse(await readBody(req, maxBodyBytes));
+        } catch (e) {
+            if (e instanceof HttpError) throw e;
+            throw new HttpError(400, { code: 'invalid_request', message: 'Body is not valid JSON.' });
+        }
+        const problems = validateApiRequest(endpoint, body);
+        const { model, contents, config } = body as ModelApiRequest;
+        if (!problems.length && options.models?.length && !options.models.includes(model)) {
+            problems.push(`${model} is not enabled on this server.`);
+        }
+        if (problems.length) throw new HttpError(400, { code: 'invalid_request', message: problems.join(' ') });
+        return config ? { model, contents, config } : { model, contents };
+    }
+
+    async function stream(res: ServerResponse, request: ModelRequest) {
+        // Stop pulling from the backend once the browser goes away.
+        let closed = false;
+        res.on('close', () => closed = true);
+        let started = false;
+        try {
+            for await (const chunk of options.backend.generateStream(request)) {
+                if (closed) break;
+                if (!started) {
+                    res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+                    started = true;
+                }
+                res.write(JSON.stringify({ chunk } satisfies StreamLine) + '\n');
+            }
+        } catch (e: any) {
+            const error: ApiErrorBody = { code: 'backend_error', message: e?.message || String(e) };
+            if (!started) throw new HttpError(502, error);
+            res.write(JSON.stringify({ error } satisfies StreamLine) + '\n');
+        }
+        if (!started) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+        res.end();
+    }
+
+    async function handle(req: IncomingMessage, res: ServerResponse): Promise<string> {
+        const path = new URL(req.url || '/', 'http://localhost').pathname;
+        const endpoint = GENERATE_ROUTES.get(path);
+        if (path !== API_ROUTES.session && !endpoint) {
+            throw new HttpError(404, { code: 'not_found', message: `No API route ${path}.` });
+        }
+        const method = endpoint ? 'POST' : 'GET';
+        if (req.method !== method) {
+            throw new HttpError(405, { code: 'invalid_request', message: `${path} only accepts ${method}.` });
+        }
+
+        // Without CORS the workbench is the only page that may call the API, and a
+        // JSON content type keeps cross-site no-cors requests out entirely.
+        if (!isSameOriginRequest(req)) {
+            throw new HttpError(403, { code: 'forbidden', message: 'Cross-site requests are not accepted.' });
+        }
+        if (endpoint && !isJsonRequest(req)) {
+            throw new HttpError(415, { code: 'invalid_request', message: 'Requests must be sent as application/json.' });
+        }
+
+        const user = authenticate(req);
+        if (!endpoint) {
+            const session: ApiSession = {
+                user: user.name,
+                backend: options.backend.name,
+                requests: { limit: user.requestsPerMinute, remaining: limiter.remaining(user.name, user.requestsPerMinute) },
+                images: { limit: user.imagesPerMinute, remaining: limiter.remaining(`${user.name}:image`, user.imagesPerMinute) }
+            };
+            sendJson(res, 200, session);
+            return `${user.name} session`;
+        }
+
+        // Malformed requests are refused before they count against the user's limits.
+        const request = await parseRequest(req, endpoint);
+        admit(user, endpoint);
+        if (endpoint === 'stream') {
+            await stream(res, request);
+        } else {
+            try {
+                sendJson(res, 200, await options.backend.generate(request));
+            } catch (e: any) {
+                throw new HttpError(502, { code: 'backend_error', message: e?.message || String(e) });
+            }
+        }
+        return `${user.name} ${endpoint} ${request.model}`;
+    }
+
+    return (req, res) => {
+        const started = Date.now();
+        handle(req, res).then(
+            what => log(`${what} 200 ${Date.now() - started}ms`),
+            (e: unknown) => {
+                const error = e instanceof HttpError
+                    ? e
+                    : new HttpError(500, { code: 'backend_error', message: 'Internal server error.' });
+                if (!(e instanceof HttpError)) console.error('Model API error:', e);
+                if (!res.headersSent) sendError(res, error);
+                else res.end();
+                log(`${req.method} ${req.url} ${error.status} ${error.body.code} ${Date.now() - started}ms`);
+            }
+        );
+    };
+}
+
+// --- CONFIGURATION ---
+
+/** A backend that refuses every call, for a server started without a key. */
+function unconfiguredBackend(reason: string): ModelProvider {
+    return {
+        name: 'unconfigured',
+        async generate() {
+            throw new Error(reason);
+        },
+        async *generateStream() {
+            throw new Error(reason);
+        }
+    };
+}
+
+function positiveInteger(env: Record<string, string | undefined>, name: string, fallback: number): number {
+    const value = env[name];
+    const n = value === undefined || value === '' ? fallback : Number(value);
+    if (!Number.isInteger(n) || n < 1) throw new Error(`${name}: "${value}" is not a positive integer.`);
+    return n;
+}
+
+function flag(env: Record<string, string | undefined>, name: string): boolean {
+    const value = (env[name] || 'false').toLowerCase();
+    if (value !== 'true' && value !== 'false') throw new Error(`${name}: "${env[name]}" must be true or false.`);
+    return value === 'true';
+}
+
+/**
+ * Builds the API handler from environment variables:
+ * API_BACKEND (gemini | stub), GEMINI_API_KEY, API_USERS,
+ * API_ALLOW_LOCAL, API_RATE_LIMIT and API_IMAGE_RATE_LIMIT (per user per
+ * minute) and API_MODELS (comma-separated allowlist). Throws on a bad
+ * value so the server never starts with a limit it can't enforce.
+ */
+export function modelApiFromEnv(env: Record<string, string | undefined>, log?: (line: string) => void): { handler: ApiHandler, summary: string } {
+    const defaults: RateDefaults = {
+        requestsPerMinute: positiveInteger(env, 'API_RATE_LIMIT', 30),
+        imagesPerMinute: positiveInteger(env, 'API_IMAGE_RATE_LIMIT', 6)
+    };
+    const users = parseApiUsers(env.API_USERS, defaults);
+    const allowLocal = flag(env, 'API_ALLOW_LOCAL');
+    const kind = env.API_BACKEND || 'gemini';
+    let backend: ModelProvider;
+    switch (kind) {
+        case 'stub':
+            backend = createStubBackend();
+            break;
+        case 'gemini':
+            backend = env.GEMINI_API_KEY
+                ? createGeminiProvider(env.GEMINI_API_KEY)
+                : unconfiguredBackend('GEMINI_API_KEY is not set on the model API server. Set it, or run with API_BACKEND=stub.');
+            break;
+        default:
+            throw new Error(`Unknown API_BACKEND "${kind}". Expected gemini or stub.`);
+    }
+    const models = (env.API_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+    const access = users.length ? `${users.length} user(s)`
+        : allowLocal ? 'local requests only (API_USERS is empty, API_ALLOW_LOCAL=true)'
+        : 'every request refused (set API_USERS, or API_ALLOW_LOCAL=true for local use)';
+    return { handler: createModelApiHandler({ backend, users, allowLocal, defaults, models, log }), summary: `${backend.name} backend, ${access}` };
+}
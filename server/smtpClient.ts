@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import net from 'net';
+import { isEmailAddress } from '../services/emailAddress';
+
+export interface SmtpEnvelope {
+    from: string;
+    to: string[];
+    /** Full RFC 5322 message, CRLF line endings. */
+    raw: string;
+}
+
+export interface SmtpOptions {
+    host: string;
+    port: number;
+    timeoutMs?: number;
+}
+
+/**
+ * Minimal plain-SMTP client (EHLO → MAIL → RCPT → DATA → QUIT).
+ * No TLS or AUTH: it is meant for a local relay or a stand-in such as
+ * MailHog / smtp4dev on localhost:1025.
+ */
+export function sendSmtp(envelope: SmtpEnvelope, options: SmtpOptions): Promise<string> {
+    // Addresses go straight into MAIL FROM / RCPT TO lines.
+    const bad = [envelope.from, ...envelope.to].find(a => !isEmailAddress(a));
+    if (bad !== undefined || !envelope.to.length) return Promise.reject(new Error(`Invalid envelope address: ${JSON.stringify(bad ?? envelope.to)}`));
+    return new Promise((resolve, reject) => {
+        const socket = net.createConnection(options.port, options.host);
+        socket.setEncoding('utf8');
+        socket.setTimeout(options.timeoutMs ?? 10000, () => fail(new Error('SMTP timeout')));
+
+        let buffer = '';
+        let lastReply = '';
+        const steps: { send?: string, expect: number }[] = [
+            { expect: 220 },
+            { send: 'EHLO nimbus-workbench', expect: 250 },
+            { send: `MAIL FROM:<${envelope.from}>`, expect: 250 },
+            ...envelope.to.map(rcpt => ({ send: `RCPT TO:<${rcpt}>`, expect: 250 })),
+            { send: 'DATA', expect: 354 },
+            { send: `${envelope.raw.replace(/(\r\n)+$/, '').replace(/^\./gm, '..')}\r\n.`, expect: 250 },
+            { send: 'QUIT', expect: 221 }
+        ];
+
+        function fail(err: Error) {
+            socket.destroy();
+            reject(err);
+        }
+
+        function advance() {
+            steps.shift();
+            const next = steps[0];
+            if (!next) {
+                socket.end();
+                return resolve(lastReply);
+            }
+            if (next.send) socket.write(next.send + '\r\n');
+        }
+
+        socket.on('data', (data: string) => {
+            buffer += data;
+            // A reply is complete once a line has a space after the code.
+            const lines = buffer.split('\r\n');
+            const done = lines.findIndex(l => /^\d{3} /.test(l));
+            if (done < 0) return;
+            const reply = lines.slice(0, done + 1).join('\n');
+            buffer = lines.slice(done + 1).join('\r\n');
+
+            const code = parseInt(lines[done].slice(0, 3), 10);
+            const step = steps[0];
+            if (code !== step?.expect) return fail(new Error(`SMTP expected ${step?.expect}, got: ${reply}`));
+            if (step.send?.endsWith('\r\n.')) lastReply = reply;
+            advance();
+        });
+
+        socket.on('error', fail);
+    });
+}
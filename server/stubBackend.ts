@@ -0,0 +1,74 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Type, type Schema } from "@google/genai";
+import { contentsText, type ModelProvider, type ModelRequest, type ModelResponse, type ModelUsage } from '../services/modelProvider';
+
+/** 1×1 transparent PNG. */
+const STUB_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/**
+ * A value that satisfies a responseSchema: the first enum value, or the
+ * smallest string, number or list the schema's limits allow.
+ */
+function sampleFor(schema: Schema | undefined, name = 'value'): unknown {
+    if (schema?.enum?.length) return schema.enum[0];
+    switch (schema?.type) {
+        case Type.OBJECT:
+            return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, prop]) => [key, sampleFor(prop, key)]));
+        case Type.ARRAY: {
+            const count = Math.max(1, Number(schema.minItems || 0));
+            return Array.from({ length: Math.min(count, Number(schema.maxItems || count)) }, () => sampleFor(schema.items, name));
+        }
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return Math.min(schema.minimum ?? 1, schema.maximum ?? Infinity);
+        case Type.BOOLEAN:
+            return true;
+        default: {
+            const min = Number(schema?.minLength || 0);
+            const text = `stub ${name}`.padEnd(min, '.');
+            return schema?.maxLength ? text.slice(0, Number(schema.maxLength)) : text;
+        }
+    }
+}
+
+function estimateUsage(request: ModelRequest, output: string): ModelUsage {
+    return { inputTokens: Math.ceil(contentsText(request.contents).length / 4), outputTokens: Math.ceil(output.length / 4), thoughtTokens: 0 };
+}
+
+function reply(request: ModelRequest): ModelResponse {
+    if (/image/i.test(request.model)) {
+        const text = 'Stub image.';
+        return { text, parts: [{ text }, { inlineData: { data: STUB_PNG, mimeType: 'image/png' } }], usage: estimateUsage(request, text) };
+    }
+    const text = request.config?.responseMimeType === 'application/json'
+        ? JSON.stringify(sampleFor(request.config.responseSchema as Schema | undefined))
+        : `Stub reply from ${request.model}: ${contentsText(request.contents).slice(0, 120)}`;
+    return { text, parts: [{ text }], usage: estimateUsage(request, text) };
+}
+
+/**
+ * STUB: Deterministic offline backend for running the API server in tests
+ * and local development without a key. Text echoes the prompt, JSON mode
+ * returns a minimal value matching the responseSchema, image models
+ * return a 1×1 PNG, and streams split the text reply word by word.
+ */
+export function createStubBackend(): ModelProvider {
+    return {
+        name: 'stub',
+
+        async generate(request) {
+            return reply(request);
+        },
+
+        async *generateStream(request) {
+            const { text, usage } = reply(request);
+            const words = text.match(/\S+\s*/g) || [text];
+            for (const [i, word] of words.entries()) {
+                yield i === words.length - 1 ? { text: word, usage } : { text: word };
+            }
+        }
+    };
+}
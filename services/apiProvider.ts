@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { API_ROUTES, endpointFor, ModelApiError, type ApiErrorBody, type ApiSession, type ModelApiRequest, type StreamLine } from './modelApi';
+import type { ModelProvider, ModelRequest, ModelResponse } from './modelProvider';
+import { loadJSON, saveJSON } from './storage';
+
+const TOKEN_KEY = 'api.token.v1';
+
+export interface ApiProviderOptions {
+    /** Origin of the API server; empty for the page's own origin. */
+    baseUrl?: string;
+    /** The signed-in user's access token, if any. */
+    token: () => string | undefined;
+    /** Called when the server rejects the token, before the error is thrown. */
+    onUnauthorized?: (error: ModelApiError) => void;
+}
+
+/** The access token this browser signs in with, if one was saved. */
+export function getApiToken(): string | undefined {
+    return loadJSON<string>(TOKEN_KEY, '') || undefined;
+}
+
+export function setApiToken(token: string | undefined) {
+    saveJSON(TOKEN_KEY, token || '');
+}
+
+function toApiRequest(request: ModelRequest): ModelApiRequest {
+    const { model, contents, config } = request;
+    return config ? { model, contents, config } : { model, contents };
+}
+
+async function toError(res: Response): Promise<ModelApiError> {
+    const body = await res.json().catch(() => null) as ApiErrorBody | null;
+    return new ModelApiError(
+        res.status,
+        body?.code || 'backend_error',
+        body?.message || `Model API request failed (${res.status} ${res.statusText}).`,
+        body?.retryAfterMs
+    );
+}
+
+/**
+ * API: Calls the model API server instead of a model SDK. The server holds
+ * the Gemini key and applies per-user auth and rate limits; this side only
+ * ever sends the user's access token.
+ */
+export function createApiProvider(options: ApiProviderOptions): ModelProvider & { session(): Promise<ApiSession> } {
+    const baseUrl = (options.baseUrl || '').replace(/\/$/, '');
+
+    async function call(route: string, init: RequestInit = {}): Promise<Response> {
+        const token = options.token();
+        const res = await fetch(baseUrl + route, {
+            ...init,
+            headers: {
+                ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+                ...(token ? { Authorization: `Bearer ${token}` } : {})
+            }
+        });
+        if (res.ok) return res;
+        const error = await toError(res);
+        if (error.status === 401) options.onUnauthorized?.(error);
+        throw error;
+    }
+
+    return {
+        name: 'api',
+
+        async generate(request) {
+            const res = await call(API_ROUTES[endpointFor(request)], { method: 'POST', body: JSON.stringify(toApiRequest(request)) });
+            return await res.json() as ModelResponse;
+        },
+
+        async *generateStream(request) {
+            const res = await call(API_ROUTES.stream, { method: 'POST', body: JSON.stringify(toApiRequest(request)) });
+            if (!res.body) throw new ModelApiError(res.status, 'backend_error', 'The model API returned an empty stream.');
+            const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+            let buffer = '';
+            while (true) {
+                const { value, done } = await reader.read();
+                if (value) buffer += value;
+                const lines = buffer.split('\n');
+                buffer = done ? '' : lines.pop()!;
+                for (const line of lines.filter(l => l.trim())) {
+                    const parsed = JSON.parse(line) as StreamLine;
+                    if ('error' in parsed) throw new ModelApiError(502, parsed.error.code, parsed.error.message);
+                    yield parsed.chunk;
+                }
+                if (done) return;
+            }
+        },
+
+        async session() {
+            const res = await call(API_ROUTES.session);
+            return await res.json() as ApiSession;
+        }
+    };
+}
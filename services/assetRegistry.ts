@@ -0,0 +1,459 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {
+    AssetCategory, CapTableRow, ComplianceReport, Holder, IssuanceRecord, KycStatus, LedgerRecord, ShareClass, TokenizedAsset, TransferRecord,
+    Valuation, ValuationMethod, Violation
+} from '../types';
+import * as compliance from './compliance';
+import { loadJSON, newId, saveJSON } from './storage';
+
+const ASSETS_KEY = 'assets.registry.v1';
+const HOLDERS_KEY = 'assets.holders.v1';
+const LEDGER_KEY = 'assets.ledger.v1';
+const ACTIVE_KEY = 'assets.active.v1';
+
+const CATEGORIES: AssetCategory[] = ['roofing', 'real-estate', 'equipment', 'receivables', 'other'];
+const METHODS: ValuationMethod[] = ['appraisal', 'income', 'book', 'market'];
+const KYC_STATUSES: KycStatus[] = ['pending', 'verified', 'rejected'];
+
+// --- SEED: the roofing company the platform launches with ---
+
+function roofingSeed(): { asset: TokenizedAsset, holder: Holder, issuances: IssuanceRecord[] } {
+    const at = new Date().toISOString();
+    const asset: TokenizedAsset = {
+        id: 'ast_summit_roofing',
+        name: 'Summit Ridge Roofing Receivables & Fleet',
+        category: 'roofing',
+        issuer: 'Summit Ridge Roofing LLC',
+        description: 'Commercial roofing contractor tokenizing its installation-contract receivables and crew vehicle fleet to fund expansion.',
+        jurisdiction: 'US',
+        status: 'issued',
+        valuations: [{ at, valueUsd: 4_200_000, method: 'appraisal', source: 'Independent appraisal of fleet and contracted backlog' }],
+        shareClasses: [
+            { id: 'common', name: 'Class A Common', symbol: 'SRRA', authorizedUnits: 1_000_000, votingRights: true, preferredReturnBps: 0, transferable: true, lockupDays: 0 },
+            { id: 'preferred', name: 'Class B Preferred', symbol: 'SRRB', authorizedUnits: 400_000, votingRights: false, preferredReturnBps: 800, transferable: true, lockupDays: 365 }
+        ],
+        compliance: { ...compliance.DEFAULT_RULES, allowedJurisdictions: ['US', 'CA'], deniedJurisdictions: [] },
+        createdAt: at
+    };
+    const holder: Holder = {
+        id: 'hld_summit_founders', name: 'Summit Ridge Founders Trust', kind: 'entity', jurisdiction: 'US',
+        kycStatus: 'verified', accredited: true, createdAt: at
+    };
+    const issuances: IssuanceRecord[] = [{
+        id: 'iss_summit_founders', type: 'issuance', assetId: asset.id, classId: 'common', toHolderId: holder.id,
+        units: 600_000, pricePerUnitUsd: 3, at, status: 'settled', violations: []
+    }];
+    return { asset, holder, issuances };
+}
+
+// Records saved before compliance rules existed get the defaults.
+let assets: TokenizedAsset[] = (loadJSON<TokenizedAsset[] | null>(ASSETS_KEY, null) ?? []).map(a => ({ compliance: compliance.DEFAULT_RULES, ...a }));
+let holders: Holder[] = loadJSON<Holder[]>(HOLDERS_KEY, []).map(h => ({ kycStatus: 'pending', accredited: false, ...h }));
+let ledger: LedgerRecord[] = loadJSON<LedgerRecord[]>(LEDGER_KEY, []);
+let activeAssetId: string | null = loadJSON<string | null>(ACTIVE_KEY, null);
+
+if (!localStorage.getItem(`nimbus.${ASSETS_KEY}`)) {
+    const seed = roofingSeed();
+    assets = [seed.asset];
+    holders = [seed.holder, ...holders];
+    ledger = [...seed.issuances, ...ledger];
+    activeAssetId = seed.asset.id;
+    persist();
+}
+
+function persist() {
+    saveJSON(ASSETS_KEY, assets);
+    saveJSON(HOLDERS_KEY, holders);
+    saveJSON(LEDGER_KEY, ledger);
+    saveJSON(ACTIVE_KEY, activeAssetId);
+}
+
+function requireAsset(id: string): TokenizedAsset {
+    const asset = assets.find(a => a.id === id);
+    if (!asset) throw new Error(`Unknown asset ${id}`);
+    return asset;
+}
+
+// --- ASSETS ---
+
+export function listAssets(): TokenizedAsset[] {
+    return assets;
+}
+
+export function getAsset(id: string): TokenizedAsset | undefined {
+    return assets.find(a => a.id === id);
+}
+
+/** The asset contract generation and deployment work on. */
+export function getActiveAsset(): TokenizedAsset | undefined {
+    return assets.find(a => a.id === activeAssetId) || assets[0];
+}
+
+export function setActiveAsset(id: string) {
+    activeAssetId = requireAsset(id).id;
+    persist();
+}
+
+export type AssetDefinition = Pick<TokenizedAsset, 'name' | 'category' | 'issuer' | 'description' | 'jurisdiction' | 'shareClasses' | 'compliance'>;
+
+/** Starting point for a new asset in the definition editor. */
+export const ASSET_TEMPLATE: AssetDefinition = {
+    name: 'New Roofing Portfolio',
+    category: 'roofing',
+    issuer: 'Issuer LLC',
+    description: 'What the tokens are backed by and how holders are paid.',
+    jurisdiction: 'US',
+    shareClasses: [
+        { id: 'common', name: 'Class A Common', symbol: 'NEWA', authorizedUnits: 1_000_000, votingRights: true, preferredReturnBps: 0, transferable: true, lockupDays: 0 }
+    ],
+    compliance: compliance.DEFAULT_RULES
+};
+
+export function assetDefinition(asset: TokenizedAsset): AssetDefinition {
+    const { name, category, issuer, description, jurisdiction, shareClasses } = asset;
+    return { name, category, issuer, description, jurisdiction, shareClasses, compliance: asset.compliance };
+}
+
+export function validateAssetDefinition(candidate: any): string[] {
+    if (!candidate || typeof candidate !== 'object') return ['Asset must be an object.'];
+    const errors: string[] = [];
+    for (const key of ['name', 'issuer', 'description']) {
+        if (typeof candidate[key] !== 'string' || !candidate[key].trim()) errors.push(`${key} is required.`);
+    }
+    if (!CATEGORIES.includes(candidate.category)) errors.push(`category must be one of ${CATEGORIES.join(', ')}.`);
+    if (typeof candidate.jurisdiction !== 'string' || !/^[A-Z]{2}$/.test(candidate.jurisdiction)) errors.push('jurisdiction must be a two-letter ISO country code.');
+    if (!Array.isArray(candidate.shareClasses) || !candidate.shareClasses.length) return [...errors, 'shareClasses must be a non-empty array.'];
+
+    const ids = new Set<string>();
+    candidate.shareClasses.forEach((c: any, i: number) => {
+        const at = `Share class ${i + 1}`;
+        if (typeof c?.id !== 'string' || !/^[a-z0-9_-]+$/.test(c.id)) errors.push(`${at}: id must be lowercase letters, digits, "-" or "_".`);
+        else if (ids.has(c.id)) errors.push(`${at}: duplicate id "${c.id}".`);
+        else ids.add(c.id);
+        if (typeof c?.name !== 'string' || !c.name.trim()) errors.push(`${at}: name is required.`);
+        if (typeof c?.symbol !== 'string' || !/^[A-Z0-9]{2,11}$/.test(c.symbol)) errors.push(`${at}: symbol must be 2-11 uppercase letters or digits.`);
+        if (!Number.isInteger(c?.authorizedUnits) || c.authorizedUnits < 1) errors.push(`${at}: authorizedUnits must be a positive integer.`);
+        if (!Number.isInteger(c?.preferredReturnBps) || c.preferredReturnBps < 0) errors.push(`${at}: preferredReturnBps must be a non-negative integer.`);
+        if (!Number.isInteger(c?.lockupDays) || c.lockupDays < 0) errors.push(`${at}: lockupDays must be a non-negative integer.`);
+        for (const flag of ['votingRights', 'transferable']) {
+            if (typeof c?.[flag] !== 'boolean') errors.push(`${at}: ${flag} must be true or false.`);
+        }
+    });
+    const ruleErrors = compliance.validateRuleSet(candidate.compliance);
+    errors.push(...ruleErrors);
+    if (!ruleErrors.length && typeof candidate.jurisdiction === 'string') {
+        errors.push(...compliance.checkIssuerJurisdiction(candidate.compliance, candidate.jurisdiction));
+    }
+    return errors;
+}
+
+/** Creates an asset, or updates the definition of an existing one. */
+export function saveAsset(definition: AssetDefinition, id?: string): TokenizedAsset {
+    const errors = validateAssetDefinition(definition);
+    if (errors.length) throw new Error(errors.join('\n'));
+    const { name, category, issuer, description, jurisdiction, shareClasses } = definition;
+    const rules = definition.compliance;
+
+    if (id) {
+        const asset = requireAsset(id);
+        for (const cls of asset.shareClasses) {
+            const issued = issuedUnits(asset.id, cls.id);
+            const next = shareClasses.find(c => c.id === cls.id);
+            if (issued && !next) throw new Error(`Share class ${cls.id} has ${issued} issued units and can not be removed`);
+            if (next && next.authorizedUnits < issued) throw new Error(`Share class ${cls.id} already has ${issued} units issued`);
+        }
+        Object.assign(asset, { name, category, issuer, description, jurisdiction, shareClasses, compliance: rules });
+        persist();
+        return asset;
+    }
+
+    const asset: TokenizedAsset = {
+        id: newId('ast'), name, category, issuer, description, jurisdiction, shareClasses, compliance: rules,
+        status: 'draft', valuations: [], createdAt: new Date().toISOString()
+    };
+    assets.push(asset);
+    persist();
+    return asset;
+}
+
+export function recordDeployment(assetId: string, deployment: { deploymentId: string, contractAddress: string, chainId: number }) {
+    const asset = requireAsset(assetId);
+    asset.deployment = { ...deployment, at: new Date().toISOString() };
+    asset.status = 'deployed';
+    persist();
+}
+
+// --- VALUATION ---
+
+export function addValuation(assetId: string, valuation: Omit<Valuation, 'at'>): Valuation {
+    if (!(valuation.valueUsd > 0)) throw new Error('Valuation must be a positive USD amount');
+    if (!METHODS.includes(valuation.method)) throw new Error(`Valuation method must be one of ${METHODS.join(', ')}`);
+    const entry: Valuation = { ...valuation, at: new Date().toISOString() };
+    requireAsset(assetId).valuations.push(entry);
+    persist();
+    return entry;
+}
+
+export function currentValuation(asset: TokenizedAsset): Valuation | undefined {
+    return asset.valuations[asset.valuations.length - 1];
+}
+
+/** Latest valuation spread evenly over every authorized unit of every class. */
+export function unitPriceUsd(asset: TokenizedAsset): number {
+    const units = asset.shareClasses.reduce((n, c) => n + c.authorizedUnits, 0);
+    const value = currentValuation(asset)?.valueUsd || 0;
+    return units ? value / units : 0;
+}
+
+/** Unit price after each recorded valuation, oldest first. */
+export function unitPriceHistory(asset: TokenizedAsset): { at: string, priceUsd: number }[] {
+    const units = asset.shareClasses.reduce((n, c) => n + c.authorizedUnits, 0);
+    return units ? asset.valuations.map(v => ({ at: v.at, priceUsd: v.valueUsd / units })) : [];
+}
+
+/** The asset and share class a token symbol belongs to, if it is one of ours. */
+export function findBySymbol(symbol: string): { asset: TokenizedAsset, cls: ShareClass } | undefined {
+    for (const asset of assets) {
+        const cls = asset.shareClasses.find(c => c.symbol === symbol);
+        if (cls) return { asset, cls };
+    }
+    return undefined;
+}
+
+// --- HOLDERS ---
+
+export function listHolders(): Holder[] {
+    return holders;
+}
+
+export function getHolder(id: string): Holder | undefined {
+    return holders.find(h => h.id === id);
+}
+
+export function findOrCreateHolder(input: Omit<Holder, 'id' | 'createdAt' | 'kycStatus' | 'accredited'>): Holder {
+    const existing = holders.find(h => (input.leadId && h.leadId === input.leadId) || h.name.toLowerCase() === input.name.trim().toLowerCase());
+    if (existing) {
+        // A holder entered by hand is linked once the same investor shows up as a lead.
+        if (input.leadId && !existing.leadId) {
+            existing.leadId = input.leadId;
+            persist();
+        }
+        return existing;
+    }
+    const holder: Holder = { kycStatus: 'pending', accredited: false, ...input, name: input.name.trim(), id: newId('hld'), createdAt: new Date().toISOString() };
+    holders.push(holder);
+    persist();
+    return holder;
+}
+
+/** Records the outcome of KYC review, accreditation or a change of residence. */
+export function updateHolder(id: string, patch: Partial<Pick<Holder, 'kycStatus' | 'kycExpiresAt' | 'accredited' | 'jurisdiction'>>): Holder {
+    const holder = getHolder(id);
+    if (!holder) throw new Error(`Unknown holder ${id}`);
+    if (patch.kycStatus !== undefined && !KYC_STATUSES.includes(patch.kycStatus)) throw new Error(`KYC status must be one of ${KYC_STATUSES.join(', ')}`);
+    if (patch.jurisdiction !== undefined && !/^[A-Z]{2}$/.test(patch.jurisdiction)) throw new Error('Jurisdiction must be a two-letter ISO country code');
+    Object.assign(holder, patch);
+    persist();
+    return holder;
+}
+
+// --- LEDGER & CAP TABLE ---
+
+export function listLedger(assetId?: string): LedgerRecord[] {
+    return assetId ? ledger.filter(r => r.assetId === assetId) : ledger;
+}
+
+export function issuedUnits(assetId: string, classId: string): number {
+    return ledger
+        .filter((r): r is IssuanceRecord => r.type === 'issuance' && r.status === 'settled' && r.assetId === assetId && r.classId === classId)
+        .reduce((n, r) => n + r.units, 0);
+}
+
+export function balanceOf(assetId: string, classId: string, holderId: string): number {
+    let units = 0;
+    for (const r of ledger) {
+        if (r.status !== 'settled' || r.assetId !== assetId || r.classId !== classId) continue;
+        if (r.toHolderId === holderId) units += r.units;
+        if (r.type === 'transfer' && r.fromHolderId === holderId) units -= r.units;
+    }
+    return units;
+}
+
+/**
+ * Units a holder may move at `at`: the balance minus anything received
+ * (by issuance or transfer) inside the lock-up window.
+ */
+export function unlockedBalance(asset: TokenizedAsset, cls: ShareClass, holderId: string, at = new Date()): number {
+    const balance = balanceOf(asset.id, cls.id, holderId);
+    if (!compliance.lockupDays(asset.compliance, cls)) return balance;
+    const locked = ledger
+        .filter(r => r.status === 'settled' && r.assetId === asset.id && r.classId === cls.id && r.toHolderId === holderId
+            && compliance.lockupEnd(asset.compliance, cls, new Date(r.at)) > at.getTime())
+        .reduce((n, r) => n + r.units, 0);
+    return Math.max(0, balance - locked);
+}
+
+export function capTable(assetId: string): CapTableRow[] {
+    const asset = requireAsset(assetId);
+    const price = unitPriceUsd(asset);
+    const rows: CapTableRow[] = [];
+    for (const cls of asset.shareClasses) {
+        const issued = issuedUnits(asset.id, cls.id);
+        for (const holder of holders) {
+            const units = balanceOf(asset.id, cls.id, holder.id);
+            if (!units) continue;
+            rows.push({ holderId: holder.id, holderName: holder.name, classId: cls.id, units, classOwnership: issued ? units / issued : 0, valueUsd: units * price });
+        }
+    }
+    return rows.sort((a, b) => b.valueUsd - a.valueUsd);
+}
+
+function holderIds(assetId: string): Set<string> {
+    return new Set(capTable(assetId).map(r => r.holderId));
+}
+
+export function holderCount(assetId: string): number {
+    return holderIds(assetId).size;
+}
+
+// --- ISSUANCE & TRANSFER ---
+
+function unitsViolation(units: number): Violation[] {
+    return Number.isInteger(units) && units > 0 ? [] : [{ rule: 'units', message: 'Units must be a positive whole number.' }];
+}
+
+function requireClass(asset: TokenizedAsset, classId: string): ShareClass {
+    const cls = asset.shareClasses.find(c => c.id === classId);
+    if (!cls) throw new Error(`${asset.name} has no share class ${classId}`);
+    return cls;
+}
+
+function requireHolder(id: string): Holder {
+    const holder = getHolder(id);
+    if (!holder) throw new Error(`Unknown holder ${id}`);
+    return holder;
+}
+
+export function checkIssuance(asset: TokenizedAsset, cls: ShareClass, to: Holder, units: number, at = new Date()): Violation[] {
+    const violations = unitsViolation(units);
+    const remaining = cls.authorizedUnits - issuedUnits(asset.id, cls.id);
+    if (units > remaining) violations.push({ rule: 'authorized', message: `${cls.name} has only ${remaining.toLocaleString()} authorized units left.` });
+    violations.push(...compliance.checkEligibility(asset.compliance, to, 'recipient', at));
+    const current = holderIds(asset.id);
+    violations.push(...compliance.checkHolderCap(asset.compliance, current.size + (current.has(to.id) ? 0 : 1)));
+    return violations;
+}
+
+export function checkTransfer(asset: TokenizedAsset, cls: ShareClass, from: Holder, to: Holder, units: number, at = new Date()): Violation[] {
+    const violations = unitsViolation(units);
+    if (!cls.transferable) violations.push({ rule: 'transferable', message: `${cls.name} is not transferable.` });
+    if (from.id === to.id) violations.push({ rule: 'self-transfer', message: 'Sender and recipient are the same holder.' });
+    const balance = balanceOf(asset.id, cls.id, from.id);
+    const unlocked = unlockedBalance(asset, cls, from.id, at);
+    if (units > balance) violations.push({ rule: 'balance', message: `Sender holds only ${balance.toLocaleString()} ${cls.symbol}.` });
+    else if (units > unlocked) {
+        violations.push({ rule: 'lockup', message: `Only ${unlocked.toLocaleString()} ${cls.symbol} are past the ${compliance.lockupDays(asset.compliance, cls)}-day lock-up.` });
+    }
+    violations.push(...compliance.checkEligibility(asset.compliance, from, 'sender', at));
+    violations.push(...compliance.checkEligibility(asset.compliance, to, 'recipient', at));
+
+    const current = holderIds(asset.id);
+    const senderExits = units === assetBalance(asset, from.id);
+    violations.push(...compliance.checkHolderCap(asset.compliance, current.size + (current.has(to.id) ? 0 : 1) - (senderExits ? 1 : 0)));
+    return violations;
+}
+
+function assetBalance(asset: TokenizedAsset, holderId: string): number {
+    return asset.shareClasses.reduce((n, c) => n + balanceOf(asset.id, c.id, holderId), 0);
+}
+
+/**
+ * Issues new units of a class. The attempt is always recorded; a rejected
+ * one carries the violations and changes no balance.
+ */
+export function issue(assetId: string, classId: string, toHolderId: string, units: number, pricePerUnitUsd?: number): IssuanceRecord {
+    const asset = requireAsset(assetId);
+    const cls = requireClass(asset, classId);
+    const violations = checkIssuance(asset, cls, requireHolder(toHolderId), units);
+    const record: IssuanceRecord = {
+        id: newId('iss'), type: 'issuance', assetId, classId, toHolderId, units,
+        pricePerUnitUsd: pricePerUnitUsd ?? unitPriceUsd(asset),
+        at: new Date().toISOString(), status: violations.length ? 'rejected' : 'settled', violations
+    };
+    ledger.push(record);
+    if (record.status === 'settled' && asset.status === 'draft') asset.status = 'issued';
+    persist();
+    return record;
+}
+
+/** Moves units between holders; recorded as settled or rejected like issue(). */
+export function transfer(assetId: string, classId: string, fromHolderId: string, toHolderId: string, units: number): TransferRecord {
+    const asset = requireAsset(assetId);
+    const cls = requireClass(asset, classId);
+    const violations = checkTransfer(asset, cls, requireHolder(fromHolderId), requireHolder(toHolderId), units);
+    const record: TransferRecord = {
+        id: newId('trf'), type: 'transfer', assetId, classId, fromHolderId, toHolderId, units,
+        at: new Date().toISOString(), status: violations.length ? 'rejected' : 'settled', violations
+    };
+    ledger.push(record);
+    persist();
+    return record;
+}
+
+// --- COMPLIANCE REPORT ---
+
+export function complianceReport(assetId: string, at = new Date()): ComplianceReport {
+    const asset = requireAsset(assetId);
+    const records = listLedger(assetId);
+    const report: ComplianceReport = {
+        assetId,
+        generatedAt: at.toISOString(),
+        rules: asset.compliance,
+        attempts: records.length,
+        rejected: 0,
+        byRule: {},
+        violations: [],
+        ineligibleHolders: []
+    };
+    for (const r of records) {
+        if (r.status !== 'rejected') continue;
+        report.rejected++;
+        for (const v of r.violations) {
+            report.byRule[v.rule] = (report.byRule[v.rule] || 0) + 1;
+            report.violations.push({ recordId: r.id, at: r.at, type: r.type, holderId: r.toHolderId, rule: v.rule, message: v.message });
+        }
+    }
+    for (const id of holderIds(assetId)) {
+        const holder = requireHolder(id);
+        const violations = compliance.checkEligibility(asset.compliance, holder, 'recipient', at);
+        if (violations.length) report.ineligibleHolders.push({ holderId: id, name: holder.name, units: assetBalance(asset, id), violations });
+    }
+    return report;
+}
+
+// --- PROMPT CONTEXT ---
+
+/** Structured description of an asset for contract-generation prompts. */
+export function describeAsset(asset: TokenizedAsset): string {
+    const valuation = currentValuation(asset);
+    const classes = asset.shareClasses.map(c => {
+        const issued = issuedUnits(asset.id, c.id);
+        return `- ${c.name} (${c.symbol}): ${c.authorizedUnits.toLocaleString()} authorized, ${issued.toLocaleString()} issued; ` +
+            `${c.votingRights ? 'voting' : 'non-voting'}; ${c.preferredReturnBps ? `${c.preferredReturnBps / 100}% preferred return; ` : ''}` +
+            `${c.transferable ? 'transferable' : 'non-transferable'}${compliance.lockupDays(asset.compliance, c) ? ` after a ${compliance.lockupDays(asset.compliance, c)}-day lock-up` : ''}`;
+    });
+    return [
+        `Asset: ${asset.name} (${asset.category}, ${asset.jurisdiction})`,
+        `Issuer: ${asset.issuer}`,
+        asset.description,
+        valuation ? `Valuation: $${valuation.valueUsd.toLocaleString()} (${valuation.method}, ${valuation.at.slice(0, 10)})` : 'Valuation: none yet',
+        `Holders: ${holderCount(asset.id)}`,
+        'Share classes:',
+        ...classes,
+        'Compliance rules:',
+        ...compliance.describeRules(asset.compliance).map(r => `- ${r}`)
+    ].join('\n');
+}
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { BrandPolicy, Campaign, ClaimFinding, ClaimRule } from '../types';
+import { loadJSON, newId, saveJSON } from './storage';
+
+/**
+ * Brand-safety and claims review for campaign copy. The product is a
+ * securities-adjacent offering, so copy that promises returns, plays down
+ * risk or reads like a public offering is flagged, along with the house
+ * banned-terms list and glossary. Findings are tied to a span of one
+ * variant's headline or segment so the UI can highlight them in place.
+ */
+
+const POLICY_KEY = 'marketing.policy.v1';
+
+interface ClaimPattern {
+    label: string;
+    pattern: RegExp;
+    message: string;
+}
+
+/** Built in rather than configurable: these are regulatory, not house style. */
+export const PROHIBITED_CLAIMS: ClaimPattern[] = [
+    {
+        label: 'guaranteed returns',
+        pattern: /\bguarantee(?:d|s)?\b[^.!?\n]{0,40}?\b(?:returns?|yields?|income|profits?|payouts?|gains?|APY|APR)\b|\b(?:returns?|yields?|income|profits?|payouts?|gains?)\b[^.!?\n]{0,20}?\bguaranteed\b/gi,
+        message: 'Returns on a security cannot be promised.'
+    },
+    {
+        label: 'risk-free',
+        pattern: /\b(?:risk[- ]free|no[- ]risk|zero[- ]risk|without (?:any )?risk|can(?:'|’)?t lose|cannot lose|safe investment)\b/gi,
+        message: 'Every investment carries risk; copy must not say otherwise.'
+    },
+    {
+        label: 'performance promise',
+        pattern: /\b(?:will|set to|going to|guaranteed to)\s+(?:double|triple|10x|100x|moon|skyrocket)\b|\bto the moon\b/gi,
+        message: 'Forward-looking price or performance promises are not allowed.'
+    },
+    {
+        label: 'fixed return figure',
+        pattern: /\b\d+(?:\.\d+)?\s?%\s*(?:fixed|assured|locked[- ]in|certain)\s*(?:returns?|yields?|APY|APR|income)?\b/gi,
+        message: 'A return figure may only be quoted as a target or historical figure, with its basis.'
+    },
+    {
+        label: 'unregistered offering',
+        pattern: /\b(?:anyone|everyone|anybody) can (?:invest|buy|participate)\b|\bopen to (?:all|every|the general public|anyone)(?: investors)?\b|\bno (?:accreditation|KYC|verification|paperwork) (?:required|needed)\b|\b(?:public offering|IPO)\b/gi,
+        message: 'The offering is limited to verified, accredited investors; copy must not suggest a public offering.'
+    },
+    {
+        label: 'regulator endorsement',
+        pattern: /\b(?:SEC|FINRA|FCA|regulator)[- ](?:approved|endorsed|certified|backed)\b|\bapproved by the (?:SEC|FINRA|FCA)\b/gi,
+        message: 'Regulators do not approve or endorse offerings.'
+    }
+];
+
+export const DEFAULT_POLICY: BrandPolicy = {
+    bannedTerms: [
+        { term: 'moonshot', reason: 'speculative tone' },
+        { term: 'get rich', reason: 'speculative tone' },
+        { term: 'passive income', reason: 'implies returns without risk' },
+        { term: 'free money' },
+        { term: 'act now', reason: 'pressure selling' }
+    ],
+    glossary: [
+        { term: 'ADK Platform', preferred: 'ADK Platform', note: 'product name capitalization' },
+        { term: 'crypto', preferred: 'digital asset', note: 'the token is a digital security, not a cryptocurrency' },
+        { term: 'coin', preferred: 'token' },
+        { term: 'investment opportunity', preferred: 'offering' }
+    ]
+};
+
+let policy: BrandPolicy = loadJSON<BrandPolicy>(POLICY_KEY, DEFAULT_POLICY);
+
+export function getPolicy(): BrandPolicy {
+    return policy;
+}
+
+export function validatePolicy(candidate: any): string[] {
+    if (!candidate || typeof candidate !== 'object') return ['Policy must be an object with bannedTerms and glossary.'];
+    const errors: string[] = [];
+    if (!Array.isArray(candidate.bannedTerms)) errors.push('bannedTerms must be an array.');
+    else candidate.bannedTerms.forEach((b: any, i: number) => {
+        if (typeof b?.term !== 'string' || !b.term.trim()) errors.push(`bannedTerms ${i + 1}: term is required.`);
+        if (b?.reason !== undefined && typeof b.reason !== 'string') errors.push(`bannedTerms ${i + 1}: reason must be a string.`);
+    });
+    if (!Array.isArray(candidate.glossary)) errors.push('glossary must be an array.');
+    else candidate.glossary.forEach((g: any, i: number) => {
+        if (typeof g?.term !== 'string' || !g.term.trim()) errors.push(`glossary ${i + 1}: term is required.`);
+        if (typeof g?.preferred !== 'string' || !g.preferred.trim()) errors.push(`glossary ${i + 1}: preferred is required.`);
+        if (g?.note !== undefined && typeof g.note !== 'string') errors.push(`glossary ${i + 1}: note must be a string.`);
+    });
+    return errors;
+}
+
+export function savePolicy(next: BrandPolicy) {
+    const errors = validatePolicy(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    policy = next;
+    saveJSON(POLICY_KEY, policy);
+}
+
+// --- SCANNING ---
+
+export interface ClaimMatch {
+    rule: ClaimRule;
+    label: string;
+    message: string;
+    start: number;
+    end: number;
+    excerpt: string;
+}
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Whole-word, case-insensitive; spaces in the term match hyphens too. */
+function termPattern(term: string) {
+    return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term.trim()).replace(/\s+/g, '[\\s-]+')}s?(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+function matchAll(text: string, pattern: RegExp, make: (excerpt: string) => Omit<ClaimMatch, 'start' | 'end' | 'excerpt'> | null): ClaimMatch[] {
+    return Array.from(text.matchAll(pattern)).flatMap(m => {
+        const found = make(m[0]);
+        return found ? [{ ...found, start: m.index!, end: m.index! + m[0].length, excerpt: m[0] }] : [];
+    });
+}
+
+/** Every prohibited claim, banned term and glossary miss in one piece of text. */
+export function scanText(text: string, against: BrandPolicy = policy): ClaimMatch[] {
+    const matches = [
+        ...PROHIBITED_CLAIMS.flatMap(c => matchAll(text, new RegExp(c.pattern.source, c.pattern.flags), () => ({
+            rule: 'prohibited-claim', label: c.label, message: c.message
+        }))),
+        ...against.bannedTerms.flatMap(b => matchAll(text, termPattern(b.term), () => ({
+            rule: 'banned-term', label: b.term, message: `"${b.term}" is on the banned-terms list${b.reason ? ` (${b.reason})` : ''}.`
+        }))),
+        ...against.glossary.flatMap(g => matchAll(text, termPattern(g.term), excerpt => excerpt === g.preferred || excerpt === `${g.preferred}s` ? null : {
+            rule: 'glossary', label: g.term, message: `Use "${g.preferred}" instead of "${excerpt}"${g.note ? ` (${g.note})` : ''}.`
+        }))
+    ];
+    // A term inside a span already flagged under another rule is not flagged again.
+    return matches
+        .sort((a, b) => a.start - b.start || b.end - a.end)
+        .filter((m, i, all) => !all.slice(0, i).some(o => o.start <= m.start && o.end >= m.end && o.rule !== m.rule));
+}
+
+// --- CAMPAIGN REVIEW ---
+
+function findingKey(f: Pick<ClaimFinding, 'variantId' | 'segment' | 'rule' | 'label' | 'excerpt'>) {
+    return [f.variantId, f.segment, f.rule, f.label, f.excerpt.toLowerCase()].join('|');
+}
+
+/**
+ * Re-scans every variant and merges the result into the campaign's existing
+ * findings. A waived finding stays waived while its text is unchanged; an
+ * open finding whose text is gone is marked resolved.
+ */
+export function reviewCampaign(campaign: Campaign, against: BrandPolicy = policy): ClaimFinding[] {
+    const now = new Date().toISOString();
+    // Campaigns drafted before the review existed have no findings yet.
+    const earlier = campaign.findings ?? [];
+    const previous = new Map<string, ClaimFinding[]>();
+    for (const f of earlier) {
+        if (f.status === 'resolved') continue;
+        const key = findingKey(f);
+        previous.set(key, [...(previous.get(key) || []), f]);
+    }
+
+    const current: ClaimFinding[] = campaign.channels.flatMap(plan => plan.variants.flatMap(v =>
+        [v.headline, ...v.segments].flatMap((text, i) => scanText(text, against).map(match => {
+            const base = { ...match, channel: plan.channel, variantId: v.id, segment: i - 1 };
+            const prior = previous.get(findingKey(base))?.shift();
+            return prior ? { ...prior, start: match.start, end: match.end, message: match.message } : { ...base, id: newId('fnd'), status: 'open' as const };
+        }))
+    ));
+
+    const resolved = [...previous.values()].flat().map(f => ({ ...f, status: 'resolved' as const, resolvedAt: now }));
+    const history = earlier.filter(f => f.status === 'resolved');
+    return [...current, ...resolved, ...history];
+}
+
+/**
+ * Open findings in copy that could still ship: the chosen variant of each
+ * channel, or both variants while none is chosen.
+ */
+export function blockingFindings(campaign: Campaign): ClaimFinding[] {
+    return campaign.findings.filter(f => {
+        if (f.status !== 'open') return false;
+        const plan = campaign.channels.find(p => p.channel === f.channel);
+        return !!plan && (!plan.selectedVariantId || plan.selectedVariantId === f.variantId);
+    });
+}
@@ -0,0 +1,478 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Campaign, CampaignChannel, CampaignStatus, ChannelPlan, ChannelVariant, Citation, PromptRef, RoadmapPhase } from '../types';
+import { blockingFindings, reviewCampaign } from './brandSafety';
+import { findInlineImage, type ModelProvider } from './modelProvider';
+import { renderPrompt } from './promptTemplates';
+import { channelVariantsSchema } from './schemas';
+import { newId } from './storage';
+import { generateStructured } from './structuredOutput';
+import { BudgetExceededError } from './usageMeter';
+import { createZip } from './zipArchive';
+
+/**
+ * Marketing campaigns for a roadmap phase. One grounded research pass
+ * supplies the facts and citations; each channel then gets an A/B pair
+ * written to its own format rules. A campaign moves draft → in-review →
+ * approved, and only a draft (or one sent back with changes requested) can
+ * be edited. Copy is claims-reviewed whenever it changes, and open findings
+ * keep a campaign out of review until they are fixed or waived. Campaigns
+ * carry their header image, so they live in IndexedDB next to the run log
+ * rather than in localStorage.
+ */
+
+const DB_NAME = 'nimbus.campaigns';
+const STORE = 'campaigns';
+const EDITABLE: CampaignStatus[] = ['draft', 'changes-requested'];
+
+export interface ChannelRules {
+    label: string;
+    headline?: { name: string, maxChars: number };
+    segments: { name: string, min: number, max: number };
+    /** Word range across all segments. */
+    words?: { min: number, max: number };
+    maxCharsPerSegment?: number;
+    hashtags?: { min: number, max: number };
+    /** Format instructions given to the model. */
+    format: string;
+}
+
+export const CHANNEL_RULES: Record<CampaignChannel, ChannelRules> = {
+    blog: {
+        label: 'Blog',
+        headline: { name: 'title', maxChars: 70 },
+        segments: { name: 'body', min: 1, max: 1 },
+        words: { min: 300, max: 600 },
+        format: 'One markdown body with two or three "##" subheadings and a closing call to action. Do not repeat the title in the body.'
+    },
+    linkedin: {
+        label: 'LinkedIn',
+        segments: { name: 'post', min: 1, max: 1 },
+        words: { min: 80, max: 250 },
+        maxCharsPerSegment: 3000,
+        hashtags: { min: 3, max: 5 },
+        format: 'One plain-text post: a hook in the first line, short paragraphs, hashtags on the last line. No markdown headings.'
+    },
+    'x-thread': {
+        label: 'X Thread',
+        segments: { name: 'post', min: 3, max: 8 },
+        maxCharsPerSegment: 280,
+        hashtags: { min: 1, max: 3 },
+        format: 'One segment per post, numbered "1/n". The first post is the hook; hashtags go in the last post only.'
+    },
+    newsletter: {
+        label: 'Email Newsletter',
+        headline: { name: 'subject line', maxChars: 60 },
+        segments: { name: 'body', min: 1, max: 1 },
+        words: { min: 150, max: 350 },
+        format: 'One markdown email body: a greeting, two or three short sections and a single call-to-action link written as [CTA](#).'
+    }
+};
+
+export const CHANNELS = Object.keys(CHANNEL_RULES) as CampaignChannel[];
+
+// --- FORMAT RULES ---
+
+function wordCount(text: string) {
+    return text.split(/\s+/).filter(Boolean).length;
+}
+
+/** Channel rules the variant breaks; an empty list means it can ship. */
+export function checkVariant(channel: CampaignChannel, variant: Pick<ChannelVariant, 'headline' | 'segments'>): string[] {
+    const rules = CHANNEL_RULES[channel];
+    const issues: string[] = [];
+    const { name, min, max } = rules.segments;
+    if (rules.headline) {
+        if (!variant.headline.trim()) issues.push(`Missing ${rules.headline.name}.`);
+        else if (variant.headline.length > rules.headline.maxChars) issues.push(`The ${rules.headline.name} is ${variant.headline.length} characters; the limit is ${rules.headline.maxChars}.`);
+    }
+    if (variant.segments.length < min || variant.segments.length > max) {
+        issues.push(min === max ? `Expected ${min} ${name}, got ${variant.segments.length}.` : `Expected ${min}-${max} ${name}s, got ${variant.segments.length}.`);
+    }
+    if (rules.maxCharsPerSegment) {
+        variant.segments.forEach((s, i) => {
+            if (s.length > rules.maxCharsPerSegment!) issues.push(`${name[0].toUpperCase()}${name.slice(1)} ${i + 1} is ${s.length} characters; the limit is ${rules.maxCharsPerSegment}.`);
+        });
+    }
+    const text = variant.segments.join('\n');
+    if (rules.words) {
+        const words = wordCount(text);
+        if (words < rules.words.min || words > rules.words.max) issues.push(`${words} words; ${rules.words.min}-${rules.words.max} expected.`);
+    }
+    if (rules.hashtags) {
+        const tags = text.match(/#[\p{L}\p{N}_]+/gu)?.length ?? 0;
+        if (tags < rules.hashtags.min || tags > rules.hashtags.max) issues.push(`${tags} hashtags; ${rules.hashtags.min}-${rules.hashtags.max} expected.`);
+    }
+    return issues;
+}
+
+function describeRules(rules: ChannelRules): string {
+    const limits = [
+        rules.headline && `${rules.headline.name} of at most ${rules.headline.maxChars} characters`,
+        rules.segments.min === rules.segments.max ? `exactly ${rules.segments.min} ${rules.segments.name}` : `${rules.segments.min}-${rules.segments.max} ${rules.segments.name}s`,
+        rules.words && `${rules.words.min}-${rules.words.max} words in total`,
+        rules.maxCharsPerSegment && `at most ${rules.maxCharsPerSegment} characters per ${rules.segments.name}`,
+        rules.hashtags && `${rules.hashtags.min}-${rules.hashtags.max} hashtags`
+    ].filter(Boolean);
+    return `${rules.format}\nLimits: ${limits.join('; ')}.`;
+}
+
+// --- GENERATION ---
+
+export interface CampaignInput {
+    topic: string;
+    feature: string;
+    phase: Pick<RoadmapPhase, 'id' | 'title' | 'description'>;
+    channels: CampaignChannel[];
+}
+
+type Brief = Pick<CampaignInput, 'topic' | 'feature' | 'phase'> & { research: string };
+
+function dedupeCitations(citations: Citation[]): Citation[] {
+    const seen = new Set<string>();
+    return citations.filter(c => !seen.has(c.uri) && seen.add(c.uri));
+}
+
+/** Search-grounded research brief; its web sources become the campaign's citations. */
+export async function researchTopic(provider: ModelProvider, topic: string, feature: string): Promise<{ research: string, citations: Citation[], prompt: PromptRef }> {
+    const prompt = renderPrompt('marketing.research', { topic, feature });
+    const response = await provider.generate({
+        model: 'gemini-2.5-flash',
+        contents: prompt.text,
+        config: { tools: [{ googleSearch: {} }] },
+        prompts: [prompt.ref]
+    });
+    return { research: response.text || '', citations: dedupeCitations(response.citations || []), prompt: prompt.ref };
+}
+
+/** An A/B pair for one channel, each variant checked against the channel's rules. */
+export async function generateChannel(provider: ModelProvider, channel: CampaignChannel, brief: Brief): Promise<ChannelPlan> {
+    const rules = CHANNEL_RULES[channel];
+    const prompt = renderPrompt('marketing.channel', {
+        channel: rules.label,
+        phaseTitle: brief.phase.title,
+        phaseGoal: brief.phase.description,
+        feature: brief.feature,
+        topic: brief.topic,
+        research: brief.research,
+        format: describeRules(rules)
+    });
+    const { data } = await generateStructured<{ angle: string, headline: string, segments: string[] }[]>(provider, {
+        model: 'gemini-2.5-flash',
+        contents: prompt.text,
+        prompts: [prompt.ref]
+    }, channelVariantsSchema(rules.segments.max, !!rules.headline), 1);
+
+    return {
+        channel,
+        variants: data.map((v, i) => {
+            const variant = { headline: rules.headline ? v.headline.trim() : '', segments: v.segments.map(s => s.trim()) };
+            return { id: newId('var'), label: String.fromCharCode(65 + i), angle: v.angle, ...variant, issues: checkVariant(channel, variant) };
+        }),
+        prompt: prompt.ref
+    };
+}
+
+async function generateHeaderImage(provider: ModelProvider, topic: string, feature: string): Promise<{ image?: Campaign['image'], prompt: PromptRef }> {
+    const prompt = renderPrompt('marketing.header-image', { topic, feature });
+    const response = await provider.generate({
+        model: 'gemini-2.5-flash-image',
+        contents: { parts: [{ text: prompt.text }] },
+        prompts: [prompt.ref]
+    });
+    const image = findInlineImage(response);
+    return { image: image ? { ...image, prompt: prompt.text } : undefined, prompt: prompt.ref };
+}
+
+/**
+ * Researches the topic, writes every requested channel and a header image,
+ * and stores the result as a draft. A failed image does not fail the
+ * campaign; a failed channel does.
+ */
+export async function generateCampaign(provider: ModelProvider, input: CampaignInput, onProgress: (step: string) => void = () => {}): Promise<Campaign> {
+    if (!input.channels.length) throw new Error('Pick at least one channel.');
+    onProgress('Researching search trends');
+    const { research, citations, prompt: researchPrompt } = await researchTopic(provider, input.topic, input.feature);
+    const prompts = [researchPrompt];
+    const brief: Brief = { ...input, research };
+
+    const channels: ChannelPlan[] = [];
+    for (const channel of input.channels) {
+        onProgress(`Writing ${CHANNEL_RULES[channel].label} variants`);
+        channels.push(await generateChannel(provider, channel, brief));
+    }
+
+    onProgress('Rendering header image');
+    let image: Campaign['image'];
+    try {
+        const header = await generateHeaderImage(provider, input.topic, input.feature);
+        image = header.image;
+        prompts.push(header.prompt);
+    } catch (e) {
+        // The campaign is usable without a header, but not past a spent budget.
+        if (e instanceof BudgetExceededError) throw e;
+        console.error('Campaign image generation failed', e);
+    }
+
+    const now = new Date().toISOString();
+    const campaign: Campaign = {
+        id: newId('cmp'),
+        createdAt: now,
+        updatedAt: now,
+        phase: { id: input.phase.id, title: input.phase.title, description: input.phase.description },
+        feature: input.feature,
+        topic: input.topic,
+        status: 'draft',
+        research,
+        citations,
+        channels,
+        image,
+        reviews: [],
+        findings: [],
+        prompts
+    };
+    campaign.findings = reviewCampaign(campaign);
+    await put(campaign);
+    return campaign;
+}
+
+// --- STORAGE ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+async function put(campaign: Campaign) {
+    const db = await openDb();
+    await request(db.transaction(STORE, 'readwrite').objectStore(STORE).put(campaign));
+}
+
+function hydrate(campaign: Campaign): Campaign {
+    campaign.findings ??= reviewCampaign(campaign);
+    return campaign;
+}
+
+/** Newest first. */
+export async function listCampaigns(): Promise<Campaign[]> {
+    const db = await openDb();
+    const all = await request(db.transaction(STORE).objectStore(STORE).getAll()) as Campaign[];
+    return all.map(hydrate).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function getCampaign(id: string): Promise<Campaign> {
+    const db = await openDb();
+    const campaign = await request(db.transaction(STORE).objectStore(STORE).get(id)) as Campaign | undefined;
+    if (!campaign) throw new Error(`Unknown campaign ${id}`);
+    return hydrate(campaign);
+}
+
+// --- APPROVAL WORKFLOW ---
+
+export function isEditable(campaign: Campaign) {
+    return EDITABLE.includes(campaign.status);
+}
+
+async function update(id: string, change: (campaign: Campaign) => void): Promise<Campaign> {
+    const campaign = await getCampaign(id);
+    change(campaign);
+    campaign.updatedAt = new Date().toISOString();
+    await put(campaign);
+    return campaign;
+}
+
+function requireEditable(campaign: Campaign) {
+    if (!isEditable(campaign)) throw new Error(`Campaign is ${campaign.status}; only drafts can be changed.`);
+}
+
+export function selectedVariant(plan: ChannelPlan): ChannelVariant | undefined {
+    return plan.variants.find(v => v.id === plan.selectedVariantId);
+}
+
+export function selectVariant(id: string, channel: CampaignChannel, variantId: string) {
+    return update(id, campaign => {
+        requireEditable(campaign);
+        const plan = campaign.channels.find(p => p.channel === channel);
+        if (!plan?.variants.some(v => v.id === variantId)) throw new Error(`No variant ${variantId} for ${channel}.`);
+        plan.selectedVariantId = variantId;
+    });
+}
+
+/** Replaces one channel's A/B pair, clearing its selection. */
+export async function regenerateChannel(provider: ModelProvider, id: string, channel: CampaignChannel) {
+    const campaign = await getCampaign(id);
+    requireEditable(campaign);
+    const plan = await generateChannel(provider, channel, campaign);
+    return update(id, c => {
+        requireEditable(c);
+        c.channels = c.channels.map(p => p.channel === channel ? plan : p);
+        c.findings = reviewCampaign(c);
+    });
+}
+
+/** Re-runs the claims review, e.g. after the brand policy changed. */
+export function recheckFindings(id: string) {
+    return update(id, campaign => {
+        if (campaign.status === 'approved') throw new Error('Approved campaigns are not re-reviewed.');
+        campaign.findings = reviewCampaign(campaign);
+    });
+}
+
+/** Accepts a finding as-is; the note says why and stays with the campaign. */
+export function waiveFinding(id: string, findingId: string, note: string) {
+    return update(id, campaign => {
+        if (campaign.status === 'approved') throw new Error('Approved campaigns cannot be changed.');
+        const finding = campaign.findings.find(f => f.id === findingId);
+        if (!finding || finding.status !== 'open') throw new Error('Only open findings can be waived.');
+        if (!note.trim()) throw new Error('Say why the finding is acceptable.');
+        finding.status = 'waived';
+        finding.waiver = { at: new Date().toISOString(), note: note.trim() };
+    });
+}
+
+/** What stops the campaign from going to review. */
+export function reviewBlockers(campaign: Campaign): string[] {
+    return campaign.channels.flatMap(plan => {
+        const label = CHANNEL_RULES[plan.channel].label;
+        const chosen = selectedVariant(plan);
+        if (!chosen) return [`${label}: pick variant A or B.`];
+        return chosen.issues.map(issue => `${label} ${chosen.label}: ${issue}`);
+    }).concat(blockingFindings(campaign).map(f => {
+        const variant = campaign.channels.find(p => p.channel === f.channel)?.variants.find(v => v.id === f.variantId);
+        return `${CHANNEL_RULES[f.channel].label} ${variant?.label ?? ''}: "${f.excerpt}" (${f.label}) must be fixed or waived.`;
+    }));
+}
+
+export function submitForReview(id: string) {
+    return update(id, campaign => {
+        requireEditable(campaign);
+        const blockers = reviewBlockers(campaign);
+        if (blockers.length) throw new Error(blockers.join('\n'));
+        campaign.status = 'in-review';
+        campaign.reviews.push({ at: new Date().toISOString(), action: 'submitted' });
+    });
+}
+
+export function approveCampaign(id: string, note?: string) {
+    return update(id, campaign => {
+        if (campaign.status !== 'in-review') throw new Error('Only a campaign in review can be approved.');
+        campaign.status = 'approved';
+        campaign.reviews.push({ at: new Date().toISOString(), action: 'approved', note: note || undefined });
+    });
+}
+
+export function requestChanges(id: string, note: string) {
+    return update(id, campaign => {
+        if (campaign.status !== 'in-review') throw new Error('Only a campaign in review can be sent back.');
+        if (!note.trim()) throw new Error('Say what needs to change.');
+        campaign.status = 'changes-requested';
+        campaign.reviews.push({ at: new Date().toISOString(), action: 'changes-requested', note });
+    });
+}
+
+// --- EXPORT ---
+
+/** One variant as markdown, laid out the way the channel publishes it. */
+export function variantMarkdown(channel: CampaignChannel, variant: ChannelVariant): string {
+    switch (channel) {
+        case 'blog': return `# ${variant.headline}\n\n${variant.segments.join('\n\n')}`;
+        case 'newsletter': return `**Subject:** ${variant.headline}\n\n${variant.segments.join('\n\n')}`;
+        case 'x-thread': return variant.segments.join('\n\n---\n\n');
+        default: return variant.segments.join('\n\n');
+    }
+}
+
+function imagePath(image: NonNullable<Campaign['image']>) {
+    return `images/header.${image.mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png'}`;
+}
+
+function citationList(citations: Citation[]) {
+    return citations.length ? citations.map((c, i) => `${i + 1}. [${c.title}](${c.uri})`) : ['None recorded.'];
+}
+
+function campaignMarkdown(campaign: Campaign): string {
+    return [
+        `# Campaign: ${campaign.topic}`,
+        '',
+        `Phase: ${campaign.phase.title} · Feature: ${campaign.feature}`,
+        `Status: **${campaign.status.toUpperCase()}**${campaign.status === 'approved' ? '' : ' (not approved for publication)'}`,
+        '',
+        ...(campaign.image ? [`![Header image](${imagePath(campaign.image)})`, ''] : []),
+        ...campaign.channels.flatMap(plan => {
+            const chosen = selectedVariant(plan);
+            return [
+                `## ${CHANNEL_RULES[plan.channel].label}${chosen ? ` (variant ${chosen.label})` : ' (no variant selected)'}`,
+                '',
+                chosen ? variantMarkdown(plan.channel, chosen) : `See channels/${plan.channel}.md.`,
+                ''
+            ];
+        }),
+        '## Sources',
+        ...citationList(campaign.citations),
+        '',
+        '## Brand-safety review',
+        ...(campaign.findings.filter(f => f.status !== 'resolved').length
+            ? campaign.findings.filter(f => f.status !== 'resolved').map(f =>
+                `- ${f.status.toUpperCase()} ${CHANNEL_RULES[f.channel].label}: "${f.excerpt}" (${f.label})${f.waiver ? ` — waived: ${f.waiver.note}` : ''}`)
+            : ['No outstanding findings.']),
+        '',
+        '## Review history',
+        ...(campaign.reviews.length ? campaign.reviews.map(r => `- ${r.at} ${r.action}${r.note ? `: ${r.note}` : ''}`) : ['Not reviewed.'])
+    ].join('\n') + '\n';
+}
+
+function channelMarkdown(plan: ChannelPlan): string {
+    return [
+        `# ${CHANNEL_RULES[plan.channel].label}: A/B variants`,
+        '',
+        ...plan.variants.flatMap(v => [
+            `## Variant ${v.label}${v.id === plan.selectedVariantId ? ' (selected)' : ''}`,
+            '',
+            `_Angle: ${v.angle}_`,
+            ...(v.issues.length ? ['', ...v.issues.map(i => `> ⚠ ${i}`)] : []),
+            '',
+            variantMarkdown(plan.channel, v),
+            ''
+        ])
+    ].join('\n');
+}
+
+function base64Bytes(data: string): Uint8Array {
+    const binary = atob(data);
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+/** Zip of the campaign: markdown per channel, the header image and metadata.json. */
+export function exportCampaign(campaign: Campaign): Blob {
+    const modified = new Date(campaign.updatedAt);
+    const { image, ...rest } = campaign;
+    const metadata = {
+        ...rest,
+        image: image && { path: imagePath(image), mimeType: image.mimeType, prompt: image.prompt },
+        channelRules: Object.fromEntries(campaign.channels.map(p => [p.channel, CHANNEL_RULES[p.channel]])),
+        exportedAt: new Date().toISOString()
+    };
+    return createZip([
+        { path: 'campaign.md', content: campaignMarkdown(campaign), modified },
+        ...campaign.channels.map(plan => ({ path: `channels/${plan.channel}.md`, content: channelMarkdown(plan), modified })),
+        ...(image ? [{ path: imagePath(image), content: base64Bytes(image.data), modified }] : []),
+        { path: 'research.md', content: `# Research brief\n\n${campaign.research}\n\n## Sources\n\n${citationList(campaign.citations).join('\n')}\n`, modified },
+        { path: 'metadata.json', content: JSON.stringify(metadata, null, 2), modified }
+    ]);
+}
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { BuildRecord, ContractArtifact, DeploymentRecord } from '../types';
+import { loadJSON, newId, saveJSON } from './storage';
+
+const STORAGE_KEY = 'deploy.history.v1';
+const MAX_DEPLOYMENTS = 20;
+const RECEIPT_POLL_MS = 500;
+const RECEIPT_TIMEOUT_MS = 60_000;
+
+export interface DeployTarget {
+    rpcUrl: string;
+    network: string;
+    /** Sender account; must be unlocked on the node. Defaults to its first account. */
+    from?: string;
+}
+
+export interface ChainInfo {
+    chainId: number;
+    account: string;
+    blockNumber: number;
+    balanceWei: bigint;
+}
+
+export interface TxReceipt {
+    txHash: string;
+    contractAddress: string;
+    gasUsed: number;
+    blockNumber: number;
+}
+
+export class RpcError extends Error {
+    constructor(public readonly method: string, message: string, public readonly code?: number) {
+        super(`${method}: ${message}`);
+        this.name = 'RpcError';
+    }
+}
+
+let deployments: DeploymentRecord[] = loadJSON<DeploymentRecord[]>(STORAGE_KEY, []);
+
+export function getDeployTarget(): DeployTarget {
+    return {
+        rpcUrl: process.env.DEPLOY_RPC_URL || 'http://127.0.0.1:8545',
+        network: process.env.DEPLOY_NETWORK || 'Local Devnet',
+        from: process.env.DEPLOY_FROM || undefined
+    };
+}
+
+// --- JSON-RPC ---
+
+let rpcId = 0;
+
+async function rpc<T>(target: DeployTarget, method: string, params: unknown[] = []): Promise<T> {
+    let res: Response;
+    try {
+        res = await fetch(target.rpcUrl, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ jsonrpc: '2.0', id: ++rpcId, method, params })
+        });
+    } catch (e: any) {
+        throw new RpcError(method, `cannot reach ${target.rpcUrl} (${e?.message || e})`);
+    }
+    if (!res.ok) throw new RpcError(method, `HTTP ${res.status} from ${target.rpcUrl}`);
+    const body = await res.json();
+    if (body.error) throw new RpcError(method, body.error.message || 'unknown error', body.error.code);
+    return body.result as T;
+}
+
+const toNumber = (hex: string) => Number(BigInt(hex));
+const toQuantity = (n: number | bigint) => `0x${n.toString(16)}`;
+
+// --- ABI ENCODING (constructor arguments) ---
+
+const WORD = 64;
+
+function pad(hex: string, right = false) {
+    const padded = Math.ceil(hex.length / WORD) * WORD || WORD;
+    return right ? hex.padEnd(padded, '0') : hex.padStart(padded, '0');
+}
+
+function encodeInt(value: bigint) {
+    const twos = value < 0n ? (1n << 256n) + value : value;
+    return pad(twos.toString(16));
+}
+
+function encodeBytes(bytes: Uint8Array) {
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return encodeInt(BigInt(bytes.length)) + (hex ? pad(hex, true) : '');
+}
+
+function isDynamic(type: string) {
+    return type === 'string' || type === 'bytes' || type.endsWith('[]');
+}
+
+/** Constructor values taken from the tokenized asset rather than guessed from the contract name. */
+export interface ConstructorHints {
+    name?: string;
+    symbol?: string;
+    /** Whole tokens; scaled by 18 decimals. */
+    supply?: number;
+}
+
+/**
+ * Picks a placeholder value for a constructor input. Generated contracts
+ * have no fixed constructor, so names drive the choice: addresses go to the
+ * deployer, name/symbol strings and supply/cap-like integers come from the
+ * hints (one million whole tokens by default), and everything else is the
+ * type's zero value.
+ */
+function defaultArg(input: { name: string, type: string }, deployer: string, contractName: string, hints: ConstructorHints): unknown {
+    const name = (input.name || '').toLowerCase();
+    if (input.type.endsWith('[]')) return [];
+    if (input.type === 'address') return deployer;
+    if (input.type === 'bool') return false;
+    if (input.type === 'string') {
+        if (name.includes('symbol')) return hints.symbol || contractName.replace(/[^A-Z]/g, '').slice(0, 5) || 'AST';
+        if (name.includes('name')) return hints.name || contractName.replace(/([a-z])([A-Z])/g, '$1 $2');
+        return '';
+    }
+    if (/^u?int\d*$/.test(input.type)) {
+        if (name.includes('decimals')) return 18n;
+        return /supply|cap|max|limit/.test(name) ? BigInt(hints.supply || 1_000_000) * 10n ** 18n : 0n;
+    }
+    if (/^bytes\d+$/.test(input.type) || input.type === 'bytes') return new Uint8Array(0);
+    throw new Error(`Constructor parameter "${input.name}" has unsupported type ${input.type}`);
+}
+
+function encodeValue(type: string, value: unknown): string {
+    if (type.endsWith('[]')) {
+        const items = value as unknown[];
+        return encodeInt(BigInt(items.length)) + encodeTuple(items.map(() => type.slice(0, -2)), items);
+    }
+    if (type === 'address') return pad((value as string).toLowerCase().replace(/^0x/, ''));
+    if (type === 'bool') return encodeInt(value ? 1n : 0n);
+    if (type === 'string') return encodeBytes(new TextEncoder().encode(value as string));
+    if (type === 'bytes') return encodeBytes(value as Uint8Array);
+    if (/^bytes\d+$/.test(type)) {
+        const hex = Array.from(value as Uint8Array, b => b.toString(16).padStart(2, '0')).join('');
+        return pad(hex, true);
+    }
+    if (/^u?int\d*$/.test(type)) return encodeInt(BigInt(value as bigint));
+    throw new Error(`Cannot ABI-encode type ${type}`);
+}
+
+function encodeTuple(types: string[], values: unknown[]): string {
+    let head = '';
+    let tail = '';
+    const headSize = types.length * 32;
+    types.forEach((type, i) => {
+        const encoded = encodeValue(type, values[i]);
+        if (isDynamic(type)) {
+            head += encodeInt(BigInt(headSize + tail.length / 2));
+            tail += encoded;
+        } else {
+            head += encoded;
+        }
+    });
+    return head + tail;
+}
+
+export function encodeConstructorArgs(artifact: ContractArtifact, deployer: string, hints: ConstructorHints = {}): { data: string, args: unknown[] } {
+    const ctor = (artifact.abi as any[]).find(item => item.type === 'constructor');
+    const inputs: { name: string, type: string }[] = ctor?.inputs || [];
+    const args = inputs.map(input => defaultArg(input, deployer, artifact.contractName, hints));
+    return { data: encodeTuple(inputs.map(i => i.type), args), args };
+}
+
+// --- DEPLOYMENT STEPS ---
+
+/**
+ * The deployable contract of a build: `AssetToken` if present, otherwise the
+ * last contract in the file with creation bytecode (abstract contracts and
+ * interfaces have none).
+ */
+export function selectArtifact(build: BuildRecord): ContractArtifact | undefined {
+    const deployable = build.artifacts.filter(a => a.bytecode);
+    return deployable.find(a => a.contractName === 'AssetToken') || deployable[deployable.length - 1];
+}
+
+export async function connect(target: DeployTarget): Promise<ChainInfo> {
+    const chainId = toNumber(await rpc<string>(target, 'eth_chainId'));
+    const accounts = await rpc<string[]>(target, 'eth_accounts');
+    const account = target.from || accounts[0];
+    if (!account) throw new RpcError('eth_accounts', `no unlocked account on ${target.rpcUrl}; set DEPLOY_FROM`);
+    const [blockNumber, balance] = await Promise.all([
+        rpc<string>(target, 'eth_blockNumber'),
+        rpc<string>(target, 'eth_getBalance', [account, 'latest'])
+    ]);
+    return { chainId, account, blockNumber: toNumber(blockNumber), balanceWei: BigInt(balance) };
+}
+
+export async function submitDeployment(target: DeployTarget, from: string, data: string): Promise<{ txHash: string, gasEstimate: number }> {
+    const tx = { from, data };
+    const gasEstimate = toNumber(await rpc<string>(target, 'eth_estimateGas', [tx]));
+    // 20% headroom over the estimate, as most wallets do.
+    const gas = toQuantity(Math.ceil(gasEstimate * 1.2));
+    const txHash = await rpc<string>(target, 'eth_sendTransaction', [{ ...tx, gas }]);
+    return { txHash, gasEstimate };
+}
+
+export async function waitForReceipt(target: DeployTarget, txHash: string, timeoutMs = RECEIPT_TIMEOUT_MS): Promise<TxReceipt> {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+        const receipt = await rpc<any>(target, 'eth_getTransactionReceipt', [txHash]);
+        if (receipt) {
+            if (receipt.status !== '0x1') throw new RpcError('eth_getTransactionReceipt', `transaction ${txHash} reverted`);
+            if (!receipt.contractAddress) throw new RpcError('eth_getTransactionReceipt', `transaction ${txHash} created no contract`);
+            return {
+                txHash,
+                contractAddress: receipt.contractAddress,
+                gasUsed: toNumber(receipt.gasUsed),
+                blockNumber: toNumber(receipt.blockNumber)
+            };
+        }
+        await new Promise(r => setTimeout(r, RECEIPT_POLL_MS));
+    }
+    throw new RpcError('eth_getTransactionReceipt', `no receipt for ${txHash} after ${timeoutMs / 1000}s`);
+}
+
+/** Confirms the runtime code at the address matches the build's deployed bytecode length. */
+export async function verifyCode(target: DeployTarget, address: string, artifact: ContractArtifact): Promise<number> {
+    const code = await rpc<string>(target, 'eth_getCode', [address, 'latest']);
+    const size = (code.length - 2) / 2;
+    if (size === 0) throw new RpcError('eth_getCode', `no code at ${address}`);
+    const expected = artifact.deployedBytecode.length / 2;
+    // Immutables are patched in at deploy time, so only the length is comparable.
+    if (expected && size !== expected) throw new RpcError('eth_getCode', `runtime code is ${size} bytes, build expects ${expected}`);
+    return size;
+}
+
+// --- HISTORY ---
+
+export function recordDeployment(entry: Omit<DeploymentRecord, 'id' | 'createdAt'>): DeploymentRecord {
+    const record: DeploymentRecord = { id: newId('dep'), createdAt: new Date().toISOString(), ...entry };
+    deployments = [record, ...deployments].slice(0, MAX_DEPLOYMENTS);
+    saveJSON(STORAGE_KEY, deployments);
+    return record;
+}
+
+export function listDeployments(): DeploymentRecord[] {
+    return deployments;
+}
@@ -0,0 +1,286 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ComplianceReport, ComplianceRuleSet, Holder, ShareClass, TokenizedAsset, Violation } from '../types';
+
+/**
+ * Investor eligibility and transfer restrictions for tokenized assets. The
+ * same rule set is checked off-chain on every ledger entry and compiled into
+ * the Solidity transfer hook the generated contract inherits.
+ */
+
+export const HOOKS_FILE = 'ComplianceHooks.sol';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COUNTRY = /^[A-Z]{2}$/;
+
+/** Reg D 506(c)-style defaults: verified, accredited investors outside sanctioned countries. */
+export const DEFAULT_RULES: ComplianceRuleSet = {
+    requireKyc: true,
+    requireAccreditation: true,
+    allowedJurisdictions: [],
+    deniedJurisdictions: ['CU', 'IR', 'KP', 'RU', 'SY'],
+    maxHolders: 2000,
+    lockupDays: 0
+};
+
+export function validateRuleSet(candidate: any, at = 'compliance'): string[] {
+    if (!candidate || typeof candidate !== 'object') return [`${at} must be an object.`];
+    const errors: string[] = [];
+    for (const flag of ['requireKyc', 'requireAccreditation']) {
+        if (typeof candidate[flag] !== 'boolean') errors.push(`${at}.${flag} must be true or false.`);
+    }
+    for (const list of ['allowedJurisdictions', 'deniedJurisdictions']) {
+        if (!Array.isArray(candidate[list]) || candidate[list].some((c: unknown) => typeof c !== 'string' || !COUNTRY.test(c))) {
+            errors.push(`${at}.${list} must be an array of two-letter country codes.`);
+        }
+    }
+    if (Array.isArray(candidate.allowedJurisdictions) && Array.isArray(candidate.deniedJurisdictions)) {
+        const both = candidate.allowedJurisdictions.filter((c: string) => candidate.deniedJurisdictions.includes(c));
+        if (both.length) errors.push(`${at}: ${both.join(', ')} is both allowed and denied.`);
+    }
+    if (!Number.isInteger(candidate.maxHolders) || candidate.maxHolders < 0) errors.push(`${at}.maxHolders must be a non-negative integer (0 for no cap).`);
+    if (!Number.isInteger(candidate.lockupDays) || candidate.lockupDays < 0) errors.push(`${at}.lockupDays must be a non-negative integer.`);
+    return errors;
+}
+
+/**
+ * The deployer is registered in the issuer's jurisdiction and receives the
+ * first mint, so the rules must let that jurisdiction receive units.
+ */
+export function checkIssuerJurisdiction(rules: ComplianceRuleSet, jurisdiction: string): string[] {
+    if (rules.deniedJurisdictions.includes(jurisdiction)) {
+        return [`The issuer's jurisdiction ${jurisdiction} is denied, so the deployer could not receive the first mint.`];
+    }
+    if (rules.allowedJurisdictions.length && !rules.allowedJurisdictions.includes(jurisdiction)) {
+        return [`The issuer's jurisdiction ${jurisdiction} must be on the allow list, so the deployer can receive the first mint.`];
+    }
+    return [];
+}
+
+// --- OFF-CHAIN CHECKS ---
+
+/**
+ * KYC, accreditation and jurisdiction checks for one party. Senders only
+ * need to be verified and outside denied countries; accreditation and the
+ * allow list apply to whoever receives units.
+ */
+export function checkEligibility(rules: ComplianceRuleSet, holder: Holder, role: 'recipient' | 'sender', at = new Date()): Violation[] {
+    const violations: Violation[] = [];
+    if (rules.requireKyc) {
+        if (holder.kycStatus !== 'verified') violations.push({ rule: 'kyc', message: `${holder.name} has KYC status ${holder.kycStatus}.` });
+        else if (holder.kycExpiresAt && new Date(holder.kycExpiresAt) < at) violations.push({ rule: 'kyc', message: `${holder.name}'s KYC expired on ${holder.kycExpiresAt.slice(0, 10)}.` });
+    }
+    if (rules.deniedJurisdictions.includes(holder.jurisdiction)) {
+        violations.push({ rule: 'jurisdiction', message: `${holder.name} is in ${holder.jurisdiction}, which is denied.` });
+    }
+    if (role === 'recipient') {
+        if (rules.requireAccreditation && !holder.accredited) violations.push({ rule: 'accreditation', message: `${holder.name} is not an accredited investor.` });
+        if (rules.allowedJurisdictions.length && !rules.allowedJurisdictions.includes(holder.jurisdiction)) {
+            violations.push({ rule: 'jurisdiction', message: `${holder.name} is in ${holder.jurisdiction}, outside ${rules.allowedJurisdictions.join(', ')}.` });
+        }
+    }
+    return violations;
+}
+
+export function checkHolderCap(rules: ComplianceRuleSet, holdersAfter: number): Violation[] {
+    return rules.maxHolders && holdersAfter > rules.maxHolders
+        ? [{ rule: 'holder-cap', message: `Would bring the asset to ${holdersAfter.toLocaleString()} holders; the cap is ${rules.maxHolders.toLocaleString()}.` }]
+        : [];
+}
+
+export function lockupDays(rules: ComplianceRuleSet, cls: ShareClass): number {
+    return Math.max(rules.lockupDays, cls.lockupDays);
+}
+
+/**
+ * When units received at `receivedAt` unlock: after the lock-up, rounded up
+ * to the next UTC midnight. The on-chain hook buckets receipts by that day
+ * so an account holds at most one lock-up lot per day.
+ */
+export function lockupEnd(rules: ComplianceRuleSet, cls: ShareClass, receivedAt: Date): number {
+    const days = lockupDays(rules, cls);
+    if (!days) return receivedAt.getTime();
+    return Math.ceil((receivedAt.getTime() + days * DAY_MS) / DAY_MS) * DAY_MS;
+}
+
+// --- ON-CHAIN HOOKS ---
+
+function bytes2(country: string) {
+    return `bytes2("${country}")`;
+}
+
+/**
+ * Renders the rule set as an abstract ERC-20 that enforces it in `_update`.
+ * The token represents the asset's primary share class, so that class's
+ * lock-up is the one compiled in. As off-chain, each receipt is locked for
+ * the period on its own, so receiving new units never locks older ones.
+ * Receipts that unlock on the same day share a lot, and expired lots are
+ * released on every transfer, so a flood of small transfers cannot grow an
+ * account's lots past one per day of lock-up.
+ * The deployer is the compliance officer: it is registered as a verified
+ * investor in the issuer's jurisdiction, exempt from the lock-up and the
+ * only account that can register others.
+ */
+export function compileTransferHooks(asset: TokenizedAsset): string {
+    const rules = asset.compliance;
+    const issuerErrors = checkIssuerJurisdiction(rules, asset.jurisdiction);
+    if (issuerErrors.length) throw new Error(issuerErrors.join(' '));
+    const days = asset.shareClasses[0] ? lockupDays(rules, asset.shareClasses[0]) : rules.lockupDays;
+    const setup = [
+        ...rules.allowedJurisdictions.map(c => `        jurisdictionAllowed[${bytes2(c)}] = true;`),
+        ...rules.deniedJurisdictions.map(c => `        jurisdictionDenied[${bytes2(c)}] = true;`)
+    ];
+
+    return `// SPDX-License-Identifier: MIT
+// Generated from the ${asset.name.replace(/\s+/g, ' ')} compliance rule set. Edit the rules in the
+// Asset Registry instead of this file; it is rewritten on every build.
+pragma solidity ^0.8.20;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+abstract contract ComplianceHooks is ERC20 {
+    bool public constant REQUIRE_KYC = ${rules.requireKyc};
+    bool public constant REQUIRE_ACCREDITATION = ${rules.requireAccreditation};
+    bool public constant RESTRICT_TO_ALLOWED_JURISDICTIONS = ${rules.allowedJurisdictions.length > 0};
+    uint256 public constant MAX_HOLDERS = ${rules.maxHolders};
+    uint256 public constant LOCKUP_PERIOD = ${days} days;
+
+    struct Investor {
+        bool kycVerified;
+        bool accredited;
+        bytes2 jurisdiction;
+    }
+
+    /** Receipts unlocking on the same UTC day. */
+    struct Lot {
+        uint64 unlocksAt;
+        uint192 amount;
+    }
+
+    error ComplianceViolation(string rule, address account);
+    error NotComplianceOfficer(address account);
+
+    event InvestorRegistered(address indexed account, bool kycVerified, bool accredited, bytes2 jurisdiction);
+
+    address public immutable complianceOfficer;
+    mapping(address => Investor) public investors;
+    mapping(bytes2 => bool) public jurisdictionAllowed;
+    mapping(bytes2 => bool) public jurisdictionDenied;
+    uint256 public holderCount;
+    mapping(address => Lot[]) private _lockedLots;
+    mapping(address => uint256) private _firstLockedLot;
+
+    constructor() {
+        complianceOfficer = msg.sender;
+        investors[msg.sender] = Investor(true, true, ${bytes2(asset.jurisdiction)});
+${setup.join('\n')}
+    }
+
+    function registerInvestor(address account, bool kycVerified, bool accredited, bytes2 jurisdiction) external {
+        if (msg.sender != complianceOfficer) revert NotComplianceOfficer(msg.sender);
+        Investor storage investor = investors[account];
+        investor.kycVerified = kycVerified;
+        investor.accredited = accredited;
+        investor.jurisdiction = jurisdiction;
+        emit InvestorRegistered(account, kycVerified, accredited, jurisdiction);
+    }
+
+    /** Units received less than LOCKUP_PERIOD ago. */
+    function lockedBalanceOf(address account) public view returns (uint256 locked) {
+        Lot[] storage lots = _lockedLots[account];
+        for (uint256 i = _firstLockedLot[account]; i < lots.length; i++) {
+            if (lots[i].unlocksAt > block.timestamp) locked += lots[i].amount;
+        }
+    }
+
+    /** Lots unlock in the order they were added, so expired ones are always a prefix. */
+    function _releaseExpired(address account) private {
+        Lot[] storage lots = _lockedLots[account];
+        uint256 i = _firstLockedLot[account];
+        while (i < lots.length && lots[i].unlocksAt <= block.timestamp) delete lots[i++];
+        _firstLockedLot[account] = i;
+    }
+
+    function _lock(address account, uint256 value) private {
+        _releaseExpired(account);
+        Lot[] storage lots = _lockedLots[account];
+        uint64 unlocksAt = uint64((block.timestamp + LOCKUP_PERIOD + 1 days - 1) / 1 days * 1 days);
+        if (lots.length > _firstLockedLot[account] && lots[lots.length - 1].unlocksAt == unlocksAt) {
+            lots[lots.length - 1].amount += uint192(value);
+        } else {
+            lots.push(Lot(unlocksAt, uint192(value)));
+        }
+    }
+
+    function _checkParty(address account, bool receiving) internal view {
+        Investor storage investor = investors[account];
+        if (REQUIRE_KYC && !investor.kycVerified) revert ComplianceViolation("kyc", account);
+        if (jurisdictionDenied[investor.jurisdiction]) revert ComplianceViolation("jurisdiction", account);
+        if (!receiving) return;
+        if (REQUIRE_ACCREDITATION && !investor.accredited) revert ComplianceViolation("accreditation", account);
+        if (RESTRICT_TO_ALLOWED_JURISDICTIONS && !jurisdictionAllowed[investor.jurisdiction]) revert ComplianceViolation("jurisdiction", account);
+    }
+
+    function _update(address from, address to, uint256 value) internal virtual override {
+        if (from != address(0)) {
+            _checkParty(from, false);
+            if (LOCKUP_PERIOD != 0) {
+                _releaseExpired(from);
+                if (balanceOf(from) < lockedBalanceOf(from) + value) revert ComplianceViolation("lockup", from);
+            }
+        }
+        if (to != address(0)) _checkParty(to, true);
+
+        bool newHolder = to != address(0) && value > 0 && balanceOf(to) == 0;
+        super._update(from, to, value);
+
+        if (newHolder) holderCount++;
+        if (from != address(0) && value > 0 && balanceOf(from) == 0) holderCount--;
+        if (MAX_HOLDERS != 0 && holderCount > MAX_HOLDERS) revert ComplianceViolation("holder-cap", to);
+        if (LOCKUP_PERIOD != 0 && to != address(0) && to != complianceOfficer && value > 0) _lock(to, value);
+    }
+}
+`;
+}
+
+// --- REPORT ---
+
+export function describeRules(rules: ComplianceRuleSet): string[] {
+    return [
+        rules.requireKyc ? 'KYC verification required for every party' : 'KYC not required',
+        rules.requireAccreditation ? 'recipients must be accredited investors' : 'accreditation not required',
+        rules.allowedJurisdictions.length ? `recipients must reside in ${rules.allowedJurisdictions.join(', ')}` : 'no jurisdiction allow list',
+        rules.deniedJurisdictions.length ? `no parties in ${rules.deniedJurisdictions.join(', ')}` : 'no denied jurisdictions',
+        rules.maxHolders ? `at most ${rules.maxHolders.toLocaleString()} holders` : 'no holder cap',
+        rules.lockupDays ? `${rules.lockupDays}-day minimum lock-up on received units` : 'class lock-ups only'
+    ];
+}
+
+export function reportToMarkdown(report: ComplianceReport, asset: TokenizedAsset): string {
+    const lines = [
+        `# Compliance Report: ${asset.name}`,
+        '',
+        `Generated ${report.generatedAt}. ${report.rejected} of ${report.attempts} ledger attempt(s) rejected.`,
+        '',
+        '## Rules',
+        ...describeRules(report.rules).map(r => `- ${r}`),
+        '',
+        '## Violations by rule',
+        ...(Object.keys(report.byRule).length
+            ? Object.entries(report.byRule).map(([rule, n]) => `- ${rule}: ${n}`)
+            : ['None.']),
+        '',
+        '## Rejected attempts',
+        ...(report.violations.length
+            ? ['| When | Type | Rule | Detail |', '| --- | --- | --- | --- |',
+                ...report.violations.map(v => `| ${v.at} | ${v.type} | ${v.rule} | ${v.message.replace(/\|/g, '\\|')} |`)]
+            : ['None.']),
+        '',
+        '## Holders no longer eligible',
+        ...(report.ineligibleHolders.length
+            ? report.ineligibleHolders.map(h => `- ${h.name} (${h.units.toLocaleString()} units): ${h.violations.map(v => v.message).join(' ')}`)
+            : ['None.'])
+    ];
+    return lines.join('\n') + '\n';
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GateCondition } from '../types';
+
+/**
+ * Declarative conditions over loop state, shared by stage gates and roadmap
+ * acceptance criteria. Paths are dotted lookups into the scope object, e.g.
+ * "outputs.ide.audit.high" or "context.userCount".
+ */
+
+const OPERATORS = ['eq', 'neq', 'lt', 'lte', 'gt', 'gte', 'truthy', 'falsy'];
+const ROOTS = ['outputs', 'context', 'iteration'];
+
+export interface ConditionResult {
+    condition: GateCondition;
+    actual: unknown;
+    passed: boolean;
+}
+
+function resolvePath(path: string, scope: Record<string, unknown>): unknown {
+    return path.split('.').reduce<any>((value, key) => value == null ? undefined : value[key], scope);
+}
+
+function check(c: GateCondition, actual: unknown): boolean {
+    switch (c.op) {
+        case 'truthy': return !!actual;
+        case 'falsy': return !actual;
+        case 'eq': return actual === c.value;
+        case 'neq': return actual !== c.value;
+        case 'lt': return typeof actual === 'number' && actual < (c.value as number);
+        case 'lte': return typeof actual === 'number' && actual <= (c.value as number);
+        case 'gt': return typeof actual === 'number' && actual > (c.value as number);
+        case 'gte': return typeof actual === 'number' && actual >= (c.value as number);
+    }
+}
+
+export function evaluateConditions(conditions: GateCondition[], scope: Record<string, unknown>): ConditionResult[] {
+    return conditions.map(condition => {
+        const actual = resolvePath(condition.path, scope);
+        return { condition, actual, passed: check(condition, actual) };
+    });
+}
+
+export function describeCondition(c: GateCondition): string {
+    return c.message || `${c.path} ${c.op}${c.value !== undefined ? ` ${JSON.stringify(c.value)}` : ''}`;
+}
+
+export function describeFailure(r: ConditionResult): string {
+    return r.condition.message || `${describeCondition(r.condition)} (was ${JSON.stringify(r.actual)})`;
+}
+
+export function validateConditions(candidate: unknown, at: string): string[] {
+    if (!Array.isArray(candidate)) return [`${at} must be an array of conditions.`];
+    const errors: string[] = [];
+    candidate.forEach((c: any, j: number) => {
+        if (typeof c?.path !== 'string' || !new RegExp(`^(${ROOTS.join('|')})(\\.[A-Za-z0-9_]+)*$`).test(c.path)) {
+            errors.push(`${at} ${j + 1}: path must start with ${ROOTS.join(', ')}.`);
+        }
+        if (!OPERATORS.includes(c?.op)) errors.push(`${at} ${j + 1}: op must be one of ${OPERATORS.join(', ')}.`);
+        if (c?.message !== undefined && typeof c.message !== 'string') errors.push(`${at} ${j + 1}: message must be a string.`);
+    });
+    return errors;
+}
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { CopilotMessage, CopilotProposal, CopilotSelection } from '../types';
+import type { ModelProvider, ModelTurn } from './modelProvider';
+import { renderPrompt, type RenderedPrompt } from './promptTemplates';
+import { loadJSON, newId, saveJSON } from './storage';
+
+/**
+ * Multi-turn ADK Copilot chat. Each question is sent with the recent
+ * conversation as history; the open file, the selection and the latest
+ * build's diagnostics and findings go into the system instruction, so a
+ * reply always sees the project as it is now rather than as it was when
+ * an earlier turn was asked. Replies stream, and any file they rewrite is
+ * offered as a change for review, never applied directly.
+ */
+
+const STORAGE_KEY = 'ide.copilot.v1';
+/** Messages kept in the conversation. */
+const MAX_MESSAGES = 60;
+/** Most recent messages sent back to the model as history. */
+const HISTORY_MESSAGES = 12;
+
+export interface CopilotContext {
+    files: string[];
+    path: string;
+    language: string;
+    content: string;
+    selection?: CopilotSelection;
+    diagnostics?: string;
+    audit?: string;
+}
+
+let messages = loadJSON<CopilotMessage[]>(STORAGE_KEY, []);
+
+function persist() {
+    messages = messages.slice(-MAX_MESSAGES);
+    saveJSON(STORAGE_KEY, messages);
+}
+
+export function listMessages(): CopilotMessage[] {
+    return messages;
+}
+
+export function clearConversation() {
+    messages = [];
+    persist();
+}
+
+/** Completed exchanges only: a failed reply and the question behind it are left out. */
+function historyTurns(): ModelTurn[] {
+    const turns: ModelTurn[] = [];
+    for (let i = 0; i + 1 < messages.length; i++) {
+        const [question, reply] = [messages[i], messages[i + 1]];
+        if (question.role !== 'user' || reply.role !== 'model' || reply.error) continue;
+        turns.push({ role: 'user', parts: [{ text: question.text }] }, { role: 'model', parts: [{ text: reply.text }] });
+        i++;
+    }
+    return turns.slice(-HISTORY_MESSAGES);
+}
+
+/**
+ * Asks the Copilot a question. `onText` receives the reply so far as it
+ * streams. The question and the reply are both kept in the conversation;
+ * a failed reply keeps whatever text arrived, records the error and
+ * rethrows.
+ */
+export async function ask(
+    provider: ModelProvider,
+    question: string,
+    context: CopilotContext,
+    system: RenderedPrompt,
+    onText: (text: string) => void
+): Promise<CopilotMessage> {
+    const { selection } = context;
+    const prompt = renderPrompt('ide.copilot', {
+        files: context.files.join(', '),
+        file: context.path,
+        language: context.language,
+        content: context.content,
+        selection: selection?.text,
+        selectionLines: selection ? `${selection.startLine}-${selection.endLine}` : undefined,
+        diagnostics: context.diagnostics,
+        audit: context.audit
+    });
+
+    const history = historyTurns();
+    messages.push({
+        id: newId('chat'),
+        at: new Date().toISOString(),
+        role: 'user',
+        text: question,
+        path: context.path,
+        selection: selection && { startLine: selection.startLine, endLine: selection.endLine }
+    });
+    persist();
+
+    const reply: CopilotMessage = { id: newId('chat'), at: new Date().toISOString(), role: 'model', text: '', prompts: [prompt.ref, system.ref] };
+    try {
+        const stream = provider.generateStream({
+            model: 'gemini-2.5-flash',
+            contents: [...history, { role: 'user', parts: [{ text: question }] }],
+            config: { systemInstruction: `${system.text}\n\n${prompt.text}` },
+            prompts: [prompt.ref, system.ref]
+        });
+        for await (const chunk of stream) {
+            reply.text += chunk.text;
+            onText(reply.text);
+        }
+        if (!reply.text.trim()) throw new Error('The model returned an empty reply.');
+        return reply;
+    } catch (e: any) {
+        reply.error = e?.message || String(e);
+        throw e;
+    } finally {
+        messages.push(reply);
+        persist();
+    }
+}
+
+const FILE_BLOCK = /^```[\w+-]*[ \t]+([\w./-]+)[ \t]*\n([\s\S]*?)^```[ \t]*$/gm;
+
+/**
+ * Files rewritten in a reply: fenced blocks whose info string names a
+ * project file. The last block for a file wins. Content is returned
+ * without the newline before the closing fence.
+ */
+export function proposalsIn(message: CopilotMessage, files: string[]): CopilotProposal[] {
+    if (message.role !== 'model') return [];
+    const found = new Map<string, string>();
+    for (const [, path, content] of message.text.matchAll(FILE_BLOCK)) {
+        if (files.includes(path)) found.set(path, content.replace(/\n$/, ''));
+    }
+    return [...found].map(([path, content]) => ({ path, content }));
+}
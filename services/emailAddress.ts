@@ -0,0 +1,15 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * The one address check for outgoing mail, shared by the outbox in the
+ * browser and the SMTP relay on the dev server. No whitespace means no
+ * CR/LF, so an address can never carry a second SMTP command.
+ */
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isEmailAddress(value: unknown): value is string {
+    return typeof value === 'string' && EMAIL_PATTERN.test(value);
+}
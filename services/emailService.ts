@@ -0,0 +1,211 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Schema, Type } from "@google/genai";
+import type { EmailMessage, Lead } from '../types';
+import { isEmailAddress } from './emailAddress';
+import type { ModelProvider } from './modelProvider';
+import { renderPrompt } from './promptTemplates';
+import { loadJSON, newId, saveJSON } from './storage';
+import { generateStructured } from './structuredOutput';
+
+const STORAGE_KEY = 'crm.outbox.v1';
+
+// --- TEMPLATES ---
+
+export interface EmailTemplate {
+    id: string;
+    label: string;
+    instructions: string;
+}
+
+export const EMAIL_TEMPLATES: EmailTemplate[] = [
+    {
+        id: 'intro',
+        label: 'Introduction',
+        instructions: 'First-touch outreach. Introduce Nimbus IQ asset tokenization, tie it to one concrete pain point from the analysis, and ask for a 20-minute call.'
+    },
+    {
+        id: 'follow-up',
+        label: 'Follow-up',
+        instructions: 'Polite follow-up after no reply. Reference the previous outreach, add one new proof point, and offer two time slots.'
+    },
+    {
+        id: 'demo-invite',
+        label: 'Demo Invitation',
+        instructions: 'Invite them to a hands-on sandbox demo of a tokenized asset modelled on their business. Keep it under 120 words.'
+    },
+    {
+        id: 'term-sheet',
+        label: 'Term Sheet Next Steps',
+        instructions: 'They are close to signing. Summarise the proposed tokenization structure at a high level and list the documents needed for due diligence.'
+    }
+];
+
+const DRAFT_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        subject: { type: Type.STRING, minLength: '3', maxLength: '120' },
+        body: { type: Type.STRING, minLength: '20' }
+    },
+    required: ['subject', 'body'],
+    propertyOrdering: ['subject', 'body']
+};
+
+/**
+ * Drafts an outreach email grounded in the lead record and the deal
+ * analysis shown in the lead modal.
+ */
+export async function draftEmail(
+    provider: ModelProvider,
+    lead: Lead,
+    analysis: string,
+    template: EmailTemplate,
+    from: string
+): Promise<EmailMessage> {
+    const recent = lead.history.slice(-5).map(h => `- ${h.at.slice(0, 10)} ${h.message}`).join('\n');
+    const prompt = renderPrompt('email.draft', {
+        from,
+        company: lead.company,
+        templateLabel: template.label,
+        templateInstructions: template.instructions,
+        industry: lead.industry,
+        value: lead.value,
+        tags: lead.tags.join(', '),
+        owner: lead.owner,
+        notes: lead.notes,
+        recent,
+        analysis
+    });
+
+    const { data } = await generateStructured<{ subject: string, body: string }>(provider, {
+        model: 'gemini-2.5-flash',
+        contents: prompt.text,
+        prompts: [prompt.ref]
+    }, DRAFT_SCHEMA);
+
+    return {
+        id: newId('mail'),
+        leadId: lead.id,
+        templateId: template.id,
+        from,
+        to: '',
+        subject: data.subject,
+        body: data.body,
+        status: 'draft',
+        createdAt: new Date().toISOString(),
+        prompt: prompt.ref
+    };
+}
+
+// --- OUTBOX ---
+
+let outbox: EmailMessage[] = loadJSON<EmailMessage[]>(STORAGE_KEY, []);
+
+function persist() {
+    saveJSON(STORAGE_KEY, outbox);
+}
+
+export function listOutbox(leadId?: string): EmailMessage[] {
+    return outbox.filter(m => !leadId || m.leadId === leadId)
+        .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+function upsert(message: EmailMessage) {
+    const i = outbox.findIndex(m => m.id === message.id);
+    if (i >= 0) outbox[i] = message;
+    else outbox.push(message);
+    persist();
+}
+
+// --- .EML ---
+
+function encodeHeader(value: string) {
+    // RFC 2047 for anything outside printable ASCII.
+    if (/^[\x20-\x7e]*$/.test(value)) return value;
+    const bytes = new TextEncoder().encode(value);
+    return `=?UTF-8?B?${btoa(String.fromCharCode(...bytes))}?=`;
+}
+
+export function toEml(message: EmailMessage): string {
+    const domain = message.from.split('@')[1] || 'localhost';
+    const headers = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${encodeHeader(message.subject)}`,
+        `Date: ${new Date(message.sentAt || message.createdAt).toUTCString()}`,
+        `Message-ID: <${message.id}@${domain}>`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=UTF-8',
+        'Content-Transfer-Encoding: 8bit',
+        `X-Nimbus-Lead: ${message.leadId}`
+    ];
+    return `${headers.join('\r\n')}\r\n\r\n${message.body.replace(/\r?\n/g, '\r\n')}\r\n`;
+}
+
+// --- TRANSPORTS ---
+
+export interface MailTransport {
+    readonly name: string;
+    /** Returns true when the message left the workbench, false when it was only queued. */
+    send(message: EmailMessage): Promise<boolean>;
+}
+
+/** Keeps messages in the outbox as queued; nothing leaves the browser. */
+export function createOutboxTransport(): MailTransport {
+    return {
+        name: 'outbox',
+        async send() {
+            return false;
+        }
+    };
+}
+
+/** Hands messages to the dev server's /__smtp relay, which speaks SMTP. */
+export function createSmtpRelayTransport(endpoint = '/__smtp'): MailTransport {
+    return {
+        name: 'smtp',
+        async send(message) {
+            const res = await fetch(endpoint, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ from: message.from, to: [message.to], raw: toEml(message) })
+            });
+            if (!res.ok) throw new Error(`SMTP relay ${res.status}: ${await res.text()}`);
+            return true;
+        }
+    };
+}
+
+export function createMailTransport(kind: string | undefined): MailTransport {
+    if (kind === 'smtp') return createSmtpRelayTransport();
+    return createOutboxTransport();
+}
+
+/**
+ * Sends (or queues) a message through the transport and records the
+ * outcome in the outbox. Failed messages stay in the outbox for retry.
+ */
+export async function dispatch(message: EmailMessage, transport: MailTransport): Promise<EmailMessage> {
+    if (!isEmailAddress(message.to)) throw new Error(`"${message.to}" is not a valid recipient address`);
+    const next: EmailMessage = { ...message, transport: transport.name, error: undefined };
+    try {
+        const delivered = await transport.send(next);
+        next.status = delivered ? 'sent' : 'queued';
+        if (delivered) next.sentAt = new Date().toISOString();
+    } catch (e: any) {
+        next.status = 'failed';
+        next.error = e.message;
+    }
+    upsert(next);
+    return next;
+}
+
+/** Retries every queued or failed message through the given transport. */
+export async function flushOutbox(transport: MailTransport): Promise<EmailMessage[]> {
+    const pending = outbox.filter(m => m.status === 'queued' || m.status === 'failed');
+    const results: EmailMessage[] = [];
+    for (const message of pending) results.push(await dispatch(message, transport));
+    return results;
+}
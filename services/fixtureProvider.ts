@@ -0,0 +1,174 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { ModelChunk, ModelProvider, ModelRequest, ModelResponse } from './modelProvider';
+
+// --- FIXTURE FORMAT ---
+
+type FixtureEntry =
+    | { kind: 'generate', model: string, recordedAt: string, response: ModelResponse }
+    | { kind: 'stream', model: string, recordedAt: string, chunks: ModelChunk[] };
+
+export interface FixtureFile {
+    version: 1;
+    entries: Record<string, FixtureEntry[]>;
+}
+
+export class FixtureMissError extends Error {
+    constructor(public readonly key: string, model: string) {
+        super(`No recorded fixture for ${model} request ${key}. Re-run with MODEL_PROVIDER=record.`);
+        this.name = 'FixtureMissError';
+    }
+}
+
+// --- REQUEST KEYS ---
+
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+    if (value && typeof value === 'object') {
+        const obj = value as Record<string, unknown>;
+        return `{${Object.keys(obj).sort()
+            .filter(k => obj[k] !== undefined)
+            .map(k => `${JSON.stringify(k)}:${stableStringify(obj[k])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * 53-bit string hash (cyrb53). Stable across sessions and browsers.
+ */
+function hash53(str: string): string {
+    let h1 = 0xdeadbeef, h2 = 0x41c6ce57;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+export function requestKey(kind: FixtureEntry['kind'], request: ModelRequest): string {
+    return `${kind}:${hash53(stableStringify(request))}`;
+}
+
+// --- STORE ---
+
+export interface FixtureStore {
+    readonly name: string;
+    load(): Promise<FixtureFile>;
+    append(key: string, entry: FixtureEntry): Promise<void>;
+}
+
+/**
+ * Reads and writes /fixtures/<name>.json through the dev server's
+ * fixture endpoint (see vite.config.ts). Static builds can still replay
+ * from the same file when it is served alongside the app.
+ */
+export function createFixtureStore(name: string): FixtureStore {
+    let file: FixtureFile | null = null;
+    let pending = Promise.resolve();
+
+    async function load(): Promise<FixtureFile> {
+        if (file) return file;
+        let res = await fetch(`/__fixtures/${encodeURIComponent(name)}`).catch(() => null);
+        if (!res || !res.ok) res = await fetch(`/fixtures/${encodeURIComponent(name)}.json`).catch(() => null);
+        file = res && res.ok ? await res.json() as FixtureFile : { version: 1, entries: {} };
+        return file;
+    }
+
+    async function save() {
+        const res = await fetch(`/__fixtures/${encodeURIComponent(name)}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(file, null, 2)
+        });
+        if (!res.ok) throw new Error(`Fixture write failed (${res.status}): ${await res.text()}`);
+    }
+
+    return {
+        name,
+        load,
+        append(key, entry) {
+            // Serialise writes so concurrent calls never clobber each other.
+            pending = pending.then(async () => {
+                const data = await load();
+                (data.entries[key] ||= []).push(entry);
+                await save();
+            });
+            return pending;
+        }
+    };
+}
+
+// --- PROVIDERS ---
+
+/**
+ * RECORD: Passes calls through to a live provider and appends every
+ * response (including each streamed chunk) to the fixture store.
+ */
+export function createRecordingProvider(inner: ModelProvider, store: FixtureStore): ModelProvider {
+    return {
+        name: `record(${inner.name})`,
+
+        async generate(request) {
+            const response = await inner.generate(request);
+            await store.append(requestKey('generate', request), {
+                kind: 'generate',
+                model: request.model,
+                recordedAt: new Date().toISOString(),
+                response
+            });
+            return response;
+        },
+
+        async *generateStream(request) {
+            const chunks: ModelChunk[] = [];
+            for await (const chunk of inner.generateStream(request)) {
+                chunks.push(chunk);
+                yield chunk;
+            }
+            await store.append(requestKey('stream', request), {
+                kind: 'stream',
+                model: request.model,
+                recordedAt: new Date().toISOString(),
+                chunks
+            });
+        }
+    };
+}
+
+/**
+ * REPLAY: Serves recorded responses without touching the network.
+ * Repeated identical requests walk through their recordings in order and
+ * wrap around, so a looped session replays the same way every time.
+ */
+export function createReplayProvider(store: FixtureStore): ModelProvider {
+    const cursors = new Map<string, number>();
+
+    async function next<K extends FixtureEntry['kind']>(kind: K, request: ModelRequest) {
+        const key = requestKey(kind, request);
+        const entries = (await store.load()).entries[key] || [];
+        if (!entries.length) throw new FixtureMissError(key, request.model);
+        const index = cursors.get(key) || 0;
+        cursors.set(key, (index + 1) % entries.length);
+        return entries[index] as Extract<FixtureEntry, { kind: K }>;
+    }
+
+    return {
+        name: `replay(${store.name})`,
+
+        async generate(request) {
+            const entry = await next('generate', request);
+            return structuredClone(entry.response);
+        },
+
+        async *generateStream(request) {
+            const entry = await next('stream', request);
+            for (const chunk of entry.chunks) yield { ...chunk };
+        }
+    };
+}
@@ -0,0 +1,70 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import type { ModelPart, ModelProvider, ModelResponse, ModelUsage } from './modelProvider';
+
+function toUsage(response: GenerateContentResponse): ModelUsage | undefined {
+    const meta = response.usageMetadata;
+    if (!meta) return undefined;
+    return {
+        inputTokens: (meta.promptTokenCount || 0) + (meta.toolUsePromptTokenCount || 0),
+        outputTokens: meta.candidatesTokenCount || 0,
+        thoughtTokens: meta.thoughtsTokenCount || 0
+    };
+}
+
+/**
+ * Flattens an SDK response into plain text + parts, plus the web sources
+ * of a search-grounded answer and token usage.
+ */
+function toModelResponse(response: GenerateContentResponse): ModelResponse {
+    const parts: ModelPart[] = [];
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+            parts.push({
+                inlineData: {
+                    data: part.inlineData.data,
+                    mimeType: part.inlineData.mimeType || 'image/png'
+                }
+            });
+        } else if (typeof part.text === 'string' && !part.thought) {
+            parts.push({ text: part.text });
+        }
+    }
+    const citations = (response.candidates?.[0]?.groundingMetadata?.groundingChunks || [])
+        .filter(chunk => chunk.web?.uri)
+        .map(chunk => ({ uri: chunk.web!.uri!, title: chunk.web!.title || chunk.web!.uri! }));
+    const usage = toUsage(response);
+    return {
+        text: response.text || '',
+        parts,
+        ...(citations.length ? { citations } : {}),
+        ...(usage ? { usage } : {})
+    };
+}
+
+/**
+ * GEMINI: Live backend over @google/genai. Runs in the model API server,
+ * which is the only place the key exists.
+ */
+export function createGeminiProvider(apiKey: string): ModelProvider {
+    const ai = new GoogleGenAI({ apiKey });
+    return {
+        name: 'gemini',
+
+        async generate(request) {
+            const response = await ai.models.generateContent(request);
+            return toModelResponse(response);
+        },
+
+        async *generateStream(request) {
+            const stream = await ai.models.generateContentStream(request);
+            for await (const chunk of stream) {
+                const usage = toUsage(chunk);
+                yield usage ? { text: chunk.text || '', usage } : { text: chunk.text || '' };
+            }
+        }
+    };
+}
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { InlineData } from './modelProvider';
+
+/**
+ * Canvas helpers for Nano Studio inputs: designer uploads, the edit mask
+ * painted over the canvas, and compositing an edit back so only the masked
+ * region changes. Browser-only.
+ */
+
+const MAX_UPLOAD_EDGE = 2048;
+const UPLOAD_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+export interface LoadedImage extends InlineData {
+    width: number;
+    height: number;
+}
+
+function dataUrl(image: InlineData) {
+    return `data:${image.mimeType};base64,${image.data}`;
+}
+
+function toInlineData(canvas: HTMLCanvasElement, mimeType = 'image/png', quality?: number): InlineData {
+    const url = canvas.toDataURL(mimeType, quality);
+    return { mimeType, data: url.slice(url.indexOf(',') + 1) };
+}
+
+async function decode(image: InlineData): Promise<HTMLImageElement> {
+    const img = new Image();
+    img.src = dataUrl(image);
+    await img.decode();
+    return img;
+}
+
+function blankCanvas(width: number, height: number): [HTMLCanvasElement, CanvasRenderingContext2D] {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return [canvas, canvas.getContext('2d')!];
+}
+
+function gcd(a: number, b: number): number {
+    return b ? gcd(b, a % b) : a;
+}
+
+export function aspectRatioOf(width: number, height: number) {
+    const d = gcd(width, height) || 1;
+    return `${width / d}:${height / d}`;
+}
+
+/**
+ * Reads an uploaded file as inline image data. Images with an edge over
+ * 2048px are scaled down (and re-encoded as JPEG unless they are PNG) to
+ * keep requests within inline-data limits.
+ */
+export async function loadUpload(file: File): Promise<LoadedImage> {
+    if (!UPLOAD_TYPES.includes(file.type)) throw new Error(`${file.name}: only PNG, JPEG and WebP images can be used.`);
+    const raw: InlineData = await new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => {
+            const url = reader.result as string;
+            resolve({ mimeType: file.type, data: url.slice(url.indexOf(',') + 1) });
+        };
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+    });
+    const img = await decode(raw);
+    const scale = Math.min(1, MAX_UPLOAD_EDGE / Math.max(img.naturalWidth, img.naturalHeight));
+    if (scale === 1) return { ...raw, width: img.naturalWidth, height: img.naturalHeight };
+
+    const [canvas, ctx] = blankCanvas(Math.round(img.naturalWidth * scale), Math.round(img.naturalHeight * scale));
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    const mimeType = file.type === 'image/png' ? 'image/png' : 'image/jpeg';
+    return { ...toInlineData(canvas, mimeType, 0.9), width: canvas.width, height: canvas.height };
+}
+
+// --- MASK ---
+
+export interface MaskPainter {
+    /** The overlay canvas; its pixel size matches the image being masked. */
+    readonly canvas: HTMLCanvasElement;
+    /** Clears strokes and matches the canvas to a new image size. */
+    reset(width: number, height: number): void;
+    setBrush(size: number): void;
+    setEnabled(enabled: boolean): void;
+    isEmpty(): boolean;
+    /** White where edits are allowed, black elsewhere, as the model sees it. */
+    toMaskImage(): InlineData;
+}
+
+/** Paints a freehand mask over the displayed image with the pointer. */
+export function createMaskPainter(color = '#ffe135'): MaskPainter {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d')!;
+    let brush = 40;
+    let enabled = false;
+    let painted = false;
+    let last: { x: number, y: number } | null = null;
+
+    const point = (e: PointerEvent) => ({
+        x: e.offsetX / canvas.clientWidth * canvas.width,
+        y: e.offsetY / canvas.clientHeight * canvas.height
+    });
+    const stroke = (from: { x: number, y: number }, to: { x: number, y: number }) => {
+        // Brush size is in screen pixels, so scale it to the image.
+        ctx.lineWidth = brush * canvas.width / Math.max(canvas.clientWidth, 1);
+        ctx.lineCap = 'round';
+        ctx.strokeStyle = color;
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+        painted = true;
+    };
+
+    canvas.addEventListener('pointerdown', e => {
+        if (!enabled) return;
+        canvas.setPointerCapture(e.pointerId);
+        last = point(e);
+        stroke(last, last);
+    });
+    canvas.addEventListener('pointermove', e => {
+        if (!enabled || !last) return;
+        const next = point(e);
+        stroke(last, next);
+        last = next;
+    });
+    ['pointerup', 'pointercancel'].forEach(type => canvas.addEventListener(type, () => { last = null; }));
+
+    return {
+        canvas,
+        reset(width, height) {
+            canvas.width = width;
+            canvas.height = height;
+            painted = false;
+        },
+        setBrush(size) {
+            brush = size;
+        },
+        setEnabled(next) {
+            enabled = next;
+            canvas.classList.toggle('painting', next);
+        },
+        isEmpty() {
+            return !painted;
+        },
+        toMaskImage() {
+            const [white, wctx] = blankCanvas(canvas.width, canvas.height);
+            wctx.drawImage(canvas, 0, 0);
+            wctx.globalCompositeOperation = 'source-in';
+            wctx.fillStyle = '#fff';
+            wctx.fillRect(0, 0, white.width, white.height);
+            const [mask, mctx] = blankCanvas(canvas.width, canvas.height);
+            mctx.fillStyle = '#000';
+            mctx.fillRect(0, 0, mask.width, mask.height);
+            mctx.drawImage(white, 0, 0);
+            return toInlineData(mask);
+        }
+    };
+}
+
+/**
+ * Lays the edited image over the original inside the mask only. The model
+ * is asked to respect the mask, but this makes sure pixels outside it are
+ * untouched. The edit is scaled to the original's size first.
+ */
+export async function compositeMasked(original: InlineData, edited: InlineData, mask: InlineData): Promise<InlineData> {
+    const [base, editedImg, maskImg] = await Promise.all([decode(original), decode(edited), decode(mask)]);
+    const { naturalWidth: width, naturalHeight: height } = base;
+
+    // Black/white mask → alpha mask.
+    const [alpha, actx] = blankCanvas(width, height);
+    actx.drawImage(maskImg, 0, 0, width, height);
+    const pixels = actx.getImageData(0, 0, width, height);
+    for (let i = 0; i < pixels.data.length; i += 4) pixels.data[i + 3] = pixels.data[i];
+    actx.putImageData(pixels, 0, 0);
+
+    const [patch, pctx] = blankCanvas(width, height);
+    pctx.drawImage(editedImg, 0, 0, width, height);
+    pctx.globalCompositeOperation = 'destination-in';
+    pctx.drawImage(alpha, 0, 0);
+
+    const [out, octx] = blankCanvas(width, height);
+    octx.drawImage(base, 0, 0);
+    octx.drawImage(patch, 0, 0);
+    return toInlineData(out);
+}
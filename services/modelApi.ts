@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateContentConfig } from "@google/genai";
+import type { ModelChunk, ModelContents, ModelRequest } from './modelProvider';
+
+/**
+ * Wire protocol between the workbench and the model API server
+ * (server/modelApiServer.ts). Shared by both sides so a request the
+ * browser sends is the request the server validates. Credentials only
+ * exist on the server; the browser authenticates with a per-user token.
+ */
+
+// --- ENDPOINTS ---
+
+export const API_ROUTES = {
+    text: '/api/generate/text',
+    stream: '/api/generate/stream',
+    json: '/api/generate/json',
+    image: '/api/generate/image',
+    session: '/api/session'
+} as const;
+
+export type GenerateEndpoint = 'text' | 'stream' | 'json' | 'image';
+
+/** Config the server sets itself: httpOptions could point the SDK, and its key, at another host. */
+const SERVER_ONLY_CONFIG = ['httpOptions', 'abortSignal'];
+
+/** Body of every generate endpoint. Prompt refs stay in the browser's run log. */
+export interface ModelApiRequest {
+    model: string;
+    contents: ModelContents;
+    config?: GenerateContentConfig;
+}
+
+/**
+ * `text`, `json` and `image` answer with a ModelResponse; `stream` with
+ * one StreamLine per line (NDJSON). An error after the first chunk
+ * arrives in-band.
+ */
+export type StreamLine = { chunk: ModelChunk } | { error: ApiErrorBody };
+
+export interface ApiRateLimit {
+    /** Requests per minute. */
+    limit: number;
+    remaining: number;
+}
+
+/** GET /api/session: who the token belongs to and what they have left. */
+export interface ApiSession {
+    user: string;
+    backend: string;
+    requests: ApiRateLimit;
+    images: ApiRateLimit;
+}
+
+// --- ERRORS ---
+
+export type ApiErrorCode = 'unauthorized' | 'forbidden' | 'rate_limited' | 'invalid_request' | 'not_found' | 'payload_too_large' | 'backend_error';
+
+export interface ApiErrorBody {
+    code: ApiErrorCode;
+    message: string;
+    /** Set on rate_limited: when the next request will be accepted. */
+    retryAfterMs?: number;
+}
+
+export class ModelApiError extends Error {
+    constructor(public readonly status: number, public readonly code: ApiErrorCode, message: string, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'ModelApiError';
+    }
+}
+
+// --- ROUTING ---
+
+function isImageModel(model: string): boolean {
+    return /image/i.test(model);
+}
+
+/**
+ * The endpoint a one-shot request belongs to: image models go to `image`,
+ * JSON-mode requests to `json`, everything else to `text`.
+ */
+export function endpointFor(request: ModelRequest | ModelApiRequest): Exclude<GenerateEndpoint, 'stream'> {
+    if (isImageModel(request.model)) return 'image';
+    if (request.config?.responseMimeType === 'application/json') return 'json';
+    return 'text';
+}
+
+/**
+ * Checks a request body against an endpoint's contract. Returns the
+ * problems found; empty means valid.
+ */
+export function validateApiRequest(endpoint: GenerateEndpoint, body: unknown): string[] {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) return ['Body must be a JSON object.'];
+    const { model, contents, config } = body as Partial<ModelApiRequest>;
+    const problems: string[] = [];
+
+    if (typeof model !== 'string' || !/^[\w.-]{1,80}$/.test(model)) problems.push('`model` must be a model name.');
+    if (!validContents(contents)) problems.push('`contents` must be a string, { parts } or a list of { role, parts } turns.');
+    if (config !== undefined && (!config || typeof config !== 'object' || Array.isArray(config))) problems.push('`config` must be an object.');
+    for (const key of SERVER_ONLY_CONFIG) {
+        if (config && key in config) problems.push(`\`config.${key}\` is not accepted.`);
+    }
+    if (problems.length) return problems;
+
+    const image = isImageModel(model!);
+    const json = config?.responseMimeType === 'application/json';
+    if (endpoint === 'image' && !image) problems.push(`${model} is not an image model.`);
+    if (endpoint !== 'image' && image) problems.push(`${model} is an image model; use ${API_ROUTES.image}.`);
+    if (endpoint === 'json' && !json) problems.push('`config.responseMimeType` must be "application/json".');
+    if ((endpoint === 'text' || endpoint === 'image') && json) problems.push(`JSON-mode requests go to ${API_ROUTES.json}.`);
+    return problems;
+}
+
+function validParts(parts: unknown): boolean {
+    return Array.isArray(parts) && parts.every(p => p && typeof p === 'object'
+        && (typeof p.text === 'string'
+            || (p.inlineData && typeof p.inlineData.data === 'string' && typeof p.inlineData.mimeType === 'string')));
+}
+
+function validContents(contents: unknown): boolean {
+    if (typeof contents === 'string') return contents.length > 0;
+    if (Array.isArray(contents)) {
+        return contents.length > 0 && contents.every(t => t && (t.role === 'user' || t.role === 'model') && validParts(t.parts));
+    }
+    return !!contents && typeof contents === 'object' && validParts((contents as { parts?: unknown }).parts);
+}
@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { GenerateContentConfig } from "@google/genai";
+import type { Citation, PromptRef } from '../types';
+import { createFixtureStore, createRecordingProvider, createReplayProvider } from './fixtureProvider';
+
+// --- TYPES ---
+
+export interface InlineData {
+    data: string;
+    mimeType: string;
+}
+
+export interface ModelPart {
+    text?: string;
+    inlineData?: InlineData;
+}
+
+/** One message of a multi-turn conversation. */
+export interface ModelTurn {
+    role: 'user' | 'model';
+    parts: ModelPart[];
+}
+
+export type ModelContents = string | { parts: ModelPart[] } | ModelTurn[];
+
+export interface ModelRequest {
+    model: string;
+    contents: ModelContents;
+    config?: GenerateContentConfig;
+    /** Templates the request was rendered from. Recorded in the run log, never sent to the model. */
+    prompts?: PromptRef[];
+}
+
+/** Token counts from the backend's usage metadata. */
+export interface ModelUsage {
+    inputTokens: number;
+    outputTokens: number;
+    /** Reasoning tokens, billed as output. */
+    thoughtTokens: number;
+}
+
+/**
+ * Backend-neutral response. Only plain data, so it can be recorded to a
+ * fixture file and replayed byte-for-byte.
+ */
+export interface ModelResponse {
+    text: string;
+    parts: ModelPart[];
+    /** Web sources behind a search-grounded answer. */
+    citations?: Citation[];
+    usage?: ModelUsage;
+}
+
+export interface ModelChunk {
+    text: string;
+    /** Running totals; the last chunk that has them covers the whole stream. */
+    usage?: ModelUsage;
+}
+
+export interface ModelProvider {
+    readonly name: string;
+    generate(request: ModelRequest): Promise<ModelResponse>;
+    generateStream(request: ModelRequest): AsyncIterable<ModelChunk>;
+}
+
+export type ProviderMode = 'api' | 'record' | 'replay';
+
+// --- HELPERS ---
+
+/**
+ * Returns the first inline image part of a response, if any.
+ */
+export function findInlineImage(response: ModelResponse): InlineData | null {
+    for (const part of response.parts) {
+        if (part.inlineData) return part.inlineData;
+    }
+    return null;
+}
+
+/**
+ * The text of a request's contents, across all turns, for estimates and
+ * logs.
+ */
+export function contentsText(contents: ModelContents): string {
+    if (typeof contents === 'string') return contents;
+    const parts = Array.isArray(contents) ? contents.flatMap(t => t.parts) : contents.parts;
+    return parts.map(p => p.text || '').join('');
+}
+
+// --- FACTORY ---
+
+/**
+ * Builds the provider selected by MODEL_PROVIDER (api | record | replay).
+ * `api` is the model API server (see services/apiProvider.ts); the
+ * browser never holds a model key. Fixtures live in
+ * /fixtures/<MODEL_FIXTURES>.json.
+ */
+export function createModelProvider(options: {
+    mode?: string,
+    api: ModelProvider,
+    fixtures?: string
+}): ModelProvider {
+    const mode = (options.mode || 'api') as ProviderMode;
+    const fixtureName = options.fixtures || 'default';
+
+    switch (mode) {
+        case 'record':
+            return createRecordingProvider(options.api, createFixtureStore(fixtureName));
+        case 'replay':
+            return createReplayProvider(createFixtureStore(fixtureName));
+        case 'api':
+            return options.api;
+        default:
+            throw new Error(`Unknown model provider "${mode}". Expected api, record or replay.`);
+    }
+}
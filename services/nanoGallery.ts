@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { NanoImage } from '../types';
+import { newId } from './storage';
+import { crc32, createZip } from './zipArchive';
+
+/**
+ * Every Nano Banana Studio generation, kept with the settings that produced
+ * it. Edits point at the image they were made from, so the gallery is a
+ * forest of edit trees and any earlier version can be iterated on again.
+ * Designer uploads are roots of their own, so they can be edited or sent
+ * as references like any generation. Images are large, so the gallery
+ * lives in IndexedDB.
+ */
+
+const DB_NAME = 'nimbus.nano';
+const STORE = 'images';
+const SOFTWARE = 'ADK Nano Banana Studio';
+
+export interface GalleryNode {
+    image: NanoImage;
+    children: GalleryNode[];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+// --- STORAGE ---
+
+export async function saveImage(input: Omit<NanoImage, 'id' | 'createdAt'>): Promise<NanoImage> {
+    const image: NanoImage = { id: newId('img'), createdAt: new Date().toISOString(), ...input };
+    const db = await openDb();
+    await request(db.transaction(STORE, 'readwrite').objectStore(STORE).add(image));
+    return image;
+}
+
+/** Oldest first. */
+export async function listImages(): Promise<NanoImage[]> {
+    const db = await openDb();
+    const all = await request(db.transaction(STORE).objectStore(STORE).getAll()) as NanoImage[];
+    return all.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Removes an image that nothing was edited from; earlier versions stay intact. */
+export async function deleteImage(id: string) {
+    const images = await listImages();
+    if (images.some(i => i.parentId === id)) throw new Error('Other versions were edited from this image; delete those first.');
+    const db = await openDb();
+    await request(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(id));
+}
+
+// --- LINEAGE ---
+
+/** Edit trees, oldest root first. An image whose parent is gone becomes a root. */
+export function buildTree(images: NanoImage[]): GalleryNode[] {
+    const nodes = new Map(images.map(image => [image.id, { image, children: [] as GalleryNode[] }]));
+    const roots: GalleryNode[] = [];
+    for (const node of nodes.values()) {
+        const parent = node.image.parentId ? nodes.get(node.image.parentId) : undefined;
+        (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+}
+
+/** The chain of edits from the original bake down to `id`. */
+export function lineage(images: NanoImage[], id: string): NanoImage[] {
+    const byId = new Map(images.map(i => [i.id, i]));
+    const chain: NanoImage[] = [];
+    for (let image = byId.get(id); image && !chain.includes(image); image = image.parentId ? byId.get(image.parentId) : undefined) {
+        chain.unshift(image);
+    }
+    return chain;
+}
+
+// --- EXPORT ---
+
+export function describeImage(image: NanoImage, chain: NanoImage[] = [image]) {
+    return {
+        id: image.id,
+        createdAt: image.createdAt,
+        prompt: image.prompt,
+        model: image.model,
+        aspectRatio: image.aspectRatio,
+        size: image.size,
+        feature: image.feature,
+        parentId: image.parentId,
+        referenceIds: image.referenceIds,
+        masked: !!image.mask,
+        uploadedFrom: image.uploadedFrom,
+        promptTemplate: image.promptTemplate,
+        lineage: chain.map(i => ({ id: i.id, prompt: i.prompt }))
+    };
+}
+
+function base64Bytes(data: string): Uint8Array {
+    const binary = atob(data);
+    return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+    const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+    let at = 0;
+    for (const p of parts) {
+        out.set(p, at);
+        at += p.length;
+    }
+    return out;
+}
+
+/** A PNG iTXt chunk: UTF-8 text under a Latin-1 keyword, uncompressed. */
+function pngTextChunk(keyword: string, text: string): Uint8Array {
+    const encoder = new TextEncoder();
+    const body = concat([encoder.encode(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)]);
+    const typeAndBody = concat([encoder.encode('iTXt'), body]);
+    const chunk = new DataView(new ArrayBuffer(12 + body.length));
+    chunk.setUint32(0, body.length);
+    new Uint8Array(chunk.buffer).set(typeAndBody, 4);
+    chunk.setUint32(8 + body.length, crc32(typeAndBody));
+    return new Uint8Array(chunk.buffer);
+}
+
+/**
+ * Writes the metadata into the file itself: iTXt chunks ahead of IEND for
+ * PNG, a comment segment after SOI for JPEG. Other formats come back
+ * unchanged; the export manifest still describes them.
+ */
+export function embedMetadata(bytes: Uint8Array, mimeType: string, metadata: ReturnType<typeof describeImage>): Uint8Array {
+    const json = JSON.stringify(metadata);
+    if (mimeType === 'image/png') {
+        const iend = bytes.length - 12;
+        if (iend < 8 || new TextDecoder().decode(bytes.subarray(iend + 4, iend + 8)) !== 'IEND') return bytes;
+        const chunks = [
+            pngTextChunk('Description', metadata.prompt),
+            pngTextChunk('Software', SOFTWARE),
+            pngTextChunk('nimbus:generation', json)
+        ];
+        return concat([bytes.subarray(0, iend), ...chunks, bytes.subarray(iend)]);
+    }
+    if (mimeType === 'image/jpeg') {
+        const comment = new TextEncoder().encode(json);
+        if (comment.length > 0xfffd) return bytes;
+        const header = new Uint8Array([0xff, 0xfe, (comment.length + 2) >> 8, (comment.length + 2) & 0xff]);
+        return concat([bytes.subarray(0, 2), header, comment, bytes.subarray(2)]);
+    }
+    return bytes;
+}
+
+export function fileName(image: NanoImage) {
+    return `nano-${image.id}.${image.mimeType.split('/')[1]?.replace('jpeg', 'jpg') || 'png'}`;
+}
+
+/** One image with its generation settings and lineage embedded. */
+export function exportImage(image: NanoImage, images: NanoImage[]): Blob {
+    const bytes = embedMetadata(base64Bytes(image.data), image.mimeType, describeImage(image, lineage(images, image.id)));
+    return new Blob([bytes as BlobPart], { type: image.mimeType });
+}
+
+/** Zip of the given images, each with embedded metadata, plus gallery.json describing the trees. */
+export function exportGallery(selection: NanoImage[], images: NanoImage[]): Blob {
+    const manifest = selection.map(image => ({ file: fileName(image), ...describeImage(image, lineage(images, image.id)) }));
+    return createZip([
+        ...selection.map(image => ({
+            path: fileName(image),
+            content: embedMetadata(base64Bytes(image.data), image.mimeType, describeImage(image, lineage(images, image.id))),
+            modified: new Date(image.createdAt)
+        })),
+        { path: 'gallery.json', content: JSON.stringify(manifest, null, 2), modified: new Date() }
+    ]);
+}
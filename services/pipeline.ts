@@ -0,0 +1,126 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Lead, PipelineStage } from '../types';
+import { loadJSON, saveJSON } from './storage';
+
+const STORAGE_KEY = 'crm.pipeline.v1';
+
+export const DEFAULT_PIPELINE: PipelineStage[] = [
+    { id: 'lead', label: 'Incoming Leads', outcome: 'open', rules: {} },
+    { id: 'active', label: 'Active Negotiation', outcome: 'open', rules: {} },
+    { id: 'closed', label: 'Tokenized / Won', outcome: 'won', rules: { from: ['active'] } }
+];
+
+/** Example deal flow for tokenization sales, offered as a preset in the stage editor. */
+export const TOKENIZATION_PIPELINE_PRESET: PipelineStage[] = [
+    { id: 'qualified', label: 'Qualified', outcome: 'open', rules: {} },
+    { id: 'due-diligence', label: 'Due Diligence', outcome: 'open', rules: { from: ['qualified'], requireOwner: true } },
+    { id: 'term-sheet', label: 'Term Sheet', outcome: 'open', rules: { from: ['due-diligence'], requireNotes: true, minValue: 1000000 } },
+    { id: 'tokenized', label: 'Tokenized', outcome: 'won', rules: { from: ['term-sheet'] } },
+    { id: 'lost', label: 'Lost', outcome: 'lost', rules: {} }
+];
+
+let stages: PipelineStage[] = loadJSON<PipelineStage[]>(STORAGE_KEY, DEFAULT_PIPELINE);
+
+export function getPipeline(): PipelineStage[] {
+    return stages;
+}
+
+export function getStage(id: string): PipelineStage | undefined {
+    return stages.find(s => s.id === id);
+}
+
+/**
+ * Parses deal values like "$12.5M", "4,000,000 USD" or "750k" into dollars.
+ * Returns 0 when no number can be read.
+ */
+export function parseDealValue(value: string): number {
+    const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*(k|m|mm|b|bn|thousand|million|billion)?\b/i);
+    if (!match) return 0;
+    const amount = parseFloat(match[1]);
+    const unit = (match[2] || '').toLowerCase();
+    if (unit === 'k' || unit === 'thousand') return amount * 1e3;
+    if (unit === 'm' || unit === 'mm' || unit === 'million') return amount * 1e6;
+    if (unit === 'b' || unit === 'bn' || unit === 'billion') return amount * 1e9;
+    return amount;
+}
+
+/**
+ * Structural checks on a pipeline definition. Returns a list of problems;
+ * an empty list means the pipeline can be saved.
+ */
+export function validatePipeline(candidate: unknown): string[] {
+    if (!Array.isArray(candidate) || candidate.length === 0) return ['Pipeline must be a non-empty array of stages.'];
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    candidate.forEach((stage: any, i) => {
+        const at = `Stage ${i + 1}`;
+        if (!stage || typeof stage !== 'object') return errors.push(`${at}: must be an object.`);
+        if (typeof stage.id !== 'string' || !/^[a-z0-9_-]+$/.test(stage.id)) errors.push(`${at}: id must be lowercase letters, digits, "-" or "_".`);
+        else if (ids.has(stage.id)) errors.push(`${at}: duplicate id "${stage.id}".`);
+        else ids.add(stage.id);
+        if (typeof stage.label !== 'string' || !stage.label.trim()) errors.push(`${at}: label is required.`);
+        if (!['open', 'won', 'lost'].includes(stage.outcome)) errors.push(`${at}: outcome must be open, won or lost.`);
+        const rules = stage.rules ?? {};
+        if (typeof rules !== 'object') errors.push(`${at}: rules must be an object.`);
+        if (rules.minValue !== undefined && typeof rules.minValue !== 'number') errors.push(`${at}: rules.minValue must be a number.`);
+        for (const key of ['from', 'requiredTags'] as const) {
+            if (rules[key] !== undefined && !(Array.isArray(rules[key]) && rules[key].every((v: unknown) => typeof v === 'string'))) {
+                errors.push(`${at}: rules.${key} must be an array of strings.`);
+            }
+        }
+    });
+    candidate.forEach((stage: any, i) => {
+        for (const from of stage?.rules?.from || []) {
+            if (!ids.has(from)) errors.push(`Stage ${i + 1}: rules.from references unknown stage "${from}".`);
+        }
+    });
+    return errors;
+}
+
+export function savePipeline(next: PipelineStage[]) {
+    const errors = validatePipeline(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    stages = next.map(s => ({ ...s, rules: s.rules || {} }));
+    saveJSON(STORAGE_KEY, stages);
+}
+
+/**
+ * Stages a new lead may be created in: the first stage, and any open stage
+ * without entry rules. Generated leads may only pick from these, so a
+ * model can't create a lead that is already won.
+ */
+export function entryStages(): PipelineStage[] {
+    return stages.filter((stage, i) => i === 0 || (stage.outcome === 'open' && !Object.values(stage.rules || {})
+        .some(rule => Array.isArray(rule) ? rule.length : rule !== undefined && rule !== false)));
+}
+
+/**
+ * Evaluates a stage's entry rules against a lead. Returns the reasons the
+ * transition is blocked; an empty list means the lead may move.
+ */
+export function checkStageEntry(lead: Lead, target: PipelineStage, defaultOwner: string): string[] {
+    const { rules } = target;
+    const reasons: string[] = [];
+    if (rules.from?.length && !rules.from.includes(lead.status)) {
+        const allowed = rules.from.map(id => getStage(id)?.label || id).join(', ');
+        reasons.push(`${target.label} can only be entered from: ${allowed}`);
+    }
+    if (rules.requireOwner && (!lead.owner || lead.owner === defaultOwner)) {
+        reasons.push(`${target.label} requires a named owner`);
+    }
+    if (rules.requireNotes && !lead.notes.trim()) {
+        reasons.push(`${target.label} requires deal notes`);
+    }
+    if (rules.minValue !== undefined && parseDealValue(lead.value) < rules.minValue) {
+        reasons.push(`${target.label} requires a deal value of at least $${rules.minValue.toLocaleString()}`);
+    }
+    for (const tag of rules.requiredTags || []) {
+        if (!lead.tags.some(t => t.toLowerCase() === tag.toLowerCase())) {
+            reasons.push(`${target.label} requires tag "${tag}"`);
+        }
+    }
+    return reasons;
+}
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { FileOrigin, FileVersion, ProjectFile } from '../types';
+import { applyHunks, diffLines, DiffHunk } from './lineDiff';
+import { loadJSON, newId, saveJSON } from './storage';
+import { createZip } from './zipArchive';
+
+const STORAGE_KEY = 'ide.project.v1';
+const MAX_VERSIONS = 20;
+
+export const PROJECT_FILES: { path: string, language: string }[] = [
+    { path: 'AssetToken.sol', language: 'solidity' },
+    { path: 'ComplianceHooks.sol', language: 'solidity' },
+    { path: 'oracle_feed.py', language: 'python' },
+    { path: 'deploy_k8s.yaml', language: 'yaml' },
+    { path: 'security_audit.md', language: 'markdown' }
+];
+
+let files: ProjectFile[] = loadJSON<ProjectFile[]>(STORAGE_KEY, []);
+for (const f of PROJECT_FILES) {
+    if (!files.some(p => p.path === f.path)) files.push({ ...f, versions: [] });
+}
+
+function persist() {
+    saveJSON(STORAGE_KEY, files);
+}
+
+function requireFile(path: string): ProjectFile {
+    const file = files.find(f => f.path === path);
+    if (!file) throw new Error(`Unknown project file ${path}`);
+    return file;
+}
+
+function commit(file: ProjectFile, content: string, feature: string, origin: FileOrigin): FileVersion {
+    const version: FileVersion = { id: newId('ver'), at: new Date().toISOString(), feature, origin, content };
+    file.versions = [...file.versions, version].slice(-MAX_VERSIONS);
+    return version;
+}
+
+export function listFiles(): ProjectFile[] {
+    return files;
+}
+
+export function getFile(path: string): ProjectFile | undefined {
+    return files.find(f => f.path === path);
+}
+
+export function currentContent(path: string): string {
+    const versions = getFile(path)?.versions || [];
+    return versions.length ? versions[versions.length - 1].content : '';
+}
+
+/**
+ * Offers generated content for a file. The first version, or any file with
+ * review off, is committed directly; otherwise it waits as a pending change
+ * (replacing any older one) until its hunks are accepted or rejected.
+ */
+export function proposeChange(path: string, content: string, feature: string, review = true): 'applied' | 'pending' | 'unchanged' {
+    const file = requireFile(path);
+    const current = currentContent(path);
+    if (file.versions.length && content === current) {
+        delete file.pending;
+        persist();
+        return 'unchanged';
+    }
+    if (!review || !file.versions.length) {
+        commit(file, content, feature, 'generated');
+        delete file.pending;
+        persist();
+        return 'applied';
+    }
+    file.pending = { at: new Date().toISOString(), feature, content };
+    persist();
+    return 'pending';
+}
+
+/**
+ * Offers a change suggested in the Copilot chat. Unlike generated content
+ * it is always reviewed, even for a file that has no versions yet.
+ */
+export function proposeCopilotChange(path: string, content: string, feature: string): 'pending' | 'unchanged' {
+    const file = requireFile(path);
+    if (content === currentContent(path)) return 'unchanged';
+    file.pending = { at: new Date().toISOString(), feature, content, origin: 'copilot' };
+    persist();
+    return 'pending';
+}
+
+export function pendingHunks(path: string): DiffHunk[] {
+    const file = requireFile(path);
+    return file.pending ? diffLines(currentContent(path), file.pending.content) : [];
+}
+
+/** Applies the accepted hunks of the pending change and returns the resulting content. */
+export function resolvePending(path: string, accepted: Set<number>): string {
+    const file = requireFile(path);
+    if (!file.pending) return currentContent(path);
+    const base = currentContent(path);
+    const merged = applyHunks(base, diffLines(base, file.pending.content), accepted);
+    if (merged !== base) commit(file, merged, file.pending.feature, file.pending.origin || 'review');
+    delete file.pending;
+    persist();
+    return merged;
+}
+
+export function saveEdit(path: string, content: string, feature: string): boolean {
+    const file = requireFile(path);
+    if (content === currentContent(path)) return false;
+    commit(file, content, feature, 'edited');
+    persist();
+    return true;
+}
+
+export function restoreVersion(path: string, versionId: string, feature: string): string {
+    const file = requireFile(path);
+    const version = file.versions.find(v => v.id === versionId);
+    if (!version) throw new Error(`Version ${versionId} of ${path} no longer exists`);
+    if (version.content !== currentContent(path)) commit(file, version.content, feature, 'restored');
+    persist();
+    return version.content;
+}
+
+/**
+ * The project as a zip: current files at the root plus every retained
+ * version under .adk/history/, and a manifest describing them.
+ */
+export function exportProject(): Blob {
+    const entries = files.filter(f => f.versions.length).flatMap(f => [
+        { path: f.path, content: currentContent(f.path), modified: new Date(f.versions[f.versions.length - 1].at) },
+        ...f.versions.map((v, i) => ({ path: `.adk/history/${f.path}/v${i + 1}-${v.origin}`, content: v.content, modified: new Date(v.at) }))
+    ]);
+    const manifest = files.map(f => ({
+        path: f.path,
+        language: f.language,
+        versions: f.versions.map(({ content, ...meta }) => meta),
+        pending: f.pending ? { at: f.pending.at, feature: f.pending.feature } : undefined
+    }));
+    entries.push({ path: '.adk/manifest.json', content: JSON.stringify(manifest, null, 2), modified: new Date() });
+    return createZip(entries);
+}
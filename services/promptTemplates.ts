@@ -0,0 +1,163 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { PromptRef, PromptTemplateDefinition, PromptVariable, PromptVersion } from '../types';
+import { PROMPT_TEMPLATES } from './prompts';
+import { loadJSON, saveJSON } from './storage';
+
+/**
+ * Registry of named, versioned prompt templates. The built-ins from
+ * prompts.ts are each template's first version; saving an edit adds a new
+ * version and the highest one is used. Rendering checks every variable, so
+ * a missing or mistyped value fails loudly instead of reaching the model as
+ * a raw placeholder.
+ */
+
+const STORAGE_KEY = 'prompts.v1';
+
+type Definitions = typeof PROMPT_TEMPLATES;
+export type PromptId = keyof Definitions;
+
+type ValueOf<V> = V extends { type: 'number' } ? number : V extends { type: 'boolean' } ? boolean : string;
+type RequiredVars<V> = { [K in keyof V as V[K] extends { optional: true } ? never : K]: ValueOf<V[K]> };
+type OptionalVars<V> = { [K in keyof V as V[K] extends { optional: true } ? K : never]?: ValueOf<V[K]> };
+
+/** Variables a template takes, typed from its declaration in prompts.ts. */
+export type PromptVariables<K extends PromptId> = RequiredVars<Definitions[K]['variables']> & OptionalVars<Definitions[K]['variables']>;
+
+export interface RenderedPrompt {
+    text: string;
+    ref: PromptRef;
+}
+
+export class PromptRenderError extends Error {
+    constructor(public readonly ref: PromptRef, public readonly problems: string[]) {
+        super(`Prompt ${ref.id} v${ref.version}: ${problems.join(' ')}`);
+        this.name = 'PromptRenderError';
+    }
+}
+
+/** User-saved versions per template id; built-ins are not stored. */
+let saved = loadJSON<Record<string, PromptVersion[]>>(STORAGE_KEY, {});
+
+function definition(id: string): PromptTemplateDefinition {
+    const def = (PROMPT_TEMPLATES as Record<string, PromptTemplateDefinition>)[id];
+    if (!def) throw new Error(`Unknown prompt template ${id}`);
+    return def;
+}
+
+// --- REGISTRY ---
+
+export function listTemplates(): ({ id: PromptId } & PromptTemplateDefinition)[] {
+    return (Object.keys(PROMPT_TEMPLATES) as PromptId[]).map(id => ({ id, ...definition(id) }));
+}
+
+/** Oldest first: the built-in, then every saved edit. */
+export function listVersions(id: string): PromptVersion[] {
+    const def = definition(id);
+    return [{ version: def.version, body: def.body, builtIn: true }, ...(saved[id] || [])]
+        .sort((a, b) => a.version - b.version);
+}
+
+export function activeVersion(id: string): PromptVersion {
+    return listVersions(id).at(-1)!;
+}
+
+export function saveVersion(id: string, body: string): PromptVersion {
+    const errors = validateBody(id, body);
+    if (errors.length) throw new Error(errors.join('\n'));
+    const active = activeVersion(id);
+    if (active.body === body) throw new Error('No changes to save.');
+    const version: PromptVersion = { version: active.version + 1, body, savedAt: new Date().toISOString() };
+    saved = { ...saved, [id]: [...(saved[id] || []), version] };
+    saveJSON(STORAGE_KEY, saved);
+    return version;
+}
+
+// --- PARSING ---
+
+type Node =
+    | { kind: 'text', text: string }
+    | { kind: 'var', name: string }
+    | { kind: 'section', name: string, inverted: boolean, children: Node[] };
+
+const TAG = /\{\{\s*([#^/]?)\s*([A-Za-z_]\w*)\s*\}\}/g;
+
+function parse(body: string): { nodes: Node[], errors: string[] } {
+    const root: Node[] = [];
+    const stack: { name: string, children: Node[] }[] = [{ name: '', children: root }];
+    const errors: string[] = [];
+    let at = 0;
+    for (const m of body.matchAll(TAG)) {
+        const top = stack[stack.length - 1];
+        if (m.index! > at) top.children.push({ kind: 'text', text: body.slice(at, m.index) });
+        at = m.index! + m[0].length;
+        const [, sigil, name] = m;
+        if (sigil === '/') {
+            if (stack.length > 1 && top.name === name) stack.pop();
+            else errors.push(`{{/${name}}} does not close an open section.`);
+        } else if (sigil) {
+            const section: Node = { kind: 'section', name, inverted: sigil === '^', children: [] };
+            top.children.push(section);
+            stack.push({ name, children: section.children });
+        } else {
+            top.children.push({ kind: 'var', name });
+        }
+    }
+    if (at < body.length) stack[stack.length - 1].children.push({ kind: 'text', text: body.slice(at) });
+    stack.slice(1).forEach(s => errors.push(`Section {{#${s.name}}} is never closed.`));
+    return { nodes: root, errors };
+}
+
+function referencedNames(nodes: Node[]): string[] {
+    return nodes.flatMap(n => n.kind === 'text' ? [] : n.kind === 'var' ? [n.name] : [n.name, ...referencedNames(n.children)]);
+}
+
+/** Problems with an edited body: unbalanced sections and variables the template does not take. */
+export function validateBody(id: string, body: string): string[] {
+    const { variables } = definition(id);
+    const { nodes, errors } = parse(body);
+    const unknown = [...new Set(referencedNames(nodes))].filter(name => !(name in variables));
+    return [...errors, ...unknown.map(name => `{{${name}}} is not a variable of this template (${Object.keys(variables).join(', ')}).`)];
+}
+
+// --- RENDERING ---
+
+function isSet(value: unknown) {
+    return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function renderNodes(nodes: Node[], values: Record<string, unknown>): string {
+    return nodes.map(n => {
+        if (n.kind === 'text') return n.text;
+        if (n.kind === 'var') return isSet(values[n.name]) ? String(values[n.name]) : '';
+        return isSet(values[n.name]) !== n.inverted ? renderNodes(n.children, values) : '';
+    }).join('');
+}
+
+function checkValue(name: string, spec: PromptVariable, value: unknown): string | null {
+    if (value === undefined || value === null) return spec.optional ? null : `Missing variable "${name}".`;
+    if (typeof value !== spec.type) return `Variable "${name}" must be a ${spec.type}, got ${typeof value}.`;
+    if (spec.type === 'number' && !Number.isFinite(value)) return `Variable "${name}" must be a finite number.`;
+    return null;
+}
+
+/**
+ * Renders the active version of a template. Missing required variables,
+ * wrongly typed values and a saved body that no longer matches the
+ * template's variables all throw PromptRenderError.
+ */
+export function renderPrompt<K extends PromptId>(id: K, values: PromptVariables<K>): RenderedPrompt {
+    const { variables } = definition(id);
+    const active = activeVersion(id);
+    const ref = { id, version: active.version };
+    const given = values as Record<string, unknown>;
+    const problems = [
+        ...validateBody(id, active.body),
+        ...Object.entries(variables).map(([name, spec]) => checkValue(name, spec, given[name])).filter((p): p is string => !!p),
+        ...Object.keys(given).filter(name => !(name in variables)).map(name => `Unknown variable "${name}".`)
+    ];
+    if (problems.length) throw new PromptRenderError(ref, problems);
+    return { text: renderNodes(parse(active.body).nodes, given), ref };
+}
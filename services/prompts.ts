@@ -0,0 +1,298 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { PromptTemplateDefinition } from '../types';
+
+/**
+ * Built-in personas and prompts for every agent. Bodies use {{name}} for a
+ * variable, {{#name}}...{{/name}} for text kept only when the variable is
+ * set and {{^name}}...{{/name}} for text kept only when it is not. Bump
+ * `version` whenever a body changes, so outputs can be traced to the exact
+ * wording. Edited versions are kept by services/promptTemplates.ts.
+ */
+export const PROMPT_TEMPLATES = {
+    'architect.system': {
+        title: 'System Architect persona',
+        description: 'System instruction for the terminal, contract and supporting-file agents.',
+        version: 1,
+        variables: {
+            feature: { type: 'string', description: 'Feature phase the loop is working on.' },
+            userCount: { type: 'number', description: 'Won deals, i.e. active fractional owners.' },
+            infrastructure: { type: 'string', description: 'Deployment target.' },
+            roadmap: { type: 'string', description: 'Roadmap summary with phase statuses.' }
+        },
+        body: `You are Nimbus IQ, the Chief System Architect for the ADK Tokenization Platform.
+You command a suite of tools: Breeze CRM, ADK Studio, Cloud Deploy, and Marketing HQ.
+You are currently executing an autonomous build loop.
+
+Current Context:
+- Feature Phase: {{feature}}
+- Active Users: {{userCount}}
+- Infrastructure: {{infrastructure}}
+
+Roadmap:
+{{roadmap}}
+
+When asked, generate output appropriate for the specific tool active in the IDE.
+For Code Generation: Focus on Solidity Smart Contracts or Rust for asset tokenization.
+For Security: Focus on Reentrancy, Overflow, and Access Control vulnerabilities.
+`
+    },
+    'terminal.narrative': {
+        title: 'Terminal narrative log',
+        description: 'Streamed progress log shown in the terminal view.',
+        version: 1,
+        variables: {
+            feature: { type: 'string', description: 'Feature phase the loop is working on.' },
+            userCount: { type: 'number', description: 'Active users.' },
+            roadmap: { type: 'string', description: 'Roadmap summary with phase statuses.' }
+        },
+        body: `Generate a system log for the ADK Platform.
+Context: We are currently in the "{{feature}}" phase with {{userCount}} active users.
+Narrate progress against the roadmap below: what has shipped, what is blocked and what the active phase still needs.
+
+{{roadmap}}
+
+Output markdown. Narrative style, high-tech, concise.`
+    },
+    'crm.leads': {
+        title: 'CRM lead generation',
+        description: 'Inbound leads for the pipeline, validated against the lead schema.',
+        version: 1,
+        variables: {
+            offerings: { type: 'string', description: 'Registry assets on offer, one description per asset.' }
+        },
+        body: `Generate 4 realistic high-value CRM leads for an asset tokenization platform.
+Leads are investors looking to buy into the offerings below, or owners of similar businesses who want to tokenize their own assets.
+Put the offering or asset type they are interested in into "industry" and "tags".
+Use a pipeline stage id for "status".
+
+Offerings:
+{{offerings}}`
+    },
+    'crm.deal-analysis': {
+        title: 'Deal strategy',
+        description: 'Short analysis shown in the lead modal and passed to email drafts.',
+        version: 1,
+        variables: {
+            company: { type: 'string', description: 'Lead company.' },
+            industry: { type: 'string', description: 'Lead industry.' },
+            value: { type: 'string', description: 'Estimated deal value.' }
+        },
+        body: `Analyze this CRM lead: {{company}} in {{industry}} worth {{value}}.
+Provide 2 bullet points on why they need asset tokenization and 1 recommended next step.`
+    },
+    'email.draft': {
+        title: 'Outreach email',
+        description: 'B2B email drafted from the lead record, deal analysis and an outreach template.',
+        version: 1,
+        variables: {
+            from: { type: 'string', description: 'Sender address.' },
+            company: { type: 'string', description: 'Lead company.' },
+            templateLabel: { type: 'string', description: 'Outreach template name.' },
+            templateInstructions: { type: 'string', description: 'Outreach template instructions.' },
+            industry: { type: 'string', description: 'Lead industry.' },
+            value: { type: 'string', description: 'Estimated deal value.' },
+            tags: { type: 'string', description: 'Comma-separated lead tags.', optional: true },
+            owner: { type: 'string', description: 'Lead owner, who signs the email.' },
+            notes: { type: 'string', description: 'Lead notes.', optional: true },
+            recent: { type: 'string', description: 'Last five history entries, one per line.', optional: true },
+            analysis: { type: 'string', description: 'Deal analysis from the lead modal.', optional: true }
+        },
+        body: `Write a B2B sales email from {{from}} (Nimbus IQ) to {{company}}.
+Template: {{templateLabel}}. {{templateInstructions}}
+
+Lead record:
+- Industry: {{industry}}
+- Estimated deal value: {{value}}
+- Tags: {{tags}}{{^tags}}none{{/tags}}
+- Owner: {{owner}}
+- Notes: {{notes}}{{^notes}}none{{/notes}}
+Recent activity:
+{{recent}}{{^recent}}- none{{/recent}}
+
+Deal analysis:
+{{analysis}}{{^analysis}}Not available.{{/analysis}}
+
+Plain text body, no markdown, sign off as {{owner}}. Do not promise returns or guaranteed outcomes.`
+    },
+    'ide.contract': {
+        title: 'Smart contract generation',
+        description: 'AssetToken.sol for the current phase, evolved from the previous version.',
+        version: 1,
+        variables: {
+            feature: { type: 'string', description: 'Feature phase the loop is working on.' },
+            userCount: { type: 'number', description: 'Fractional owners.' },
+            hooksFile: { type: 'string', description: 'Compliance hooks contract to import.' },
+            asset: { type: 'string', description: 'Active registry asset the token represents.', optional: true },
+            phaseGoal: { type: 'string', description: 'Description of the active roadmap phase.', optional: true },
+            acceptance: { type: 'string', description: 'Acceptance conditions of the active phase.', optional: true },
+            unmet: { type: 'string', description: 'Conditions the last iteration missed.', optional: true },
+            previous: { type: 'string', description: 'Current contract source.', optional: true }
+        },
+        body: `Generate a Solidity Smart Contract (AssetToken.sol) for {{feature}}.
+Context: Handling {{userCount}} fractional owners.
+{{#asset}}The token represents this asset; share classes, supply caps and lock-ups must match it:
+{{asset}}
+Take the token name, symbol and supply cap as constructor arguments.
+Enforce the compliance rules by importing "./{{hooksFile}}" and inheriting ComplianceHooks, which checks every mint and transfer in _update.
+If other ERC20 extensions also override _update, list ComplianceHooks in the override specifier and call super._update.
+{{/asset}}{{#phaseGoal}}Phase goal: {{phaseGoal}}
+The build must satisfy: {{acceptance}}.
+{{#unmet}}Last iteration fell short on: {{unmet}}.
+{{/unmet}}{{/phaseGoal}}Include OpenZeppelin imports and comments.
+Target pragma ^0.8.20 and OpenZeppelin Contracts v5 (import from "@openzeppelin/contracts/...").
+{{#previous}}Evolve the current version below rather than starting over:
+{{previous}}{{/previous}}`
+    },
+    'ide.compile-fix': {
+        title: 'Compile error fix',
+        description: 'Sent after a failed solc build, once per fix round.',
+        version: 1,
+        variables: {
+            file: { type: 'string', description: 'Contract file name.' },
+            compilerVersion: { type: 'string', description: 'solc version, e.g. 0.8.26.' },
+            errors: { type: 'string', description: 'Formatted compiler errors.' },
+            code: { type: 'string', description: 'Contract source that failed.' }
+        },
+        body: `The following Solidity contract ({{file}}) fails to compile with solc {{compilerVersion}} and OpenZeppelin Contracts v5.
+Fix every error and return ONLY the full corrected contract, no commentary.
+
+Compiler errors:
+{{errors}}
+
+Contract:
+{{code}}`
+    },
+    'ide.supporting-files': {
+        title: 'Supporting project files',
+        description: 'Oracle feed and Kubernetes manifest, validated against the supporting-files schema.',
+        version: 1,
+        variables: {
+            feature: { type: 'string', description: 'Feature phase the loop is working on.' },
+            userCount: { type: 'number', description: 'Fractional owners.' },
+            contractFile: { type: 'string', description: 'Contract file name.' },
+            contract: { type: 'string', description: 'Contract source.' },
+            oracleFile: { type: 'string', description: 'Oracle file name.' },
+            oracle: { type: 'string', description: 'Current oracle source.', optional: true },
+            manifestFile: { type: 'string', description: 'Manifest file name.' },
+            manifest: { type: 'string', description: 'Current manifest.', optional: true }
+        },
+        body: `Update the supporting files of the ADK project for the "{{feature}}" phase ({{userCount}} fractional owners).
+Keep what still applies from the current versions and change only what the phase requires.
+
+{{contractFile}}:
+{{contract}}
+
+Current {{oracleFile}}:
+{{oracle}}{{^oracle}}(none yet){{/oracle}}
+
+Current {{manifestFile}}:
+{{manifest}}{{^manifest}}(none yet){{/manifest}}`
+    },
+    'ide.copilot': {
+        title: 'ADK Copilot chat',
+        description: 'Added to the system instruction of every Copilot reply, so each answer sees the file as it is now.',
+        version: 1,
+        variables: {
+            files: { type: 'string', description: 'Project file names, comma-separated.' },
+            file: { type: 'string', description: 'File open in the editor.' },
+            language: { type: 'string', description: 'Language of the open file.' },
+            content: { type: 'string', description: 'Current content of the open file.', optional: true },
+            selection: { type: 'string', description: 'Text the developer selected.', optional: true },
+            selectionLines: { type: 'string', description: 'Line range of the selection, e.g. "12-18".', optional: true },
+            diagnostics: { type: 'string', description: 'Compiler errors and warnings of the latest build.', optional: true },
+            audit: { type: 'string', description: 'SecOps findings of the latest build, one per line.', optional: true }
+        },
+        body: `You are also the ADK Copilot, pair-programming with a developer in ADK Studio. Answer questions about the project and make the changes they ask for.
+Project files: {{files}}
+
+Open file: {{file}} ({{language}})
+{{#content}}\`\`\`{{language}}
+{{content}}
+\`\`\`
+{{/content}}{{^content}}The file is empty.
+{{/content}}{{#selection}}
+The developer selected lines {{selectionLines}}:
+\`\`\`{{language}}
+{{selection}}
+\`\`\`
+Questions about "this" or "here" refer to the selection.
+{{/selection}}{{#diagnostics}}
+Compiler output of the latest build:
+{{diagnostics}}
+{{/diagnostics}}{{#audit}}
+SecOps findings of the latest build:
+{{audit}}
+{{/audit}}
+Answer in concise markdown and cite line numbers when you refer to code.
+To change a file, include the COMPLETE new file in one fenced code block whose info string is the language followed by the file name, for example \`\`\`solidity AssetToken.sol. Never send partial files or elisions like "// ...rest unchanged"; the block replaces the whole file after the developer reviews the diff. Use one block per changed file, and plain fences without a file name for snippets that should not be applied.`
+    },
+    'marketing.research': {
+        title: 'Campaign research',
+        description: 'Search-grounded brief that every channel is written from.',
+        version: 1,
+        variables: {
+            topic: { type: 'string', description: 'Campaign topic.' },
+            feature: { type: 'string', description: 'Feature being promoted.' }
+        },
+        body: `Research what is currently being said about "{{topic}}", with an eye to promoting a platform feature: {{feature}}.
+Summarize in at most 200 words: trending keywords and hashtags, recent facts or figures worth quoting, and the objections a sceptical investor would raise.
+Only state facts that the search results support.`
+    },
+    'marketing.channel': {
+        title: 'Campaign channel copy',
+        description: 'A/B variants for one channel, validated against the channel schema.',
+        version: 1,
+        variables: {
+            channel: { type: 'string', description: 'Channel name, e.g. LinkedIn post.' },
+            phaseTitle: { type: 'string', description: 'Roadmap phase being promoted.' },
+            phaseGoal: { type: 'string', description: 'Description of that phase.' },
+            feature: { type: 'string', description: 'Feature being promoted.' },
+            topic: { type: 'string', description: 'Campaign topic.' },
+            research: { type: 'string', description: 'Research brief.' },
+            format: { type: 'string', description: 'Channel format rules, one per line.' }
+        },
+        body: `Write two A/B variants of {{channel}} copy promoting the ADK Platform's {{phaseTitle}} release.
+Phase goal: {{phaseGoal}}
+Feature: {{feature}}
+Campaign topic: {{topic}}
+
+Research brief (use only these facts):
+{{research}}
+
+Format for {{channel}}:
+{{format}}
+
+The two variants must test one clearly different angle (e.g. yield vs. compliance, data-led vs. story-led). Make no claims about guaranteed returns.`
+    },
+    'marketing.header-image': {
+        title: 'Campaign header image',
+        description: 'Image prompt for the campaign header.',
+        version: 1,
+        variables: {
+            topic: { type: 'string', description: 'Campaign topic.' },
+            feature: { type: 'string', description: 'Feature being promoted.' }
+        },
+        body: `A futuristic, high-tech header image for a campaign about {{topic}} and {{feature}}.
+Cyberpunk aesthetic, neon blue and purple, digital assets, blockchain nodes. High quality, 4k. No text.`
+    },
+    'nano.instruction': {
+        title: 'Nano Studio instruction',
+        description: 'Wraps the designer\'s prompt and says what each attached image is, since image models take no separate mask or reference fields.',
+        version: 1,
+        variables: {
+            prompt: { type: 'string', description: 'The designer\'s prompt.' },
+            hasBase: { type: 'boolean', description: 'An image to edit is attached first.', optional: true },
+            hasMask: { type: 'boolean', description: 'A mask is attached second.', optional: true },
+            references: { type: 'string', description: 'Which attached images are references, e.g. "Images 3-4 are reference images".', optional: true },
+            hasInputs: { type: 'boolean', description: 'Any image is attached.', optional: true }
+        },
+        body: `{{#hasBase}}Image 1 is the image to edit.
+{{/hasBase}}{{#hasMask}}Image 2 is a black and white mask the same size as image 1. Change only the area that is white in the mask, keep everything in the black area exactly as it is, and do not draw the mask itself.
+{{/hasMask}}{{#references}}{{references}} (for example a logo, product or property photo); use them as the instruction says.
+{{/references}}{{#hasInputs}}
+Instruction: {{/hasInputs}}{{prompt}}`
+    }
+} as const satisfies Record<string, PromptTemplateDefinition>;
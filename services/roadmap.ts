@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { LoopCheckpoint, PhaseStatus, RoadmapPhase } from '../types';
+import { describeCondition, describeFailure, evaluateConditions, validateConditions } from './conditions';
+import { loadJSON, saveJSON } from './storage';
+
+const STORAGE_KEY = 'roadmap.v1';
+const STATUSES: PhaseStatus[] = ['planned', 'active', 'done', 'blocked'];
+
+export const DEFAULT_ROADMAP: RoadmapPhase[] = [
+    {
+        id: 'tas-1',
+        title: 'Token Asset Standard (TAS-1)',
+        description: 'Fractional ERC-20 asset token with owner-controlled minting, pausing and a capped supply.',
+        infrastructure: 'Testnet Alpha',
+        acceptance: [
+            { path: 'outputs.ide.compiled', op: 'truthy', message: 'AssetToken compiles' },
+            { path: 'outputs.ide.audit.high', op: 'eq', value: 0, message: 'no high-severity SecOps findings' },
+            { path: 'outputs.deploy.contractAddress', op: 'truthy', message: 'deployed to the devnet' }
+        ],
+        maxIterations: 3,
+        status: 'planned',
+        iterations: 0
+    },
+    {
+        id: 'transfer-controls',
+        title: 'Transfer Restrictions & KYC Hooks',
+        description: 'Allowlist-gated transfers with per-holder caps so only verified investors can hold the asset.',
+        infrastructure: 'Testnet Alpha',
+        acceptance: [
+            { path: 'outputs.ide.complianceHooks', op: 'truthy', message: 'contract enforces the asset compliance rules' },
+            { path: 'outputs.ide.audit.high', op: 'eq', value: 0, message: 'no high-severity SecOps findings' },
+            { path: 'outputs.ide.audit.medium', op: 'eq', value: 0, message: 'no WARNING-level SecOps findings' },
+            { path: 'outputs.deploy.contractAddress', op: 'truthy', message: 'deployed to the devnet' },
+            { path: 'outputs.crm.created', op: 'gte', value: 1, message: 'campaign produced new leads' }
+        ],
+        maxIterations: 3,
+        status: 'planned',
+        iterations: 0
+    },
+    {
+        id: 'l2-scaling',
+        title: 'Layer 2 Scaling (Optimism)',
+        description: 'Gas-lean contract suitable for an L2 rollout, with batched distributions.',
+        infrastructure: 'Mainnet + L2',
+        acceptance: [
+            { path: 'outputs.deploy.gasUsed', op: 'lte', value: 3000000, message: 'deployment uses at most 3M gas' },
+            { path: 'outputs.crm.won', op: 'gte', value: 1, message: 'at least one won deal' }
+        ],
+        maxIterations: 3,
+        status: 'planned',
+        iterations: 0
+    },
+    {
+        id: 'secondary-market',
+        title: 'Secondary Market & Dividend Distribution',
+        description: 'Peer-to-peer trading of shares and pro-rata income distribution to holders.',
+        infrastructure: 'Mainnet + L2',
+        acceptance: [
+            { path: 'outputs.deploy.contractAddress', op: 'truthy', message: 'deployed' },
+            { path: 'context.userCount', op: 'gte', value: 3, message: 'three or more won customers' }
+        ],
+        maxIterations: 3,
+        status: 'planned',
+        iterations: 0
+    }
+];
+
+/** A fresh copy of the built-in roadmap; DEFAULT_ROADMAP itself is never handed out to be mutated. */
+export function defaultRoadmap(): RoadmapPhase[] {
+    return structuredClone(DEFAULT_ROADMAP);
+}
+
+let phases: RoadmapPhase[] = loadJSON<RoadmapPhase[]>(STORAGE_KEY, defaultRoadmap());
+
+function persist() {
+    saveJSON(STORAGE_KEY, phases);
+}
+
+export function getRoadmap(): RoadmapPhase[] {
+    return phases;
+}
+
+/** The phase in progress, or the first planned one if none has started. Changes nothing. */
+export function activePhase(): RoadmapPhase | undefined {
+    return phases.find(p => p.status === 'active') || phases.find(p => p.status === 'planned');
+}
+
+/** Marks the first planned phase active if none is, and returns the active phase. */
+export function startPhase(): RoadmapPhase | undefined {
+    const phase = activePhase();
+    if (phase?.status === 'planned') {
+        phase.status = 'active';
+        phase.startedAt = new Date().toISOString();
+        persist();
+    }
+    return phase;
+}
+
+export function validateRoadmap(candidate: unknown): string[] {
+    if (!Array.isArray(candidate) || candidate.length === 0) return ['Roadmap must be a non-empty array of phases.'];
+    const errors: string[] = [];
+    const ids = new Set<string>();
+    candidate.forEach((phase: any, i) => {
+        const at = `Phase ${i + 1}`;
+        if (!phase || typeof phase !== 'object') return errors.push(`${at}: must be an object.`);
+        if (typeof phase.id !== 'string' || !/^[a-z0-9_-]+$/.test(phase.id)) errors.push(`${at}: id must be lowercase letters, digits, "-" or "_".`);
+        else if (ids.has(phase.id)) errors.push(`${at}: duplicate id "${phase.id}".`);
+        else ids.add(phase.id);
+        for (const key of ['title', 'description', 'infrastructure']) {
+            if (typeof phase[key] !== 'string' || !phase[key].trim()) errors.push(`${at}: ${key} is required.`);
+        }
+        if (!STATUSES.includes(phase.status)) errors.push(`${at}: status must be one of ${STATUSES.join(', ')}.`);
+        if (!Number.isInteger(phase.maxIterations) || phase.maxIterations < 1) errors.push(`${at}: maxIterations must be a positive integer.`);
+        if (phase.iterations !== undefined && (!Number.isInteger(phase.iterations) || phase.iterations < 0)) errors.push(`${at}: iterations must be a non-negative integer.`);
+        errors.push(...validateConditions(phase.acceptance, `${at} acceptance`));
+    });
+    if (candidate.filter((p: any) => p?.status === 'active').length > 1) errors.push('Only one phase can be active.');
+    return errors;
+}
+
+export function saveRoadmap(next: RoadmapPhase[]) {
+    const errors = validateRoadmap(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    phases = next.map(p => ({ ...p, iterations: p.iterations || 0 }));
+    persist();
+}
+
+/**
+ * Scores the active phase against one loop iteration's outputs. A phase
+ * whose criteria all hold is done; one that runs out of iterations is
+ * blocked. Either way the next planned phase becomes active.
+ */
+export function evaluateIteration(cp: LoopCheckpoint): { phase: RoadmapPhase, outcome: 'done' | 'continue' | 'blocked', next?: RoadmapPhase } | null {
+    const phase = startPhase();
+    if (!phase) return null;
+
+    const results = evaluateConditions(phase.acceptance, { outputs: cp.outputs, context: cp.context, iteration: cp.iteration });
+    const now = new Date().toISOString();
+    phase.iterations++;
+    phase.lastEvaluation = {
+        at: now,
+        iteration: cp.iteration,
+        met: results.filter(r => r.passed).map(r => describeCondition(r.condition)),
+        unmet: results.filter(r => !r.passed).map(describeFailure)
+    };
+
+    let outcome: 'done' | 'continue' | 'blocked' = 'continue';
+    if (!phase.lastEvaluation.unmet.length) outcome = 'done';
+    else if (phase.iterations >= phase.maxIterations) outcome = 'blocked';
+
+    if (outcome !== 'continue') {
+        phase.status = outcome;
+        phase.completedAt = now;
+    }
+    persist();
+    return { phase, outcome, next: outcome === 'continue' ? phase : startPhase() };
+}
+
+/** Roadmap state as plain text for model prompts. */
+export function describeRoadmap(): string {
+    const active = activePhase();
+    const lines = phases.map((p, i) => {
+        const marker = p === active ? '▶' : p.status === 'done' ? '✔' : p.status === 'blocked' ? '✖' : '·';
+        return `${marker} ${i + 1}. ${p.title} [${p.status}${p.iterations ? `, ${p.iterations}/${p.maxIterations} iterations` : ''}]`;
+    });
+    if (active) {
+        lines.push('', `Active phase: ${active.title}. ${active.description}`);
+        lines.push(`Acceptance criteria: ${active.acceptance.map(describeCondition).join('; ')}.`);
+        if (active.lastEvaluation?.unmet.length) lines.push(`Unmet last iteration: ${active.lastEvaluation.unmet.join('; ')}.`);
+    } else {
+        lines.push('', 'Every roadmap phase is finished.');
+    }
+    return lines.join('\n');
+}
@@ -0,0 +1,160 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { LoopContext, RunLogEntry } from '../types';
+import type { ModelChunk, ModelProvider } from './modelProvider';
+
+/**
+ * Append-only audit trail of agent calls and their outcomes. Entries hold
+ * full prompts and responses (including generated images), which outgrow
+ * localStorage quickly, so the log lives in IndexedDB. Nothing here updates
+ * or deletes an entry, and each one carries the hash of its predecessor.
+ */
+
+const DB_NAME = 'nimbus.runlog';
+const STORE = 'entries';
+const GENESIS = '0'.repeat(64);
+
+export interface RunLogScope {
+    view: string;
+    runId?: string;
+    context: LoopContext;
+}
+
+type NewEntry = Omit<RunLogEntry, 'seq' | 'prevHash' | 'hash' | 'context' | 'view' | 'runId' | 'at'> & { at?: string };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Appends are serialized so each one sees the previous entry's hash.
+let tail: Promise<unknown> = Promise.resolve();
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'seq' });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+async function sha256(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function hashInput(entry: RunLogEntry): string {
+    const { hash, ...rest } = entry;
+    return JSON.stringify(rest);
+}
+
+async function lastEntry(db: IDBDatabase): Promise<RunLogEntry | undefined> {
+    const cursor = await request(db.transaction(STORE).objectStore(STORE).openCursor(null, 'prev'));
+    return cursor?.value as RunLogEntry | undefined;
+}
+
+export function appendEntry(scope: RunLogScope, entry: NewEntry): Promise<RunLogEntry> {
+    const next = tail.then(async () => {
+        const db = await openDb();
+        const prev = await lastEntry(db);
+        const record: RunLogEntry = {
+            seq: (prev?.seq ?? 0) + 1,
+            at: new Date().toISOString(),
+            view: scope.view,
+            runId: scope.runId,
+            context: { ...scope.context },
+            ...entry,
+            prevHash: prev?.hash ?? GENESIS,
+            hash: ''
+        };
+        record.hash = await sha256(hashInput(record));
+        await request(db.transaction(STORE, 'readwrite').objectStore(STORE).add(record));
+        return record;
+    });
+    tail = next.catch(e => console.error('Run log append failed', e));
+    return next;
+}
+
+/** Records a non-model outcome (build, audit verdict, deployment...). */
+export function logEvent(scope: RunLogScope, event: string, data: unknown, durationMs = 0) {
+    return appendEntry(scope, { kind: 'event', event, data, durationMs });
+}
+
+export async function listEntries(): Promise<RunLogEntry[]> {
+    const db = await openDb();
+    return request(db.transaction(STORE).objectStore(STORE).getAll()) as Promise<RunLogEntry[]>;
+}
+
+/** Recomputes the hash chain; returns the first entry that does not match. */
+export async function verifyChain(): Promise<{ ok: boolean, checked: number, brokenAt?: number }> {
+    const entries = await listEntries();
+    let prevHash = GENESIS;
+    for (const entry of entries) {
+        if (entry.prevHash !== prevHash || entry.hash !== await sha256(hashInput(entry))) {
+            return { ok: false, checked: entries.length, brokenAt: entry.seq };
+        }
+        prevHash = entry.hash;
+    }
+    return { ok: true, checked: entries.length };
+}
+
+export function toJsonl(entries: RunLogEntry[]): string {
+    return entries.map(e => JSON.stringify(e)).join('\n') + (entries.length ? '\n' : '');
+}
+
+/**
+ * Wraps a provider so every call lands in the run log with its request,
+ * response, timing and the scope (view, loop run, context) it ran under.
+ * The request's template refs are logged alongside it and stripped before
+ * the call goes out. Logging failures never fail the call itself.
+ */
+export function createRunLogProvider(inner: ModelProvider, scope: () => RunLogScope): ModelProvider {
+    const log = (entry: NewEntry) => {
+        appendEntry(scope(), entry).catch(() => { /* reported by appendEntry */ });
+    };
+
+    return {
+        name: `log(${inner.name})`,
+
+        async generate({ prompts, ...req }) {
+            const started = performance.now();
+            const at = new Date().toISOString();
+            try {
+                const response = await inner.generate(req);
+                log({ kind: 'model', at, model: req.model, request: req, prompts, stream: false, response, durationMs: Math.round(performance.now() - started) });
+                return response;
+            } catch (e: any) {
+                log({ kind: 'model', at, model: req.model, request: req, prompts, stream: false, error: e?.message || String(e), durationMs: Math.round(performance.now() - started) });
+                throw e;
+            }
+        },
+
+        async *generateStream({ prompts, ...req }) {
+            const started = performance.now();
+            const at = new Date().toISOString();
+            const chunks: ModelChunk[] = [];
+            try {
+                for await (const chunk of inner.generateStream(req)) {
+                    chunks.push(chunk);
+                    yield chunk;
+                }
+            } catch (e: any) {
+                log({
+                    kind: 'model', at, model: req.model, request: req, prompts, stream: true,
+                    response: { text: chunks.map(c => c.text).join(''), parts: [] },
+                    error: e?.message || String(e), durationMs: Math.round(performance.now() - started)
+                });
+                throw e;
+            }
+            const text = chunks.map(c => c.text).join('');
+            log({ kind: 'model', at, model: req.model, request: req, prompts, stream: true, response: { text, parts: [{ text }] }, durationMs: Math.round(performance.now() - started) });
+        }
+    };
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import DOMPurify from 'dompurify';
+import { marked } from 'marked';
+import type { InlineData } from './modelProvider';
+
+/**
+ * The one way model output, user input and stored records reach the DOM.
+ * Plain fields are escaped with escapeHtml before being interpolated into
+ * templates; markdown and HTML go through renderMarkdown or sanitizeHtml,
+ * which keep a strict allowlist of formatting tags. Links may only point
+ * to http(s) or mailto URLs and images may only be inline data, so
+ * rendered content can never load a remote resource or run script.
+ */
+
+const ALLOWED_TAGS = [
+    'a', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i',
+    'img', 'li', 'mark', 'ol', 'p', 'pre', 's', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul'
+];
+const ALLOWED_ATTR = ['alt', 'class', 'colspan', 'href', 'rowspan', 'src', 'title'];
+const SAFE_LINK = /^(https?:|mailto:|#)/i;
+const SAFE_IMAGE = /^data:image\/(png|jpeg|webp|gif);base64,[a-z0-9+/=\s]+$/i;
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Hooks are global to DOMPurify, which only this module uses.
+DOMPurify.addHook('afterSanitizeAttributes', node => {
+    if (node.tagName === 'IMG' && !SAFE_IMAGE.test(node.getAttribute('src') || '')) {
+        node.remove();
+        return;
+    }
+    if (node.tagName === 'A') {
+        const href = node.getAttribute('href') || '';
+        if (!SAFE_LINK.test(href.trim())) node.removeAttribute('href');
+        else if (!href.startsWith('#')) {
+            node.setAttribute('target', '_blank');
+            node.setAttribute('rel', 'noopener noreferrer');
+        }
+    }
+});
+
+export function escapeHtml(value: unknown): string {
+    return String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+}
+
+export function sanitizeHtml(html: string): string {
+    return DOMPurify.sanitize(html, { ALLOWED_TAGS, ALLOWED_ATTR, ADD_ATTR: ['target', 'rel'], ALLOW_DATA_ATTR: false });
+}
+
+export async function renderMarkdown(markdown: string): Promise<string> {
+    return sanitizeHtml(await marked.parse(markdown));
+}
+
+/** An href for a link from model output or a record: http(s) and mailto only, otherwise "#". */
+export function safeUrl(url: string | undefined): string {
+    const trimmed = (url || '').trim();
+    return /^(https?:|mailto:)/i.test(trimmed) ? escapeHtml(trimmed) : '#';
+}
+
+/** A data URL for a generated or uploaded image, refusing anything but known image types. */
+export function imageSrc(image: InlineData): string {
+    if (!IMAGE_TYPES.includes(image.mimeType) || !/^[a-z0-9+/=\s]*$/i.test(image.data)) return '';
+    return `data:${image.mimeType};base64,${image.data}`;
+}
+
+// --- CHECKS ---
+
+const EVENT_ATTR = /^on/i;
+const SCRIPT_URL = /^(javascript|vbscript|data:text)/i;
+// Browsers drop tabs and newlines anywhere in a URL and control characters around it.
+const URL_IGNORED = /[\x00-\x20\x7f]/g;
+const CHART_SHAPES = ['polyline'];
+
+/**
+ * What makes a rendered fragment unsafe: script-capable elements, event
+ * handler attributes, script URLs, inline styles and images from anywhere
+ * but inline data. An SVG passes only as a chart of plain shapes, like the
+ * market watch sparklines. Used by the injection corpus; empty means safe.
+ */
+export function findUnsafeMarkup(html: string): string[] {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const problems: string[] = [];
+    template.content.querySelectorAll('*').forEach(el => {
+        const tag = el.tagName.toLowerCase();
+        const chart = tag === 'svg' && Array.from(el.querySelectorAll('*')).every(c => CHART_SHAPES.includes(c.tagName.toLowerCase()));
+        if (['script', 'iframe', 'object', 'embed', 'form', 'style', 'link', 'meta', 'base', 'svg', 'math'].includes(tag) && !chart) problems.push(`<${tag}> element`);
+        for (const { name, value } of Array.from(el.attributes)) {
+            if (EVENT_ATTR.test(name)) problems.push(`${name} handler on <${tag}>`);
+            if (['href', 'src', 'action', 'formaction', 'xlink:href'].includes(name) && SCRIPT_URL.test(value.replace(URL_IGNORED, '')) && !SAFE_IMAGE.test(value)) problems.push(`${name}="${value.slice(0, 40)}" on <${tag}>`);
+            if (name === 'style' && /url\(|expression\(/i.test(value)) problems.push(`style with url() on <${tag}>`);
+        }
+        if (tag === 'img' && !SAFE_IMAGE.test(el.getAttribute('src') || '')) problems.push(`remote image ${el.getAttribute('src')?.slice(0, 40)}`);
+    });
+    return problems;
+}
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { Lead, SandboxAsset } from '../types';
+import { parseDealValue } from './pipeline';
+import { loadJSON, newId, saveJSON } from './storage';
+
+const STORAGE_KEY = 'crm.sandboxes.v1';
+const SANDBOX_TTL_DAYS = 14;
+const DEMO_SUPPLY = 1_000_000;
+
+let sandboxes: SandboxAsset[] = loadJSON<SandboxAsset[]>(STORAGE_KEY, []);
+
+function persist() {
+    saveJSON(STORAGE_KEY, sandboxes);
+}
+
+function symbolFor(company: string) {
+    const initials = company.split(/\s+/).filter(Boolean).map(w => w[0]).join('').toUpperCase().replace(/[^A-Z]/g, '');
+    return `${(initials || 'ADK').slice(0, 4)}-DEMO`;
+}
+
+function pseudoAddress(seed: string) {
+    let hex = '';
+    for (let i = 0; hex.length < 40; i++) {
+        let h = 2166136261;
+        for (const ch of `${seed}:${i}`) h = Math.imul(h ^ ch.charCodeAt(0), 16777619);
+        hex += (h >>> 0).toString(16).padStart(8, '0');
+    }
+    return `0x${hex.slice(0, 40)}`;
+}
+
+export function getSandboxForLead(leadId: string): SandboxAsset | undefined {
+    const now = new Date().toISOString();
+    return sandboxes.find(s => s.leadId === leadId && s.expiresAt > now);
+}
+
+/**
+ * Provisions a demo tokenized asset scoped to one lead: the whole demo
+ * supply is held by the prospect so they can try transfers without
+ * touching anyone else's data. Reuses the lead's live sandbox if present.
+ */
+export function provisionSandbox(lead: Lead): { asset: SandboxAsset, created: boolean } {
+    const existing = getSandboxForLead(lead.id);
+    if (existing) return { asset: existing, created: false };
+
+    const id = newId('sbx');
+    const created = new Date();
+    const asset: SandboxAsset = {
+        id,
+        leadId: lead.id,
+        name: `${lead.company} Demo Asset`,
+        symbol: symbolFor(lead.company),
+        totalSupply: DEMO_SUPPLY,
+        valuationUsd: parseDealValue(lead.value),
+        address: pseudoAddress(id),
+        holders: { [lead.company]: DEMO_SUPPLY },
+        createdAt: created.toISOString(),
+        expiresAt: new Date(created.getTime() + SANDBOX_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString()
+    };
+    sandboxes.push(asset);
+    persist();
+    return { asset, created: true };
+}
@@ -0,0 +1,62 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Schema, Type } from "@google/genai";
+
+/**
+ * responseSchema for AI-generated CRM leads (LeadInput[]). Stage ids come
+ * from the live pipeline's entry stages, so the model can only pick stages
+ * that exist and that a new lead may start in.
+ */
+export function leadInputListSchema(stageIds: string[]): Schema {
+    return {
+        type: Type.ARRAY,
+        minItems: '1',
+        items: {
+            type: Type.OBJECT,
+            properties: {
+                company: { type: Type.STRING, minLength: '2', description: 'Legal or trading name of the prospect.' },
+                value: { type: Type.STRING, minLength: '1', description: 'Estimated deal value in USD, e.g. "$12.5M".' },
+                status: { type: Type.STRING, enum: stageIds, description: 'Pipeline stage id.' },
+                tags: { type: Type.ARRAY, items: { type: Type.STRING, minLength: '1' } },
+                industry: { type: Type.STRING, minLength: '2' }
+            },
+            required: ['company', 'value', 'status', 'tags', 'industry'],
+            propertyOrdering: ['company', 'value', 'status', 'tags', 'industry']
+        }
+    };
+}
+
+/**
+ * responseSchema for the non-contract files of the ADK project, generated
+ * once per feature phase alongside AssetToken.sol.
+ */
+export const supportingFilesSchema: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        oracleFeed: { type: Type.STRING, minLength: '20', description: 'Full contents of oracle_feed.py: a Python price/valuation oracle that pushes updates to the contract.' },
+        deployManifest: { type: Type.STRING, minLength: '20', description: 'Full contents of deploy_k8s.yaml: Kubernetes manifests for the oracle and RPC gateway.' }
+    },
+    required: ['oracleFeed', 'deployManifest'],
+    propertyOrdering: ['oracleFeed', 'deployManifest']
+};
+
+/**
+ * responseSchema for one marketing channel's A/B pair. Length limits are
+ * left to the channel rules so an over-long variant is flagged for review
+ * rather than thrown away.
+ */
+export function channelVariantsSchema(maxSegments: number, headline: boolean): Schema {
+    const variant: Schema = {
+        type: Type.OBJECT,
+        properties: {
+            angle: { type: Type.STRING, minLength: '5', description: 'One sentence on what this variant does differently from the other.' },
+            headline: { type: Type.STRING, minLength: headline ? '5' : undefined, description: headline ? 'Title or subject line.' : 'Leave empty.' },
+            segments: { type: Type.ARRAY, minItems: '1', maxItems: String(maxSegments), items: { type: Type.STRING, minLength: '10' } }
+        },
+        required: ['angle', 'headline', 'segments'],
+        propertyOrdering: ['angle', 'headline', 'segments']
+    };
+    return { type: Type.ARRAY, minItems: '2', maxItems: '2', items: variant };
+}
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { AuditReport, FindingSeverity, SecurityFinding } from '../types';
+import { offsetToLineColumn } from './sourceLocation';
+
+export const ANALYZER_VERSION = 'nimbus-secops/1.0';
+
+type Node = { nodeType: string, id: number, src: string, [key: string]: any };
+
+const LOW_LEVEL_CALLS = ['call', 'delegatecall', 'staticcall', 'send'];
+const ACCESS_MODIFIER = /^(only|auth|restricted|requires?Role)/i;
+/** OpenZeppelin internal checks that revert on their own. */
+const ACCESS_CHECK_CALLS = ['_checkOwner', '_checkRole'];
+
+// --- AST HELPERS ---
+
+function isNode(value: unknown): value is Node {
+    return !!value && typeof value === 'object' && typeof (value as Node).nodeType === 'string';
+}
+
+/** Depth-first walk in source order, passing each node's ancestors. */
+function walk(node: Node, visit: (n: Node, ancestors: Node[]) => void, ancestors: Node[] = []) {
+    visit(node, ancestors);
+    const next = [...ancestors, node];
+    for (const value of Object.values(node)) {
+        if (Array.isArray(value)) value.forEach(v => isNode(v) && walk(v, visit, next));
+        else if (isNode(value)) walk(value, visit, next);
+    }
+}
+
+function collect(node: Node, predicate: (n: Node, ancestors: Node[]) => boolean): Node[] {
+    const out: Node[] = [];
+    walk(node, (n, a) => { if (predicate(n, a)) out.push(n); });
+    return out;
+}
+
+function offsetOf(node: Node) {
+    return parseInt(node.src.split(':')[0], 10);
+}
+
+/** Unwraps `x.call{value: v}(...)` to the underlying member access. */
+function callee(call: Node): Node {
+    return call.expression?.nodeType === 'FunctionCallOptions' ? call.expression.expression : call.expression;
+}
+
+function typeOf(node: Node | undefined): string {
+    return node?.typeDescriptions?.typeString || '';
+}
+
+function isMsgSender(node: Node | undefined): boolean {
+    if (!node) return false;
+    if (node.nodeType === 'MemberAccess' && node.memberName === 'sender' && node.expression?.name === 'msg') return true;
+    return node.nodeType === 'FunctionCall' && callee(node)?.name === '_msgSender';
+}
+
+/** Root identifier of an lvalue such as `balances[a][b].x`. */
+function baseIdentifier(node: Node | undefined): Node | undefined {
+    while (node && (node.nodeType === 'IndexAccess' || node.nodeType === 'MemberAccess')) {
+        node = node.nodeType === 'IndexAccess' ? node.baseExpression : node.expression;
+    }
+    return node?.nodeType === 'Identifier' ? node : undefined;
+}
+
+function isExternalCall(call: Node): boolean {
+    const target = callee(call);
+    if (target?.nodeType !== 'MemberAccess') return false;
+    if (LOW_LEVEL_CALLS.includes(target.memberName) && typeOf(target.expression).startsWith('address')) return target.memberName !== 'send';
+    return typeOf(target.expression).startsWith('contract ') && call.kind === 'functionCall';
+}
+
+function isInCondition(node: Node, ancestors: Node[]): boolean {
+    for (let i = ancestors.length - 1; i >= 0; i--) {
+        const a = ancestors[i];
+        if ((a.nodeType === 'IfStatement' || a.nodeType === 'Conditional') && (a.condition === node || collect(a.condition, n => n === node).length)) return true;
+        if (a.nodeType === 'FunctionCall' && ['require', 'assert'].includes(callee(a)?.name)) return true;
+        if (a.nodeType === 'Block' || a.nodeType === 'FunctionDefinition') return false;
+    }
+    return false;
+}
+
+/**
+ * A condition that pins the caller to owner or role state:
+ * `msg.sender == owner` / `owner()`, `hasRole(ROLE, msg.sender)` or a
+ * boolean state mapping such as `minters[msg.sender]`. Anything else that
+ * merely mentions the caller, like `balanceOf(msg.sender) > 0`, does not
+ * restrict who may call.
+ */
+function isCallerCheck(n: Node, stateVarIds: Set<number>): boolean {
+    const isOwnerState = (side: Node | undefined) =>
+        (side?.nodeType === 'Identifier' && stateVarIds.has(side.referencedDeclaration) && typeOf(side).startsWith('address'))
+        || (side?.nodeType === 'FunctionCall' && callee(side)?.name === 'owner');
+    if (n.nodeType === 'BinaryOperation' && ['==', '!='].includes(n.operator)) {
+        return (isMsgSender(n.leftExpression) && isOwnerState(n.rightExpression))
+            || (isMsgSender(n.rightExpression) && isOwnerState(n.leftExpression));
+    }
+    if (n.nodeType === 'FunctionCall' && callee(n)?.name === 'hasRole') {
+        return (n.arguments || []).some((a: Node) => isMsgSender(a));
+    }
+    if (n.nodeType === 'IndexAccess' && typeOf(n) === 'bool') {
+        return isMsgSender(n.indexExpression) && stateVarIds.has(baseIdentifier(n)?.referencedDeclaration);
+    }
+    return false;
+}
+
+// --- RULES ---
+
+interface RuleContext {
+    contract: Node;
+    fn: Node;
+    stateVarIds: Set<number>;
+    report: (node: Node, finding: Omit<SecurityFinding, 'line' | 'column' | 'contract' | 'function'>) => void;
+}
+
+/** SWC-107: state written after an external call without a reentrancy guard. */
+function ruleReentrancy({ fn, stateVarIds, report }: RuleContext) {
+    if (!fn.body || fn.modifiers?.some((m: Node) => /nonReentrant/i.test(m.modifierName?.name))) return;
+    const calls = collect(fn.body, n => n.nodeType === 'FunctionCall' && isExternalCall(n));
+    if (!calls.length) return;
+
+    const writes = collect(fn.body, n =>
+        (n.nodeType === 'Assignment' && stateVarIds.has(baseIdentifier(n.leftHandSide)?.referencedDeclaration)) ||
+        (n.nodeType === 'UnaryOperation' && ['++', '--', 'delete'].includes(n.operator) && stateVarIds.has(baseIdentifier(n.subExpression)?.referencedDeclaration)));
+
+    const firstCall = calls[0];
+    const lateWrite = writes.find(w => offsetOf(w) > offsetOf(firstCall));
+    if (!lateWrite) return;
+    const variable = baseIdentifier(lateWrite.leftHandSide || lateWrite.subExpression)?.name;
+    const lowLevel = LOW_LEVEL_CALLS.includes(callee(firstCall)?.memberName);
+    report(firstCall, {
+        ruleId: 'reentrancy',
+        swc: 'SWC-107',
+        // Raw calls hand over all remaining gas; typed contract calls are usually known tokens.
+        severity: lowLevel ? 'high' : 'medium',
+        title: 'Reentrancy: state updated after external call',
+        message: `\`${fn.name}\` makes an external call before writing \`${variable}\`. A malicious callee can re-enter and act on stale state.`,
+        recommendation: 'Apply checks-effects-interactions (update state before calling out) or add OpenZeppelin ReentrancyGuard `nonReentrant`.'
+    });
+}
+
+/** SWC-104: low-level call whose success flag is ignored. */
+function ruleUncheckedCall({ fn, report }: RuleContext) {
+    if (!fn.body) return;
+    walk(fn.body, (n, ancestors) => {
+        if (n.nodeType !== 'FunctionCall') return;
+        const target = callee(n);
+        if (target?.nodeType !== 'MemberAccess' || !LOW_LEVEL_CALLS.includes(target.memberName)) return;
+        if (!typeOf(target.expression).startsWith('address')) return;
+
+        const parent = ancestors[ancestors.length - 1];
+        let unchecked = parent?.nodeType === 'ExpressionStatement';
+        if (parent?.nodeType === 'VariableDeclarationStatement') {
+            const success = parent.declarations?.[0];
+            unchecked = !success || !collect(fn.body, m => m.nodeType === 'Identifier' && m.referencedDeclaration === success.id).length;
+        }
+        if (!unchecked) return;
+        report(n, {
+            ruleId: 'unchecked-call',
+            swc: 'SWC-104',
+            severity: target.memberName === 'delegatecall' ? 'high' : 'medium',
+            title: `Unchecked low-level ${target.memberName}`,
+            message: `The return value of \`.${target.memberName}\` in \`${fn.name}\` is never checked, so failures pass silently.`,
+            recommendation: 'Capture the success flag and `require(success)`, or use OpenZeppelin `Address.sendValue` / `functionCall`.'
+        });
+    });
+}
+
+/** SWC-105/106: public mint or burn callable by anyone. */
+function ruleUnprotectedMintBurn({ fn, stateVarIds, report }: RuleContext) {
+    if (fn.kind !== 'function' || !fn.body || !['public', 'external'].includes(fn.visibility)) return;
+    if (['view', 'pure'].includes(fn.stateMutability)) return;
+    const name: string = fn.name || '';
+    const isMint = /mint/i.test(name);
+    const isBurn = /burn/i.test(name);
+    if ((!isMint && !isBurn) || name.startsWith('_')) return;
+
+    if (fn.modifiers?.some((m: Node) => ACCESS_MODIFIER.test(m.modifierName?.name || ''))) return;
+
+    const guarded = collect(fn.body, (n, ancestors) =>
+        (n.nodeType === 'FunctionCall' && ACCESS_CHECK_CALLS.includes(callee(n)?.name)) ||
+        (isCallerCheck(n, stateVarIds) && isInCondition(n, ancestors))
+    ).length > 0;
+    if (guarded) return;
+
+    if (isBurn && !isMint) {
+        // Burning your own tokens (or via allowance) is the ERC20Burnable pattern.
+        const burns = collect(fn.body, n => n.nodeType === 'FunctionCall' && callee(n)?.name === '_burn');
+        const allowance = collect(fn.body, n => n.nodeType === 'FunctionCall' && callee(n)?.name === '_spendAllowance').length > 0;
+        if (allowance || (burns.length && burns.every(b => isMsgSender(b.arguments?.[0])))) return;
+    }
+
+    report(fn, {
+        ruleId: 'unprotected-mint-burn',
+        swc: 'SWC-105',
+        severity: 'high',
+        title: `Missing access control on \`${name}\``,
+        message: `\`${name}\` is ${fn.visibility} and changes supply, but has no access-control modifier or caller check.`,
+        recommendation: 'Restrict it with `onlyOwner` / `onlyRole(MINTER_ROLE)` or check the caller explicitly.'
+    });
+}
+
+/** SWC-115: authorisation based on tx.origin. */
+function ruleTxOrigin({ fn, report }: RuleContext) {
+    if (!fn.body) return;
+    walk(fn.body, (n, ancestors) => {
+        if (n.nodeType !== 'MemberAccess' || n.memberName !== 'origin' || n.expression?.name !== 'tx') return;
+        const comparison = [...ancestors].reverse().find(a => a.nodeType === 'BinaryOperation' && ['==', '!='].includes(a.operator));
+        if (!comparison) return;
+        report(n, {
+            ruleId: 'tx-origin-auth',
+            swc: 'SWC-115',
+            severity: 'high',
+            title: 'Authorization via tx.origin',
+            message: `\`${fn.name || fn.kind}\` compares \`tx.origin\`; any contract the owner calls can act with the owner's authority.`,
+            recommendation: 'Use `msg.sender` for authorization.'
+        });
+    });
+}
+
+/** SWC-128: loop bounded by the length of a growing storage array. */
+function ruleUnboundedLoop({ fn, stateVarIds, report }: RuleContext) {
+    if (!fn.body) return;
+    const loops = collect(fn.body, n => ['ForStatement', 'WhileStatement', 'DoWhileStatement'].includes(n.nodeType));
+    for (const loop of loops) {
+        if (!loop.condition) continue;
+        const lengthOf = collect(loop.condition, n =>
+            n.nodeType === 'MemberAccess' && n.memberName === 'length' && stateVarIds.has(baseIdentifier(n.expression)?.referencedDeclaration));
+        if (!lengthOf.length) continue;
+        const array = baseIdentifier(lengthOf[0].expression)?.name;
+        report(loop, {
+            ruleId: 'unbounded-loop',
+            swc: 'SWC-128',
+            severity: ['public', 'external'].includes(fn.visibility) && !['view', 'pure'].includes(fn.stateMutability) ? 'medium' : 'low',
+            title: `Unbounded loop over \`${array}\``,
+            message: `\`${fn.name}\` iterates over every entry of storage array \`${array}\`. As holders grow the call exceeds the block gas limit and reverts permanently.`,
+            recommendation: 'Avoid iterating holders on-chain: use pull-based claims, pagination, or off-chain indexing.'
+        });
+    }
+}
+
+const RULES = [ruleReentrancy, ruleUncheckedCall, ruleUnprotectedMintBurn, ruleTxOrigin, ruleUnboundedLoop];
+
+// --- ENTRY POINTS ---
+
+/**
+ * Runs every rule over every function of every contract in the AST.
+ * Findings are sorted by severity, then by line.
+ */
+export function analyzeContract(ast: Node, source: string): AuditReport {
+    const findings: SecurityFinding[] = [];
+    const contracts = (ast.nodes || []).filter((n: Node) => n.nodeType === 'ContractDefinition' && n.contractKind !== 'interface');
+
+    for (const contract of contracts) {
+        const stateVarIds = new Set<number>(contract.nodes
+            .filter((n: Node) => n.nodeType === 'VariableDeclaration' && n.stateVariable && !n.constant && n.mutability !== 'immutable')
+            .map((n: Node) => n.id));
+        const functions = contract.nodes.filter((n: Node) => n.nodeType === 'FunctionDefinition' || n.nodeType === 'ModifierDefinition');
+
+        for (const fn of functions) {
+            const report: RuleContext['report'] = (node, finding) => {
+                const { line, column } = offsetToLineColumn(source, offsetOf(node));
+                findings.push({ ...finding, contract: contract.name, function: fn.name || fn.kind, line, column });
+            };
+            RULES.forEach(rule => rule({ contract, fn, stateVarIds, report }));
+        }
+    }
+
+    const rank: Record<FindingSeverity, number> = { high: 0, medium: 1, low: 2 };
+    findings.sort((a, b) => rank[a.severity] - rank[b.severity] || a.line - b.line);
+    const counts: Record<FindingSeverity, number> = { high: 0, medium: 0, low: 0 };
+    findings.forEach(f => counts[f.severity]++);
+
+    return {
+        analyzedAt: new Date().toISOString(),
+        analyzer: ANALYZER_VERSION,
+        findings,
+        counts,
+        passed: counts.high === 0
+    };
+}
+
+export function auditToMarkdown(report: AuditReport, fileName: string, buildId: string): string {
+    const header = `# Security Audit — ${fileName}
+
+- Build: \`${buildId}\`
+- Analyzer: ${report.analyzer}
+- Analyzed: ${report.analyzedAt}
+- Result: **${report.passed ? 'PASS' : 'FAIL — deploy blocked'}** (${report.counts.high} high, ${report.counts.medium} medium, ${report.counts.low} low)
+`;
+    if (!report.findings.length) return `${header}\nNo findings.\n`;
+
+    const table = `| Severity | Rule | Line | Function | Title |
+|---|---|---|---|---|
+${report.findings.map(f => `| ${f.severity.toUpperCase()} | ${f.ruleId}${f.swc ? ` (${f.swc})` : ''} | ${f.line} | ${f.contract}.${f.function} | ${f.title} |`).join('\n')}`;
+
+    const details = report.findings.map((f, i) => `### ${i + 1}. ${f.title}
+**${f.severity.toUpperCase()}** · \`${f.ruleId}\` · line ${f.line}:${f.column}
+
+${f.message}
+
+*Fix:* ${f.recommendation}`).join('\n\n');
+
+    return `${header}\n${table}\n\n${details}\n`;
+}
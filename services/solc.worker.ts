@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Runs the bundled soljson (solc compiled to WASM) off the main thread.
+ * soljson instantiates its WASM synchronously, which browsers only allow
+ * inside workers for a module this size.
+ */
+type SolcModule = {
+    cwrap(name: string, ret: string | null, args: string[]): (...args: unknown[]) => any;
+};
+
+let compile: ((input: string, callback: number, context: number) => string) | null = null;
+let version = '';
+
+async function load(soljsonUrl: string) {
+    if (compile) return;
+    const script = await (await fetch(soljsonUrl)).text();
+    // Indirect eval runs in global scope so soljson's `var Module` lands on self.
+    (0, eval)(script);
+    const solc = (self as unknown as { Module: SolcModule }).Module;
+    compile = solc.cwrap('solidity_compile', 'string', ['string', 'number', 'number']);
+    version = solc.cwrap('solidity_version', 'string', [])();
+}
+
+self.onmessage = async (e: MessageEvent<{ id: number, input: string, soljsonUrl: string }>) => {
+    const { id, input, soljsonUrl } = e.data;
+    try {
+        await load(soljsonUrl);
+        const output = compile!(input, 0, 0);
+        self.postMessage({ id, output, version });
+    } catch (err: any) {
+        self.postMessage({ id, error: err?.message || String(err) });
+    }
+};
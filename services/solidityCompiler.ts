@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import soljsonUrl from 'solc/soljson.js?url';
+import type { AuditReport, BuildRecord, CompilerDiagnostic, ContractArtifact, PromptRef } from '../types';
+import { offsetToLineColumn } from './sourceLocation';
+import { loadJSON, newId, saveJSON } from './storage';
+
+const STORAGE_KEY = 'ide.builds.v1';
+const MAX_BUILDS = 10;
+const OZ_PREFIX = '@openzeppelin/contracts/';
+/** Covers the first solc download and load as well as the compile itself. */
+const COMPILE_TIMEOUT_MS = 120_000;
+
+// Bundled OpenZeppelin Contracts sources, loaded on demand per file.
+const ozSources = import.meta.glob<string>('/node_modules/@openzeppelin/contracts/**/*.sol', {
+    query: '?raw',
+    import: 'default'
+});
+
+export interface CompileResult {
+    ok: boolean;
+    compilerVersion: string;
+    diagnostics: CompilerDiagnostic[];
+    artifacts: ContractArtifact[];
+    /** solc compact JSON AST of the entry file (not persisted with the build). */
+    ast?: any;
+}
+
+// --- IMPORT RESOLUTION ---
+
+function stripComments(source: string) {
+    return source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+}
+
+function importsOf(source: string): string[] {
+    const re = /import\s+(?:[^'";]*?\s+from\s+)?["']([^"']+)["']/g;
+    return [...stripComments(source).matchAll(re)].map(m => m[1]);
+}
+
+function resolvePath(from: string, target: string): string {
+    if (!target.startsWith('.')) return target;
+    const parts = from.split('/').slice(0, -1);
+    for (const seg of target.split('/')) {
+        if (seg === '..') parts.pop();
+        else if (seg !== '.') parts.push(seg);
+    }
+    return parts.join('/');
+}
+
+async function readLibrarySource(path: string): Promise<string | null> {
+    if (!path.startsWith(OZ_PREFIX)) return null;
+    const loader = ozSources[`/node_modules/${path}`];
+    return loader ? loader() : null;
+}
+
+/**
+ * Walks the import graph from the entry file and collects every source the
+ * compiler will need. solc's import callback is synchronous, so everything
+ * is fetched up front; imports that cannot be found are left out and solc
+ * reports them as regular "Source not found" errors.
+ */
+async function collectSources(entry: string, source: string, local: Record<string, string>): Promise<Record<string, { content: string }>> {
+    const sources: Record<string, { content: string }> = { [entry]: { content: source } };
+    const queue = importsOf(source).map(i => resolvePath(entry, i));
+    while (queue.length) {
+        const path = queue.shift()!;
+        if (sources[path]) continue;
+        const content = local[path] ?? await readLibrarySource(path);
+        if (content === null) continue;
+        sources[path] = { content };
+        queue.push(...importsOf(content).map(i => resolvePath(path, i)));
+    }
+    return sources;
+}
+
+// --- WORKER ---
+
+let worker: Worker | null = null;
+let nextRequest = 0;
+const pending = new Map<number, {
+    resolve: (v: { output: string, version: string }) => void,
+    reject: (e: Error) => void,
+    timer: ReturnType<typeof setTimeout>
+}>();
+
+/**
+ * Drops a crashed or hung worker and fails everything queued on it; the
+ * next compile starts a fresh one.
+ */
+function resetWorker(error: Error) {
+    worker?.terminate();
+    worker = null;
+    for (const job of pending.values()) {
+        clearTimeout(job.timer);
+        job.reject(error);
+    }
+    pending.clear();
+}
+
+function getWorker(): Worker {
+    if (worker) return worker;
+    worker = new Worker(new URL('./solc.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<{ id: number, output?: string, version?: string, error?: string }>) => {
+        const job = pending.get(e.data.id);
+        if (!job) return;
+        pending.delete(e.data.id);
+        clearTimeout(job.timer);
+        if (e.data.error) job.reject(new Error(e.data.error));
+        else job.resolve({ output: e.data.output!, version: e.data.version! });
+    };
+    worker.onerror = (e: ErrorEvent) => {
+        e.preventDefault();
+        resetWorker(new Error(`Solidity compiler crashed: ${e.message || 'worker error'}`));
+    };
+    worker.onmessageerror = () => resetWorker(new Error('Solidity compiler sent an unreadable message.'));
+    return worker;
+}
+
+function runSolc(input: object): Promise<{ output: string, version: string }> {
+    const id = ++nextRequest;
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(
+            () => resetWorker(new Error(`Solidity compiler did not answer within ${COMPILE_TIMEOUT_MS / 1000}s.`)),
+            COMPILE_TIMEOUT_MS
+        );
+        pending.set(id, { resolve, reject, timer });
+        getWorker().postMessage({ id, input: JSON.stringify(input), soljsonUrl });
+    });
+}
+
+// --- COMPILE ---
+
+/**
+ * Compiles one Solidity file with the bundled solc, resolving
+ * @openzeppelin/contracts imports from the bundled package. `local` holds
+ * other project files the entry may import by relative path.
+ */
+export async function compileSolidity(fileName: string, source: string, local: Record<string, string> = {}): Promise<CompileResult> {
+    const sources = await collectSources(fileName, source, local);
+    const { output, version } = await runSolc({
+        language: 'Solidity',
+        sources,
+        settings: {
+            optimizer: { enabled: true, runs: 200 },
+            outputSelection: { [fileName]: { '': ['ast'], '*': ['abi', 'evm.bytecode.object', 'evm.deployedBytecode.object'] } }
+        }
+    });
+    const result = JSON.parse(output);
+
+    const diagnostics: CompilerDiagnostic[] = (result.errors || []).map((e: any) => {
+        const loc = e.sourceLocation;
+        const text = loc ? sources[loc.file]?.content : undefined;
+        const pos = text !== undefined && loc.start >= 0 ? offsetToLineColumn(text, loc.start) : undefined;
+        return {
+            severity: e.severity === 'error' ? 'error' : e.severity === 'warning' ? 'warning' : 'info',
+            message: e.message,
+            file: loc?.file,
+            line: pos?.line,
+            column: pos?.column,
+            code: e.errorCode
+        };
+    });
+
+    const artifacts: ContractArtifact[] = [];
+    for (const [contractName, contract] of Object.entries<any>(result.contracts?.[fileName] || {})) {
+        artifacts.push({
+            sourceName: fileName,
+            contractName,
+            abi: contract.abi,
+            bytecode: contract.evm?.bytecode?.object || '',
+            deployedBytecode: contract.evm?.deployedBytecode?.object || ''
+        });
+    }
+
+    return {
+        ok: !diagnostics.some(d => d.severity === 'error'),
+        compilerVersion: version,
+        diagnostics,
+        artifacts,
+        ast: result.sources?.[fileName]?.ast
+    };
+}
+
+export function formatDiagnostics(diagnostics: CompilerDiagnostic[]): string {
+    return diagnostics.map(d => `${d.file || ''}${d.line ? `:${d.line}:${d.column}` : ''} ${d.severity}: ${d.message}`).join('\n');
+}
+
+// --- BUILD ARTIFACTS ---
+
+let builds: BuildRecord[] = loadJSON<BuildRecord[]>(STORAGE_KEY, []);
+
+async function sha256(text: string) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Stores a build (source, diagnostics, ABI and bytecode). Only the most
+ * recent builds are kept to stay inside localStorage limits.
+ */
+export async function recordBuild(feature: string, source: string, result: CompileResult, fixRounds: number, prompts?: PromptRef[]): Promise<BuildRecord> {
+    const build: BuildRecord = {
+        id: newId('build'),
+        createdAt: new Date().toISOString(),
+        feature,
+        compilerVersion: result.compilerVersion,
+        source,
+        sourceHash: await sha256(source),
+        ok: result.ok,
+        fixRounds,
+        diagnostics: result.diagnostics,
+        artifacts: result.artifacts,
+        ...(prompts?.length ? { prompts } : {})
+    };
+    builds = [...builds, build].slice(-MAX_BUILDS);
+    saveJSON(STORAGE_KEY, builds);
+    return build;
+}
+
+export function attachAudit(buildId: string, audit: AuditReport) {
+    const build = builds.find(b => b.id === buildId);
+    if (!build) throw new Error(`Unknown build ${buildId}`);
+    build.audit = audit;
+    saveJSON(STORAGE_KEY, builds);
+}
+
+export function listBuilds(): BuildRecord[] {
+    return [...builds];
+}
+
+export function getLatestBuild(onlySuccessful = true): BuildRecord | undefined {
+    return [...builds].reverse().find(b => !onlySuccessful || b.ok);
+}
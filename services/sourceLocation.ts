@@ -0,0 +1,15 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Maps a solc source offset to a 1-based line/column. solc counts UTF-8
+ * bytes, not UTF-16 characters, so non-ASCII comments must not skew lines.
+ */
+export function offsetToLineColumn(source: string, offset: number): { line: number, column: number } {
+    const bytes = new TextEncoder().encode(source);
+    const before = new TextDecoder().decode(bytes.slice(0, Math.max(0, offset)));
+    const lines = before.split('\n');
+    return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Local JSON persistence on top of localStorage. Every key is namespaced
+ * under "nimbus." so workbench state never collides with the host page.
+ */
+const PREFIX = 'nimbus.';
+
+export function loadJSON<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(PREFIX + key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch (e) {
+        console.warn(`Discarding unreadable local state "${key}"`, e);
+        return fallback;
+    }
+}
+
+export function saveJSON<T>(key: string, value: T) {
+    localStorage.setItem(PREFIX + key, JSON.stringify(value));
+}
+
+export function newId(prefix: string): string {
+    return `${prefix}_${crypto.randomUUID().replace(/-/g, '').slice(0, 12)}`;
+}
@@ -0,0 +1,150 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import { Schema, Type } from "@google/genai";
+import type { ModelContents, ModelProvider, ModelRequest } from './modelProvider';
+
+export interface Rejection {
+    path: string;
+    reason: string;
+    value?: unknown;
+}
+
+export interface StructuredResult<T> {
+    data: T;
+    /** Items dropped from an array response because they failed validation. */
+    rejected: Rejection[];
+    attempts: number;
+}
+
+export class StructuredOutputError extends Error {
+    constructor(public readonly rejected: Rejection[], public readonly attempts: number) {
+        super(`Model output failed validation after ${attempts} attempt(s): ${rejected.map(r => `${r.path} ${r.reason}`).join('; ')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+// --- VALIDATION ---
+
+/**
+ * Validates a value against the same Schema object that is sent to the model
+ * as responseSchema, so the contract lives in one place.
+ */
+export function validateSchema(value: unknown, schema: Schema, path = '$'): Rejection[] {
+    if (value === null || value === undefined) {
+        return schema.nullable ? [] : [{ path, reason: 'is missing' }];
+    }
+    const errors: Rejection[] = [];
+    switch (schema.type) {
+        case Type.OBJECT: {
+            if (typeof value !== 'object' || Array.isArray(value)) return [{ path, reason: 'must be an object', value }];
+            const obj = value as Record<string, unknown>;
+            for (const key of schema.required || []) {
+                if (obj[key] === undefined || obj[key] === null) errors.push({ path: `${path}.${key}`, reason: 'is required' });
+            }
+            for (const [key, sub] of Object.entries(schema.properties || {})) {
+                if (obj[key] !== undefined && obj[key] !== null) errors.push(...validateSchema(obj[key], sub, `${path}.${key}`));
+            }
+            break;
+        }
+        case Type.ARRAY: {
+            if (!Array.isArray(value)) return [{ path, reason: 'must be an array', value }];
+            if (schema.minItems && value.length < Number(schema.minItems)) errors.push({ path, reason: `must have at least ${schema.minItems} items` });
+            if (schema.maxItems && value.length > Number(schema.maxItems)) errors.push({ path, reason: `must have at most ${schema.maxItems} items` });
+            if (schema.items) value.forEach((item, i) => errors.push(...validateSchema(item, schema.items!, `${path}[${i}]`)));
+            break;
+        }
+        case Type.STRING: {
+            if (typeof value !== 'string') return [{ path, reason: 'must be a string', value }];
+            if (schema.enum && !schema.enum.includes(value)) errors.push({ path, reason: `must be one of ${schema.enum.join(', ')}`, value });
+            if (schema.minLength && value.trim().length < Number(schema.minLength)) errors.push({ path, reason: `must be at least ${schema.minLength} characters`, value });
+            if (schema.maxLength && value.length > Number(schema.maxLength)) errors.push({ path, reason: `must be at most ${schema.maxLength} characters` });
+            if (schema.pattern && !new RegExp(schema.pattern).test(value)) errors.push({ path, reason: `must match ${schema.pattern}`, value });
+            break;
+        }
+        case Type.NUMBER:
+        case Type.INTEGER: {
+            if (typeof value !== 'number' || Number.isNaN(value)) return [{ path, reason: 'must be a number', value }];
+            if (schema.type === Type.INTEGER && !Number.isInteger(value)) errors.push({ path, reason: 'must be an integer', value });
+            if (schema.minimum !== undefined && value < schema.minimum) errors.push({ path, reason: `must be ≥ ${schema.minimum}`, value });
+            if (schema.maximum !== undefined && value > schema.maximum) errors.push({ path, reason: `must be ≤ ${schema.maximum}`, value });
+            break;
+        }
+        case Type.BOOLEAN:
+            if (typeof value !== 'boolean') errors.push({ path, reason: 'must be a boolean', value });
+            break;
+    }
+    return errors;
+}
+
+// --- GENERATION ---
+
+function withRepairNote(contents: ModelContents, note: string): ModelContents {
+    if (typeof contents === 'string') return `${contents}\n\n${note}`;
+    if (Array.isArray(contents)) return [...contents, { role: 'user', parts: [{ text: note }] }];
+    return { parts: [...contents.parts, { text: note }] };
+}
+
+/**
+ * Calls the model with a responseSchema and validates the reply. Invalid
+ * replies are sent back with the validation errors for repair, up to
+ * `retries` times. If an array reply still has bad items after the last
+ * attempt, the valid items are kept and the rest reported as rejected,
+ * as long as the kept items still satisfy the array's own limits;
+ * anything else throws StructuredOutputError.
+ */
+export async function generateStructured<T>(
+    provider: ModelProvider,
+    request: ModelRequest,
+    schema: Schema,
+    retries = 2
+): Promise<StructuredResult<T>> {
+    let contents = request.contents;
+    let parsed: unknown;
+    let errors: Rejection[] = [];
+
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+        const response = await provider.generate({
+            ...request,
+            contents,
+            config: { ...request.config, responseMimeType: 'application/json', responseSchema: schema }
+        });
+
+        try {
+            parsed = JSON.parse(response.text);
+            errors = validateSchema(parsed, schema);
+        } catch (e: any) {
+            parsed = undefined;
+            errors = [{ path: '$', reason: `is not valid JSON (${e.message})` }];
+        }
+
+        if (!errors.length) return { data: parsed as T, rejected: [], attempts: attempt };
+        if (attempt > retries) break;
+
+        contents = withRepairNote(request.contents, `Your previous response was rejected by the schema validator:
+${errors.map(e => `- ${e.path} ${e.reason}`).join('\n')}
+Previous response:
+${response.text}
+Return the corrected JSON only.`);
+    }
+
+    if (schema.type === Type.ARRAY && Array.isArray(parsed) && schema.items) {
+        const rejected: Rejection[] = [];
+        const kept = parsed.filter((item, i) => {
+            const itemErrors = validateSchema(item, schema.items!, `$[${i}]`);
+            if (itemErrors.length) rejected.push({
+                path: `$[${i}]`,
+                reason: itemErrors.map(e => `${e.path.replace(`$[${i}]`, '') || 'item'} ${e.reason}`).join('; '),
+                value: item
+            });
+            return !itemErrors.length;
+        });
+        // What is left must still satisfy the array itself, e.g. minItems.
+        const keptErrors = validateSchema(kept, schema);
+        if (keptErrors.length) throw new StructuredOutputError([...rejected, ...keptErrors], retries + 1);
+        return { data: kept as T, rejected, attempts: retries + 1 };
+    }
+
+    throw new StructuredOutputError(errors, retries + 1);
+}
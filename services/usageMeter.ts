@@ -0,0 +1,383 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+import type { BudgetState, ModelPrice, UsageBudget, UsageRecord, UsageSettings } from '../types';
+import { contentsText, type ModelChunk, type ModelProvider, type ModelRequest, type ModelUsage } from './modelProvider';
+import { loadJSON, newId, saveJSON } from './storage';
+
+/**
+ * Meters every model call: tokens from the response's usage metadata,
+ * generated images, grounded searches and latency, priced from an editable
+ * table. Budgets are checked before each call. A spent soft budget swaps
+ * models for cheaper ones; a spent hard budget refuses the call. Loop-run
+ * and loop-iteration budgets only count and limit calls made by the
+ * autonomous loop. The call that crosses a limit still completes.
+ */
+
+const DB_NAME = 'nimbus.usage';
+const STORE = 'calls';
+const SETTINGS_KEY = 'usage.settings.v1';
+/** Older records are dropped on load; the longest budget period is a month. */
+const RETENTION_DAYS = 90;
+const BUDGET_PERIODS = ['day', 'month', 'loop-run', 'loop-iteration'];
+
+export interface UsageScope {
+    view: string;
+    runId?: string;
+    iteration?: number;
+}
+
+export class BudgetExceededError extends Error {
+    constructor(public readonly state: BudgetState) {
+        super(`Budget "${state.budget.id}" (${state.budget.period}, $${state.budget.limitUsd.toFixed(2)}) is spent: $${state.spentUsd.toFixed(2)} so far.`);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export const DEFAULT_SETTINGS: UsageSettings = {
+    prices: {
+        'gemini-2.5-flash': { inputPerMillion: 0.30, outputPerMillion: 2.50, perGroundedSearch: 0.035 },
+        'gemini-2.5-flash-image': { inputPerMillion: 0.30, outputPerMillion: 30 },
+        'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120 },
+        '*': { inputPerMillion: 0.30, outputPerMillion: 2.50, perGroundedSearch: 0.035 }
+    },
+    budgets: [
+        { id: 'daily', period: 'day', limitUsd: 5, enforcement: 'hard' },
+        { id: 'loop-run', period: 'loop-run', limitUsd: 2, enforcement: 'hard' },
+        { id: 'iteration', period: 'loop-iteration', limitUsd: 0.25, enforcement: 'soft' }
+    ],
+    downgrades: {
+        'gemini-3-pro-image-preview': 'gemini-2.5-flash-image'
+    }
+};
+
+let settings: UsageSettings = loadJSON<UsageSettings>(SETTINGS_KEY, DEFAULT_SETTINGS);
+let records: UsageRecord[] = [];
+
+// --- SETTINGS ---
+
+export function getSettings(): UsageSettings {
+    return settings;
+}
+
+export function validateSettings(candidate: any): string[] {
+    if (!candidate || typeof candidate !== 'object') return ['Settings must be an object with prices, budgets and downgrades.'];
+    const errors: string[] = [];
+    const money = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+    if (!candidate.prices || typeof candidate.prices !== 'object') errors.push('prices must be an object keyed by model id.');
+    else {
+        if (!candidate.prices['*']) errors.push('prices must include "*" for models not listed.');
+        for (const [model, p] of Object.entries<any>(candidate.prices)) {
+            if (!money(p?.inputPerMillion) || !money(p?.outputPerMillion)) errors.push(`prices.${model}: inputPerMillion and outputPerMillion must be non-negative numbers.`);
+            for (const key of ['perImage', 'perGroundedSearch']) {
+                if (p?.[key] !== undefined && !money(p[key])) errors.push(`prices.${model}.${key} must be a non-negative number.`);
+            }
+        }
+    }
+
+    if (!Array.isArray(candidate.budgets)) errors.push('budgets must be an array.');
+    else {
+        const ids = new Set<string>();
+        candidate.budgets.forEach((b: any, i: number) => {
+            const at = `budgets ${i + 1}`;
+            if (typeof b?.id !== 'string' || !b.id.trim()) errors.push(`${at}: id is required.`);
+            else if (ids.has(b.id)) errors.push(`${at}: duplicate id "${b.id}".`);
+            else ids.add(b.id);
+            if (!BUDGET_PERIODS.includes(b?.period)) errors.push(`${at}: period must be one of ${BUDGET_PERIODS.join(', ')}.`);
+            if (!money(b?.limitUsd)) errors.push(`${at}: limitUsd must be a non-negative number.`);
+            if (b?.enforcement !== 'soft' && b?.enforcement !== 'hard') errors.push(`${at}: enforcement must be "soft" or "hard".`);
+        });
+    }
+
+    if (!candidate.downgrades || typeof candidate.downgrades !== 'object') errors.push('downgrades must be an object mapping a model to a cheaper one.');
+    else for (const [from, to] of Object.entries(candidate.downgrades)) {
+        if (typeof to !== 'string' || !to.trim()) errors.push(`downgrades.${from} must be a model id.`);
+        else if (to === from) errors.push(`downgrades.${from} points at itself.`);
+    }
+    return errors;
+}
+
+export function saveSettings(next: UsageSettings) {
+    const errors = validateSettings(next);
+    if (errors.length) throw new Error(errors.join('\n'));
+    settings = next;
+    saveJSON(SETTINGS_KEY, settings);
+}
+
+// --- STORAGE ---
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+    dbPromise ??= new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, 1);
+        req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: 'id' });
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+    return dbPromise;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+    });
+}
+
+let loaded: Promise<void> | null = null;
+
+/** Loads recent records into memory once; budgets are checked against them. */
+function load(): Promise<void> {
+    loaded ??= (async () => {
+        const db = await openDb();
+        const all = await request(db.transaction(STORE).objectStore(STORE).getAll()) as UsageRecord[];
+        const cutoff = new Date(Date.now() - RETENTION_DAYS * 86_400_000).toISOString();
+        const stale = all.filter(r => r.at < cutoff);
+        if (stale.length) {
+            const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+            stale.forEach(r => store.delete(r.id));
+        }
+        records = all.filter(r => r.at >= cutoff).sort((a, b) => a.at.localeCompare(b.at));
+    })().catch(e => {
+        console.error('Usage history unavailable', e);
+    });
+    return loaded;
+}
+
+async function append(record: UsageRecord) {
+    records.push(record);
+    try {
+        const db = await openDb();
+        await request(db.transaction(STORE, 'readwrite').objectStore(STORE).add(record));
+    } catch (e) {
+        console.error('Usage record not saved', e);
+    }
+}
+
+/** Oldest first. */
+export async function listUsage(): Promise<UsageRecord[]> {
+    await load();
+    return records.slice();
+}
+
+// --- PRICING & BUDGETS ---
+
+export function priceFor(model: string): ModelPrice {
+    return settings.prices[model] ?? settings.prices['*'] ?? DEFAULT_SETTINGS.prices['*'];
+}
+
+export function estimateCost(call: Pick<UsageRecord, 'model' | 'inputTokens' | 'outputTokens' | 'thoughtTokens' | 'images' | 'groundedSearches'>): number {
+    const price = priceFor(call.model);
+    return (call.inputTokens * price.inputPerMillion + (call.outputTokens + call.thoughtTokens) * price.outputPerMillion) / 1_000_000
+        + call.images * (price.perImage || 0)
+        + call.groundedSearches * (price.perGroundedSearch || 0);
+}
+
+function periodStart(period: 'day' | 'month', now: Date) {
+    return (period === 'day' ? new Date(now.getFullYear(), now.getMonth(), now.getDate()) : new Date(now.getFullYear(), now.getMonth(), 1)).toISOString();
+}
+
+/** Whether a budget applies to a call made under `scope`; loop budgets only cover loop calls. */
+function inScope(budget: UsageBudget, scope: UsageScope) {
+    return budget.period === 'day' || budget.period === 'month' || !!scope.runId;
+}
+
+function counts(budget: UsageBudget, scope: UsageScope, now: Date) {
+    switch (budget.period) {
+        case 'day':
+        case 'month': {
+            const since = periodStart(budget.period, now);
+            return (r: UsageRecord) => r.at >= since;
+        }
+        case 'loop-run':
+            return (r: UsageRecord) => !!scope.runId && r.runId === scope.runId;
+        case 'loop-iteration':
+            return (r: UsageRecord) => !!scope.runId && r.runId === scope.runId && r.iteration === scope.iteration;
+    }
+}
+
+/** Spend against every budget that applies under `scope`. */
+export function budgetStates(scope: UsageScope, now = new Date()): BudgetState[] {
+    return settings.budgets.filter(b => inScope(b, scope)).map(budget => {
+        const spentUsd = records.filter(counts(budget, scope, now)).reduce((n, r) => n + r.costUsd, 0);
+        return { budget, spentUsd, exceeded: spentUsd >= budget.limitUsd };
+    });
+}
+
+/**
+ * The model a call should use under `scope`: the cheaper one from
+ * `downgrades` while a soft budget is spent, otherwise the one asked for.
+ */
+export function resolveModel(model: string, scope: UsageScope): { model: string, downgradedBy?: BudgetState } {
+    const soft = budgetStates(scope).find(s => s.exceeded && s.budget.enforcement === 'soft');
+    const cheaper = settings.downgrades[model];
+    return soft && cheaper ? { model: cheaper, downgradedBy: soft } : { model };
+}
+
+// --- METERING ---
+
+function textLength(request: ModelRequest) {
+    const { contents, config } = request;
+    const text = contentsText(contents);
+    const system = typeof config?.systemInstruction === 'string' ? config.systemInstruction : '';
+    return text.length + system.length;
+}
+
+function isGrounded(request: ModelRequest) {
+    return !!request.config?.tools?.some(t => 'googleSearch' in t);
+}
+
+export interface MeterHooks {
+    scope: () => UsageScope;
+    onRecord?: (record: UsageRecord) => void;
+    /** A budget is spent: reported once after the call that crossed it, and again for every call it refuses. */
+    onBudget?: (state: BudgetState, refused: boolean) => void;
+}
+
+/**
+ * Wraps a provider so every call is checked against the budgets, metered
+ * and priced. Responses without usage metadata (e.g. replayed fixtures
+ * recorded earlier) get token counts estimated at four characters a token.
+ */
+export function createMeteredProvider(inner: ModelProvider, hooks: MeterHooks): ModelProvider {
+    async function prepare(req: ModelRequest) {
+        await load();
+        const scope = hooks.scope();
+        const states = budgetStates(scope);
+        const hard = states.find(s => s.exceeded && s.budget.enforcement === 'hard');
+        if (hard) {
+            hooks.onBudget?.(hard, true);
+            throw new BudgetExceededError(hard);
+        }
+        const { model, downgradedBy } = resolveModel(req.model, scope);
+        if (!downgradedBy) return { req, scope, before: states };
+        let config = req.config;
+        if (config?.imageConfig) {
+            // Only Pro image models take an output size.
+            const { imageSize, ...imageConfig } = config.imageConfig;
+            config = { ...config, imageConfig };
+        }
+        return { req: { ...req, model, config }, scope, before: states, requestedModel: req.model };
+    }
+
+    async function record(
+        prepared: Awaited<ReturnType<typeof prepare>>,
+        started: number,
+        stream: boolean,
+        result: { usage?: ModelUsage, text: string, images: number, error?: string }
+    ) {
+        const { req, scope, before, requestedModel } = prepared;
+        const tokens = result.usage ?? { inputTokens: Math.ceil(textLength(req) / 4), outputTokens: Math.ceil(result.text.length / 4), thoughtTokens: 0 };
+        const call = {
+            model: req.model,
+            ...tokens,
+            images: result.images,
+            groundedSearches: isGrounded(req) && !result.error ? 1 : 0
+        };
+        const entry: UsageRecord = {
+            id: newId('use'),
+            at: new Date().toISOString(),
+            view: scope.view,
+            ...(scope.runId ? { runId: scope.runId, iteration: scope.iteration } : {}),
+            ...(requestedModel ? { requestedModel } : {}),
+            stream,
+            ...call,
+            latencyMs: Math.round(performance.now() - started),
+            costUsd: estimateCost(call),
+            ...(result.usage ? {} : { estimated: true }),
+            ...(result.error ? { error: result.error } : {})
+        };
+        await append(entry);
+        hooks.onRecord?.(entry);
+        for (const state of budgetStates(scope)) {
+            const was = before.find(b => b.budget.id === state.budget.id);
+            if (state.exceeded && !was?.exceeded) hooks.onBudget?.(state, false);
+        }
+    }
+
+    return {
+        name: `metered(${inner.name})`,
+
+        async generate(original) {
+            const prepared = await prepare(original);
+            const started = performance.now();
+            try {
+                const response = await inner.generate(prepared.req);
+                await record(prepared, started, false, {
+                    usage: response.usage, text: response.text, images: response.parts.filter(p => p.inlineData).length
+                });
+                return response;
+            } catch (e: any) {
+                await record(prepared, started, false, { text: '', images: 0, error: e?.message || String(e) });
+                throw e;
+            }
+        },
+
+        async *generateStream(original) {
+            const prepared = await prepare(original);
+            const started = performance.now();
+            let text = '';
+            let usage: ModelUsage | undefined;
+            try {
+                for await (const chunk of inner.generateStream(prepared.req) as AsyncIterable<ModelChunk>) {
+                    text += chunk.text;
+                    usage = chunk.usage ?? usage;
+                    yield chunk;
+                }
+            } catch (e: any) {
+                await record(prepared, started, true, { usage, text, images: 0, error: e?.message || String(e) });
+                throw e;
+            }
+            await record(prepared, started, true, { usage, text, images: 0 });
+        }
+    };
+}
+
+// --- REPORTING ---
+
+export interface UsageTotals {
+    calls: number;
+    errors: number;
+    inputTokens: number;
+    outputTokens: number;
+    images: number;
+    groundedSearches: number;
+    latencyMs: number;
+    costUsd: number;
+    estimated: number;
+    downgraded: number;
+}
+
+export function totals(list: UsageRecord[]): UsageTotals {
+    return list.reduce((t, r) => ({
+        calls: t.calls + 1,
+        errors: t.errors + (r.error ? 1 : 0),
+        inputTokens: t.inputTokens + r.inputTokens,
+        outputTokens: t.outputTokens + r.outputTokens + r.thoughtTokens,
+        images: t.images + r.images,
+        groundedSearches: t.groundedSearches + r.groundedSearches,
+        latencyMs: t.latencyMs + r.latencyMs,
+        costUsd: t.costUsd + r.costUsd,
+        estimated: t.estimated + (r.estimated ? 1 : 0),
+        downgraded: t.downgraded + (r.requestedModel ? 1 : 0)
+    }), { calls: 0, errors: 0, inputTokens: 0, outputTokens: 0, images: 0, groundedSearches: 0, latencyMs: 0, costUsd: 0, estimated: 0, downgraded: 0 });
+}
+
+/** Totals per key, highest cost first. */
+export function groupBy(list: UsageRecord[], key: (r: UsageRecord) => string | undefined): [string, UsageTotals][] {
+    const groups = new Map<string, UsageRecord[]>();
+    for (const r of list) {
+        const k = key(r);
+        if (k !== undefined) groups.set(k, [...(groups.get(k) || []), r]);
+    }
+    return [...groups].map(([k, rs]) => [k, totals(rs)] as [string, UsageTotals]).sort((a, b) => b[1].costUsd - a[1].costUsd);
+}
+
+export function toCsv(list: UsageRecord[]): string {
+    const columns: (keyof UsageRecord)[] = ['at', 'view', 'runId', 'iteration', 'model', 'requestedModel', 'stream', 'inputTokens', 'outputTokens', 'thoughtTokens', 'images', 'groundedSearches', 'latencyMs', 'costUsd', 'estimated', 'error'];
+    const cell = (v: unknown) => v === undefined ? '' : /[",\n]/.test(String(v)) ? `"${String(v).replace(/"/g, '""')}"` : String(v);
+    return [columns.join(','), ...list.map(r => columns.map(c => cell(r[c])).join(','))].join('\n') + '\n';
+}
@@ -0,0 +1,746 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+// --- CRM ---
+
+/** Id of a stage in the configured deal pipeline (see services/pipeline.ts). */
+export type LeadStatus = string;
+
+export type StageOutcome = 'open' | 'won' | 'lost';
+
+export interface StageEntryRules {
+    /** Stages a lead may enter from. Empty or missing means any stage. */
+    from?: string[];
+    /** Lead must have an owner other than the default sales agent. */
+    requireOwner?: boolean;
+    /** Lead must have non-empty notes. */
+    requireNotes?: boolean;
+    /** Minimum parsed deal value in USD. */
+    minValue?: number;
+    /** Every listed tag must be present on the lead. */
+    requiredTags?: string[];
+}
+
+export interface PipelineStage {
+    id: string;
+    label: string;
+    outcome: StageOutcome;
+    rules: StageEntryRules;
+}
+
+export type LeadActivityType = 'created' | 'updated' | 'note' | 'owner' | 'stage' | 'inbound' | 'email' | 'demo' | 'investment';
+
+export interface LeadActivity {
+    at: string;
+    type: LeadActivityType;
+    actor: string;
+    message: string;
+    /** Stage transitions only: the stage ids left and entered. */
+    from?: LeadStatus;
+    to?: LeadStatus;
+    /** Owner, notes and value changes only: what the changed fields held before. */
+    previous?: Partial<Pick<Lead, 'owner' | 'notes' | 'value'>>;
+}
+
+export interface Lead {
+    id: string;
+    company: string;
+    value: string;
+    status: LeadStatus;
+    tags: string[];
+    industry: string;
+    owner: string;
+    notes: string;
+    source: 'ai' | 'manual';
+    createdAt: string;
+    updatedAt: string;
+    history: LeadActivity[];
+}
+
+/** Fields a lead is created from; everything else is filled in by the store. */
+export type LeadInput = Pick<Lead, 'company' | 'value' | 'status' | 'tags' | 'industry'> & Partial<Pick<Lead, 'owner' | 'notes' | 'source'>>;
+
+// --- LEAD SCORING ---
+
+export interface ScoringWeights {
+    /** Log-odds before any factor is applied. */
+    bias: number;
+    /** Industry keyword → log-odds; "default" applies when nothing matches. */
+    industry: Record<string, number>;
+    /** Per order of magnitude of deal value above $1M. */
+    dealValue: number;
+    /** Multiplied by progress through the open stages (0 → 1). */
+    stageProgress: number;
+    /** Per 30 days since the lead was created. Usually negative. */
+    agePer30Days: number;
+    /** Per activity in the last 30 days, capped at 10. */
+    engagement: number;
+    ownerAssigned: number;
+    hasNotes: number;
+}
+
+export interface ScoreFactor {
+    id: string;
+    label: string;
+    detail: string;
+    /** Log-odds contribution of this factor. */
+    contribution: number;
+}
+
+export interface LeadScore {
+    probability: number;
+    factors: ScoreFactor[];
+}
+
+// --- OUTREACH ---
+
+export type EmailStatus = 'draft' | 'queued' | 'sent' | 'failed';
+
+export interface EmailMessage {
+    id: string;
+    leadId: string;
+    templateId: string;
+    from: string;
+    to: string;
+    subject: string;
+    body: string;
+    status: EmailStatus;
+    createdAt: string;
+    sentAt?: string;
+    transport?: string;
+    error?: string;
+    /** Template the draft was written from. */
+    prompt?: PromptRef;
+}
+
+export interface SandboxAsset {
+    id: string;
+    leadId: string;
+    name: string;
+    symbol: string;
+    totalSupply: number;
+    valuationUsd: number;
+    /** Pseudo-address on the in-browser sandbox ledger; not on any chain. */
+    address: string;
+    holders: Record<string, number>;
+    createdAt: string;
+    expiresAt: string;
+}
+
+// --- BUILD ---
+
+export interface CompilerDiagnostic {
+    severity: 'error' | 'warning' | 'info';
+    message: string;
+    file?: string;
+    /** 1-based position within `file`, when the compiler reported one. */
+    line?: number;
+    column?: number;
+    code?: string;
+}
+
+export interface ContractArtifact {
+    sourceName: string;
+    contractName: string;
+    abi: unknown[];
+    bytecode: string;
+    deployedBytecode: string;
+}
+
+export interface BuildRecord {
+    id: string;
+    createdAt: string;
+    feature: string;
+    compilerVersion: string;
+    source: string;
+    sourceHash: string;
+    ok: boolean;
+    fixRounds: number;
+    diagnostics: CompilerDiagnostic[];
+    artifacts: ContractArtifact[];
+    audit?: AuditReport;
+    /** Templates behind the generated source and any fix rounds. */
+    prompts?: PromptRef[];
+}
+
+// --- SECURITY ---
+
+export type FindingSeverity = 'high' | 'medium' | 'low';
+
+export interface SecurityFinding {
+    ruleId: string;
+    /** Matching Smart Contract Weakness Classification id, when one exists. */
+    swc?: string;
+    severity: FindingSeverity;
+    title: string;
+    message: string;
+    recommendation: string;
+    contract: string;
+    function?: string;
+    line: number;
+    column: number;
+}
+
+export interface AuditReport {
+    analyzedAt: string;
+    analyzer: string;
+    findings: SecurityFinding[];
+    counts: Record<FindingSeverity, number>;
+    /** False when any high-severity finding exists; blocks deployment. */
+    passed: boolean;
+}
+
+// --- DEPLOYMENT ---
+
+export interface DeploymentRecord {
+    id: string;
+    createdAt: string;
+    buildId: string;
+    contractName: string;
+    network: string;
+    rpcUrl: string;
+    chainId?: number;
+    from?: string;
+    txHash?: string;
+    contractAddress?: string;
+    gasUsed?: number;
+    blockNumber?: number;
+    status: 'success' | 'failed';
+    error?: string;
+}
+
+// --- ADK PROJECT WORKSPACE ---
+
+export type FileOrigin = 'generated' | 'edited' | 'review' | 'restored' | 'copilot';
+
+export interface FileVersion {
+    id: string;
+    at: string;
+    feature: string;
+    origin: FileOrigin;
+    content: string;
+}
+
+export interface ProjectFile {
+    path: string;
+    language: string;
+    /** Oldest first; the last entry is the current content. */
+    versions: FileVersion[];
+    /** Generated content awaiting per-hunk review against the current version. */
+    pending?: { at: string, feature: string, content: string, origin?: 'copilot' };
+}
+
+// --- COPILOT ---
+
+/** Lines of the open file the developer had selected, 1-based and inclusive. */
+export interface CopilotSelection {
+    path: string;
+    startLine: number;
+    endLine: number;
+    text: string;
+}
+
+export interface CopilotMessage {
+    id: string;
+    at: string;
+    role: 'user' | 'model';
+    text: string;
+    /** File open when a question was asked, and the selection within it. */
+    path?: string;
+    selection?: Omit<CopilotSelection, 'text' | 'path'>;
+    /** Templates behind a reply. */
+    prompts?: PromptRef[];
+    /** Set when the reply failed or was cut short; such exchanges are not sent back as history. */
+    error?: string;
+}
+
+/** A complete new version of a project file suggested in a reply. */
+export interface CopilotProposal {
+    path: string;
+    content: string;
+}
+
+// --- AUTONOMOUS LOOP ---
+
+export interface LoopContext {
+    feature: string;
+    userCount: number;
+    infrastructure: string;
+}
+
+export type LoopStageId = 'terminal' | 'crm' | 'ide' | 'deploy' | 'marketing' | 'nano';
+
+/** What each stage hands to the ones after it; gates read these. */
+export interface LoopStageOutputs {
+    terminal: { characters: number };
+    crm: { created: number, rejected: number, won: number };
+    ide: { buildId: string, compiled: boolean, audit: Record<FindingSeverity, number>, complianceHooks: boolean, pendingReview: string[] };
+    deploy: { deploymentId: string, contractAddress: string, chainId: number, gasUsed: number };
+    /** openFindings: brand-safety findings still blocking the campaign. */
+    marketing: { campaignId: string, topic: string, copy: string, image: boolean, citations: number, openFindings: number };
+    nano: { image: boolean, imageId: string };
+}
+
+export type GateOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte' | 'truthy' | 'falsy';
+
+export interface GateCondition {
+    /** Dotted path into { outputs, context, iteration }, e.g. "outputs.ide.audit.medium". */
+    path: string;
+    op: GateOperator;
+    value?: unknown;
+    message?: string;
+}
+
+export interface RetryPolicy {
+    maxAttempts: number;
+    backoffMs: number;
+    multiplier: number;
+    maxBackoffMs: number;
+}
+
+export interface LoopStageConfig {
+    id: LoopStageId;
+    enabled: boolean;
+    gate: GateCondition[];
+    onGateFail: 'halt' | 'skip';
+    retry?: Partial<RetryPolicy>;
+}
+
+export interface LoopConfig {
+    stages: LoopStageConfig[];
+    maxIterations: number;
+    stageDelayMs: number;
+    retry: RetryPolicy;
+}
+
+export type LoopStatus = 'idle' | 'running' | 'paused' | 'halted' | 'completed';
+
+export interface LoopCheckpoint {
+    runId: string;
+    status: LoopStatus;
+    startedAt: string;
+    updatedAt: string;
+    iteration: number;
+    stageIndex: number;
+    attempt: number;
+    outputs: Partial<LoopStageOutputs>;
+    context: LoopContext;
+    lastError?: string;
+    /** Why a halted run stopped; a gate halt re-runs the iteration on resume. */
+    haltReason?: 'gate' | 'error' | 'budget';
+}
+
+// --- ROADMAP ---
+
+export type PhaseStatus = 'planned' | 'active' | 'done' | 'blocked';
+
+export interface PhaseEvaluation {
+    at: string;
+    iteration: number;
+    met: string[];
+    unmet: string[];
+}
+
+export interface RoadmapPhase {
+    id: string;
+    title: string;
+    description: string;
+    /** Target environment, surfaced to prompts as the loop's infrastructure. */
+    infrastructure: string;
+    /** All must hold on one iteration's outputs for the phase to be done. */
+    acceptance: GateCondition[];
+    /** Iterations allowed before the phase is marked blocked and skipped. */
+    maxIterations: number;
+    status: PhaseStatus;
+    iterations: number;
+    startedAt?: string;
+    completedAt?: string;
+    lastEvaluation?: PhaseEvaluation;
+}
+
+// --- RUN LOG ---
+
+export interface RunLogEntry {
+    /** Position in the log, assigned on append. */
+    seq: number;
+    at: string;
+    kind: 'model' | 'event';
+    view: string;
+    /** Loop run the entry belongs to, if any. */
+    runId?: string;
+    durationMs: number;
+    // Agent calls
+    model?: string;
+    request?: unknown;
+    stream?: boolean;
+    response?: { text: string, parts: unknown[] };
+    error?: string;
+    /** Templates the request was rendered from. */
+    prompts?: PromptRef[];
+    // Non-model outcomes (builds, audits, deploys)
+    event?: string;
+    data?: unknown;
+    /** Loop context once the call or event finished. */
+    context: LoopContext;
+    /** SHA-256 of the previous entry, chaining the log so edits are detectable. */
+    prevHash: string;
+    hash: string;
+}
+
+// --- TOKENIZATION ---
+
+export type KycStatus = 'pending' | 'verified' | 'rejected';
+
+/** Who may hold an asset's tokens and when they may move them. */
+export interface ComplianceRuleSet {
+    requireKyc: boolean;
+    requireAccreditation: boolean;
+    /** ISO country codes investors must reside in; empty allows any that is not denied. */
+    allowedJurisdictions: string[];
+    deniedJurisdictions: string[];
+    /** Most distinct holders across all share classes; 0 for no cap. */
+    maxHolders: number;
+    /** Lock-up applied to every class, on top of the class's own. */
+    lockupDays: number;
+}
+
+export type ComplianceRule = 'kyc' | 'accreditation' | 'jurisdiction' | 'holder-cap' | 'lockup';
+export type LedgerRule = ComplianceRule | 'units' | 'authorized' | 'transferable' | 'self-transfer' | 'balance';
+
+export interface Violation {
+    rule: LedgerRule;
+    message: string;
+}
+
+export type AssetCategory = 'roofing' | 'real-estate' | 'equipment' | 'receivables' | 'other';
+export type ValuationMethod = 'appraisal' | 'income' | 'book' | 'market';
+
+export interface Valuation {
+    at: string;
+    valueUsd: number;
+    method: ValuationMethod;
+    source: string;
+}
+
+export interface ShareClass {
+    id: string;
+    name: string;
+    /** Token symbol for this class. */
+    symbol: string;
+    authorizedUnits: number;
+    votingRights: boolean;
+    /** Preferred return in basis points; 0 for common. */
+    preferredReturnBps: number;
+    transferable: boolean;
+    /** Units can not leave a holder until this many days after they were issued. */
+    lockupDays: number;
+}
+
+export type AssetStatus = 'draft' | 'issued' | 'deployed';
+
+export interface TokenizedAsset {
+    id: string;
+    name: string;
+    category: AssetCategory;
+    /** Legal entity that owns the underlying asset and issues the tokens. */
+    issuer: string;
+    description: string;
+    /** ISO 3166-1 alpha-2 country of the underlying asset. */
+    jurisdiction: string;
+    status: AssetStatus;
+    valuations: Valuation[];
+    shareClasses: ShareClass[];
+    compliance: ComplianceRuleSet;
+    deployment?: { deploymentId: string, contractAddress: string, chainId: number, at: string };
+    createdAt: string;
+}
+
+export interface Holder {
+    id: string;
+    name: string;
+    kind: 'individual' | 'entity';
+    jurisdiction: string;
+    kycStatus: KycStatus;
+    /** KYC verification lapses after this date. */
+    kycExpiresAt?: string;
+    accredited: boolean;
+    /** CRM lead this investor came from, if any. */
+    leadId?: string;
+    createdAt: string;
+}
+
+export type LedgerStatus = 'settled' | 'rejected';
+
+export interface IssuanceRecord {
+    id: string;
+    type: 'issuance';
+    assetId: string;
+    classId: string;
+    toHolderId: string;
+    units: number;
+    pricePerUnitUsd: number;
+    at: string;
+    status: LedgerStatus;
+    violations: Violation[];
+}
+
+export interface TransferRecord {
+    id: string;
+    type: 'transfer';
+    assetId: string;
+    classId: string;
+    fromHolderId: string;
+    toHolderId: string;
+    units: number;
+    at: string;
+    status: LedgerStatus;
+    violations: Violation[];
+}
+
+export type LedgerRecord = IssuanceRecord | TransferRecord;
+
+export interface CapTableRow {
+    holderId: string;
+    holderName: string;
+    classId: string;
+    units: number;
+    /** Share of the class's issued units, 0..1. */
+    classOwnership: number;
+    valueUsd: number;
+}
+
+export interface ComplianceReport {
+    assetId: string;
+    generatedAt: string;
+    rules: ComplianceRuleSet;
+    attempts: number;
+    rejected: number;
+    byRule: Partial<Record<LedgerRule, number>>;
+    violations: { recordId: string, at: string, type: LedgerRecord['type'], holderId: string, rule: LedgerRule, message: string }[];
+    /** Current holders who would no longer pass the eligibility rules. */
+    ineligibleHolders: { holderId: string, name: string, units: number, violations: Violation[] }[];
+}
+
+// --- MARKET DATA ---
+
+export interface MarketQuote {
+    symbol: string;
+    price: number;
+    /** Change over the last 24h as reported by the source, in percent. */
+    change24hPct?: number;
+    /** When the source produced the quote (epoch ms). */
+    at: number;
+    source: string;
+}
+
+export type FeedStatus = 'connecting' | 'live' | 'disconnected';
+
+// --- MARKETING ---
+
+export type CampaignChannel = 'blog' | 'linkedin' | 'x-thread' | 'newsletter';
+
+export type CampaignStatus = 'draft' | 'in-review' | 'changes-requested' | 'approved';
+
+/** A web source the grounded research step drew on. */
+export interface Citation {
+    uri: string;
+    title: string;
+}
+
+export interface ChannelVariant {
+    id: string;
+    /** "A" or "B". */
+    label: string;
+    /** What this variant tries differently, so the A/B result means something. */
+    angle: string;
+    /** Blog title or email subject; empty for channels without one. */
+    headline: string;
+    /** One entry per post for threads; a single markdown body otherwise. */
+    segments: string[];
+    /** Channel format rules the variant breaks, checked when it was generated. */
+    issues: string[];
+}
+
+export interface ChannelPlan {
+    channel: CampaignChannel;
+    variants: ChannelVariant[];
+    selectedVariantId?: string;
+    /** Template the variants were written from. */
+    prompt?: PromptRef;
+}
+
+export interface CampaignReview {
+    at: string;
+    action: 'submitted' | 'approved' | 'changes-requested';
+    note?: string;
+}
+
+export interface Campaign {
+    id: string;
+    createdAt: string;
+    updatedAt: string;
+    /** Roadmap phase the campaign promotes. */
+    phase: Pick<RoadmapPhase, 'id' | 'title' | 'description'>;
+    feature: string;
+    topic: string;
+    status: CampaignStatus;
+    /** Grounded research brief every channel was written from. */
+    research: string;
+    citations: Citation[];
+    channels: ChannelPlan[];
+    image?: { mimeType: string, data: string, prompt: string };
+    reviews: CampaignReview[];
+    /** Brand-safety findings across every variant, including resolved and waived ones. */
+    findings: ClaimFinding[];
+    /** Templates behind the research brief and header image; channels record their own. */
+    prompts?: PromptRef[];
+}
+
+// --- BRAND SAFETY ---
+
+export type ClaimRule = 'prohibited-claim' | 'banned-term' | 'glossary';
+
+/** House rules for campaign copy, on top of the built-in prohibited claims. */
+export interface BrandPolicy {
+    bannedTerms: { term: string, reason?: string }[];
+    /** Terms matched case-insensitively; any spelling other than `preferred` is flagged. */
+    glossary: { term: string, preferred: string, note?: string }[];
+}
+
+export interface ClaimFinding {
+    id: string;
+    rule: ClaimRule;
+    /** Claim category, banned term or glossary term that matched. */
+    label: string;
+    message: string;
+    channel: CampaignChannel;
+    variantId: string;
+    /** -1 for the headline, otherwise the segment index. */
+    segment: number;
+    /** Character offsets of the match within that headline or segment. */
+    start: number;
+    end: number;
+    excerpt: string;
+    status: 'open' | 'resolved' | 'waived';
+    resolvedAt?: string;
+    waiver?: { at: string, note: string };
+}
+
+// --- NANO STUDIO ---
+
+export interface NanoImage {
+    id: string;
+    createdAt: string;
+    /** The image this one was edited from; absent for a fresh bake. */
+    parentId?: string;
+    prompt: string;
+    model: string;
+    aspectRatio: string;
+    /** Output size; only the Pro model takes one. */
+    size?: string;
+    mimeType: string;
+    /** Base64 image bytes. */
+    data: string;
+    /** Feature the loop was working on when the image was made. */
+    feature: string;
+    /** Gallery images sent with the prompt as additional references. */
+    referenceIds?: string[];
+    /** Black/white PNG (base64) of the region an edit was restricted to. */
+    mask?: string;
+    /** File name, for images a designer uploaded rather than generated. */
+    uploadedFrom?: string;
+    /** Template that framed the prompt and attached images. */
+    promptTemplate?: PromptRef;
+}
+
+// --- PROMPTS ---
+
+export type PromptVariableType = 'string' | 'number' | 'boolean';
+
+export interface PromptVariable {
+    type: PromptVariableType;
+    description: string;
+    /** Optional variables render as empty text and switch their sections off. */
+    optional?: boolean;
+}
+
+/** A built-in persona or prompt, as shipped in services/prompts.ts. */
+export interface PromptTemplateDefinition {
+    title: string;
+    description: string;
+    version: number;
+    variables: Record<string, PromptVariable>;
+    body: string;
+}
+
+export interface PromptVersion {
+    version: number;
+    body: string;
+    /** Absent for the built-in version. */
+    savedAt?: string;
+    builtIn?: boolean;
+}
+
+/** Which template version produced an output. */
+export interface PromptRef {
+    id: string;
+    version: number;
+}
+
+// --- USAGE ---
+
+/** List prices in USD. Image output is billed as output tokens on Gemini; perImage is for per-image billing. */
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+    perImage?: number;
+    perGroundedSearch?: number;
+}
+
+export type BudgetPeriod = 'day' | 'month' | 'loop-run' | 'loop-iteration';
+
+export interface UsageBudget {
+    id: string;
+    period: BudgetPeriod;
+    limitUsd: number;
+    /** soft: downgrade models once spent; hard: refuse calls and pause the loop. */
+    enforcement: 'soft' | 'hard';
+}
+
+export interface UsageSettings {
+    /** Keyed by model id; "*" prices any model not listed. */
+    prices: Record<string, ModelPrice>;
+    budgets: UsageBudget[];
+    /** Cheaper model to use while a soft budget is spent. */
+    downgrades: Record<string, string>;
+}
+
+export interface UsageRecord {
+    id: string;
+    at: string;
+    view: string;
+    runId?: string;
+    iteration?: number;
+    model: string;
+    /** Set when a soft budget swapped the model the caller asked for. */
+    requestedModel?: string;
+    stream: boolean;
+    inputTokens: number;
+    outputTokens: number;
+    thoughtTokens: number;
+    images: number;
+    groundedSearches: number;
+    latencyMs: number;
+    costUsd: number;
+    /** Tokens were estimated from text length; the response carried no usage metadata. */
+    estimated?: boolean;
+    error?: string;
+}
+
+export interface BudgetState {
+    budget: UsageBudget;
+    spentUsd: number;
+    exceeded: boolean;
+}
@@ -1,6 +1,137 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
+import { isJsonRequest, isLoopbackRequest, isSameOriginRequest } from './server/loopback';
+import { modelApiFromEnv } from './server/modelApiServer';
+import { sendSmtp } from './server/smtpClient';
+import { isEmailAddress } from './services/emailAddress';
 
+/**
+ * Dev-only endpoint backing the record/replay model provider:
+ * GET/POST /__fixtures/<name> reads/writes fixtures/<name>.json on disk.
+ * Only the workbench on this machine may write, and only valid JSON.
+ */
+function fixtureStore(): Plugin {
+    const dir = path.resolve(__dirname, 'fixtures');
+    return {
+      name: 'fixture-store',
+      configureServer(server) {
+        server.middlewares.use('/__fixtures', (req, res) => {
+          const name = decodeURIComponent((req.url || '').replace(/^\//, '').split('?')[0]);
+          if (!/^[\w-]+$/.test(name)) {
+            res.statusCode = 400;
+            return res.end('Invalid fixture name');
+          }
+          const file = path.join(dir, `${name}.json`);
+
+          if (req.method === 'GET') {
+            if (!fs.existsSync(file)) {
+              res.statusCode = 404;
+              return res.end('Fixture not found');
+            }
+            res.setHeader('Content-Type', 'application/json');
+            return res.end(fs.readFileSync(file));
+          }
+
+          if (req.method === 'POST') {
+            if (!isLoopbackRequest(req) || !isSameOriginRequest(req)) {
+              res.statusCode = 403;
+              return res.end('Fixtures can only be recorded from the workbench on this machine');
+            }
+            if (!isJsonRequest(req)) {
+              res.statusCode = 415;
+              return res.end('Fixtures must be sent as application/json');
+            }
+            let body = '';
+            req.on('data', chunk => body += chunk);
+            req.on('end', () => {
+              try {
+                JSON.parse(body);
+              } catch {
+                res.statusCode = 400;
+                return res.end('Fixture is not valid JSON');
+              }
+              fs.mkdirSync(dir, { recursive: true });
+              fs.writeFileSync(file, body);
+              res.statusCode = 204;
+              res.end();
+            });
+            return;
+          }
+
+          res.statusCode = 405;
+          res.end();
+        });
+      }
+    };
+}
+
+/**
+ * Dev-only SMTP relay for the CRM outbox: POST /__smtp { from, to, raw }
+ * hands the message to SMTP_HOST:SMTP_PORT (default a local stand-in on 1025).
+ * Only the workbench on this machine may send, and only to valid addresses,
+ * so the dev server is never an open relay.
+ */
+function smtpRelay(host: string, port: number): Plugin {
+    return {
+      name: 'smtp-relay',
+      configureServer(server) {
+        server.middlewares.use('/__smtp', (req, res) => {
+          if (req.method !== 'POST') {
+            res.statusCode = 405;
+            return res.end();
+          }
+          if (!isLoopbackRequest(req) || !isSameOriginRequest(req)) {
+            res.statusCode = 403;
+            return res.end('Mail can only be relayed from the workbench on this machine');
+          }
+          if (!isJsonRequest(req)) {
+            res.statusCode = 415;
+            return res.end('Mail must be sent as application/json');
+          }
+          let body = '';
+          req.on('data', chunk => body += chunk);
+          req.on('end', async () => {
+            let envelope: any;
+            try {
+              envelope = JSON.parse(body);
+            } catch {
+              envelope = null;
+            }
+            const { from, to, raw } = envelope || {};
+            if (!isEmailAddress(from) || !Array.isArray(to) || !to.length || !to.every(isEmailAddress) || typeof raw !== 'string') {
+              res.statusCode = 400;
+              return res.end('Expected { from, to: [addresses], raw } with valid addresses');
+            }
+            try {
+              const reply = await sendSmtp({ from, to, raw }, { host, port });
+              res.setHeader('Content-Type', 'application/json');
+              res.end(JSON.stringify({ reply }));
+            } catch (e: any) {
+              res.statusCode = 502;
+              res.end(e.message);
+            }
+          });
+        });
+      }
+    };
+}
+
+/**
+ * The model API (server/modelApiServer.ts) mounted on the dev server, so
+ * `npm run dev` serves /api/* with the key kept in this process. Deployed
+ * builds use the standalone server instead (`npm run server`).
+ */
+function modelApi(env: Record<string, string>): Plugin {
+    return {
+      name: 'model-api',
+      configureServer(server) {
+        const { handler, summary } = modelApiFromEnv(env, line => server.config.logger.info(`[api] ${line}`));
+        server.config.logger.info(`  Model API: ${summary}`);
+        server.middlewares.use((req, res, next) => req.url?.startsWith('/api/') ? handler(req, res) : next());
+      }
+    };
+}
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,10 +140,23 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [],
+      plugins: [modelApi(env), fixtureStore(), smtpRelay(env.SMTP_HOST || '127.0.0.1', Number(env.SMTP_PORT || 1025))],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Model credentials stay server-side; the bundle only learns where the API is.
+        'process.env.MODEL_API_URL': JSON.stringify(env.MODEL_API_URL || ''),
+        'process.env.MODEL_PROVIDER': JSON.stringify(env.MODEL_PROVIDER || 'api'),
+        'process.env.MODEL_FIXTURES': JSON.stringify(env.MODEL_FIXTURES || 'default'),
+        'process.env.MAIL_TRANSPORT': JSON.stringify(env.MAIL_TRANSPORT || 'outbox'),
+        'process.env.MAIL_FROM': JSON.stringify(env.MAIL_FROM || 'sales@nimbusiq.example'),
+        'process.env.DEPLOY_RPC_URL': JSON.stringify(env.DEPLOY_RPC_URL || 'http://127.0.0.1:8545'),
+        'process.env.DEPLOY_NETWORK': JSON.stringify(env.DEPLOY_NETWORK || 'Local Devnet'),
+        'process.env.DEPLOY_FROM': JSON.stringify(env.DEPLOY_FROM || ''),
+        'process.env.MARKET_FEED': JSON.stringify(env.MARKET_FEED || 'replay'),
+        'process.env.MARKET_WS_URL': JSON.stringify(env.MARKET_WS_URL || 'wss://stream.binance.com:9443/stream?streams={streams}'),
+        'process.env.MARKET_REST_URL': JSON.stringify(env.MARKET_REST_URL || 'https://api.binance.com/api/v3/ticker/24hr?symbols={symbols}'),
+        'process.env.MARKET_POLL_MS': JSON.stringify(env.MARKET_POLL_MS || '15000'),
+        'process.env.MARKET_QUOTE_ASSET': JSON.stringify(env.MARKET_QUOTE_ASSET || 'USDT'),
+        'process.env.MARKET_REPLAY_URL': JSON.stringify(env.MARKET_REPLAY_URL || '')
       },
       resolve: {
         alias: {